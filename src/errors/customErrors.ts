@@ -1,8 +1,121 @@
+/**
+ * Stable codes of the errors thrown by the SDK, for `switch` statements.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await executor.execute(action, inputs, context);
+ * } catch (error) {
+ *   if (error instanceof SherryError) {
+ *     switch (error.code) {
+ *       case SHERRY_ERROR_CODES.RATE_LIMITED:
+ *         return retryLater();
+ *       case SHERRY_ERROR_CODES.INVALID_METADATA:
+ *         return reportBrokenMiniApp(error.path);
+ *     }
+ *   }
+ *   throw error;
+ * }
+ * ```
+ */
+export const SHERRY_ERROR_CODES = {
+    /** Metadata or parameter definition failed validation (`SherryValidationError`) */
+    VALIDATION_FAILED: 'VALIDATION_FAILED',
+    /** An action definition of the metadata is invalid (`InvalidMetadataError`) */
+    INVALID_METADATA: 'INVALID_METADATA',
+    /** An action, its inputs or its response are invalid (`ActionValidationError`) */
+    INVALID_ACTION: 'INVALID_ACTION',
+    /** User inputs do not match the action's parameter definitions (`InputValidationError`) */
+    INVALID_INPUTS: 'INVALID_INPUTS',
+    /** A dynamic action definition is invalid (`DynamicActionValidationError`) */
+    INVALID_DYNAMIC_ACTION: 'INVALID_DYNAMIC_ACTION',
+    FUNCTION_NOT_FOUND: 'FUNCTION_NOT_FOUND',
+    NO_ACTION_DEFINED: 'NO_ACTION_DEFINED',
+    INVALID_ADDRESS: 'INVALID_ADDRESS',
+    TOO_MANY_ACTIONS: 'TOO_MANY_ACTIONS',
+    INVALID_PARAMS: 'INVALID_PARAMS',
+    /** A FlowExecutor snapshot does not match its flow */
+    INVALID_FLOW_SNAPSHOT: 'INVALID_FLOW_SNAPSHOT',
+    /** A FlowExecutor navigation is not allowed */
+    FLOW_NAVIGATION_NOT_ALLOWED: 'FLOW_NAVIGATION_NOT_ALLOWED',
+    /** The server answered with a non-OK HTTP status */
+    HTTP_ERROR: 'HTTP_ERROR',
+    /** The request was rate limited by the server or the client-side rate limiter */
+    RATE_LIMITED: 'RATE_LIMITED',
+    REQUEST_TIMEOUT: 'REQUEST_TIMEOUT',
+    REQUEST_ABORTED: 'REQUEST_ABORTED',
+    /** No response could be obtained (DNS, connection reset, CORS, etc.) */
+    NETWORK_ERROR: 'NETWORK_ERROR',
+    /** The response body is empty or is not valid JSON */
+    INVALID_RESPONSE: 'INVALID_RESPONSE',
+} as const;
+
+export type SherryErrorCode = (typeof SHERRY_ERROR_CODES)[keyof typeof SHERRY_ERROR_CODES];
+
+/**
+ * Optional details of a SherryError.
+ */
+export interface SherryErrorOptions {
+    /** JSON path of the offending value, e.g. `actions[2].params[1].options` */
+    path?: string;
+    /** HTTP status of the response that caused the error */
+    status?: number;
+    /** Underlying error */
+    cause?: unknown;
+}
+
+/**
+ * Base class of every error thrown by the SDK.
+ *
+ * @class SherryError
+ * @extends {Error}
+ *
+ * @example
+ * ```typescript
+ * throw new SherryError('Metadata must be a valid object', SHERRY_ERROR_CODES.VALIDATION_FAILED);
+ * ```
+ */
+export class SherryError extends Error {
+    /** Stable, machine-readable error code */
+    code: SherryErrorCode;
+    /** JSON path of the offending value, relative to the validated metadata */
+    path?: string;
+    /** HTTP status of the response that caused the error */
+    status?: number;
+    /** Underlying error */
+    cause?: unknown;
+
+    constructor(message: string, code: SherryErrorCode, options: SherryErrorOptions = {}) {
+        super(message);
+        this.name = 'SherryError';
+        this.code = code;
+        this.path = options.path;
+        this.status = options.status;
+        this.cause = options.cause;
+    }
+
+    toJSON(): {
+        name: string;
+        code: SherryErrorCode;
+        message: string;
+        path?: string;
+        status?: number;
+    } {
+        return {
+            name: this.name,
+            code: this.code,
+            message: this.message,
+            path: this.path,
+            status: this.status,
+        };
+    }
+}
+
 /**
  * Custom error class representing an error when a function is not found in the ABI.
  *
  * @class FunctionNotFoundError
- * @extends {Error}
+ * @extends {SherryError}
  *
  * @param {string} functionName - The name of the function that was not found.
  *
@@ -12,9 +125,13 @@
  * // Throws: Function transfer not found in ABI
  * ```
  */
-export class FunctionNotFoundError extends Error {
-    constructor(functionName: string) {
-        super(`Function ${functionName} not found in ABI`);
+export class FunctionNotFoundError extends SherryError {
+    constructor(functionName: string, options: SherryErrorOptions = {}) {
+        super(
+            `Function ${functionName} not found in ABI`,
+            SHERRY_ERROR_CODES.FUNCTION_NOT_FOUND,
+            options,
+        );
         this.name = 'FunctionNotFoundError';
     }
 }
@@ -23,7 +140,7 @@ export class FunctionNotFoundError extends Error {
  * Custom error class representing an error when no action is defined.
  *
  * @class NoActionDefinedError
- * @extends {Error}
+ * @extends {SherryError}
  *
  * @example
  * ```typescript
@@ -31,9 +148,9 @@ export class FunctionNotFoundError extends Error {
  * // Throws: No action defined
  * ```
  */
-export class NoActionDefinedError extends Error {
-    constructor() {
-        super(`No action defined`);
+export class NoActionDefinedError extends SherryError {
+    constructor(options: SherryErrorOptions = {}) {
+        super(`No action defined`, SHERRY_ERROR_CODES.NO_ACTION_DEFINED, options);
         this.name = 'NoActionDefinedError';
     }
 }
@@ -42,7 +159,7 @@ export class NoActionDefinedError extends Error {
  * Custom error class representing an error when an invalid address is provided.
  *
  * @class InvalidAddress
- * @extends {Error}
+ * @extends {SherryError}
  *
  * @param {string} address - The invalid address that was provided.
  *
@@ -52,9 +169,9 @@ export class NoActionDefinedError extends Error {
  * // Throws: Invalid address 0x123
  * ```
  */
-export class InvalidAddress extends Error {
-    constructor(address: string) {
-        super(`Invalid address ${address}`);
+export class InvalidAddress extends SherryError {
+    constructor(address: string, options: SherryErrorOptions = {}) {
+        super(`Invalid address ${address}`, SHERRY_ERROR_CODES.INVALID_ADDRESS, options);
         this.name = 'InvalidAddress';
     }
 }
@@ -63,7 +180,7 @@ export class InvalidAddress extends Error {
  * Custom error class representing an error when the number of actions exceeds the maximum allowed.
  *
  * @class ActionsNumberError
- * @extends {Error}
+ * @extends {SherryError}
  *
  * @param {number} actionsNumber - The number of actions attempted.
  *
@@ -73,45 +190,79 @@ export class InvalidAddress extends Error {
  * // Throws: Number of actions 5 exceeds the maximum allowed (4)
  * ```
  */
-export class ActionsNumberError extends Error {
-    constructor(actionsNumber: number) {
-        super(`Number of actions ${actionsNumber} exceeds the maximum allowed (4)`);
+export class ActionsNumberError extends SherryError {
+    constructor(actionsNumber: number, options: SherryErrorOptions = {}) {
+        super(
+            `Number of actions ${actionsNumber} exceeds the maximum allowed (4)`,
+            SHERRY_ERROR_CODES.TOO_MANY_ACTIONS,
+            options,
+        );
         this.name = 'ActionsNumberError';
     }
 }
 
-export class Invalidparams extends Error {
-    constructor() {
-        super(`Invalid transaction parameters`);
+export class Invalidparams extends SherryError {
+    constructor(options: SherryErrorOptions = {}) {
+        super(`Invalid transaction parameters`, SHERRY_ERROR_CODES.INVALID_PARAMS, options);
         this.name = 'Invalidparams';
     }
 }
 
-export class InvalidMetadataError extends Error {
-    constructor(msg: string) {
-        super(msg);
+export class InvalidMetadataError extends SherryError {
+    constructor(msg: string, options: SherryErrorOptions = {}) {
+        super(msg, SHERRY_ERROR_CODES.INVALID_METADATA, options);
         this.name = 'InvalidMetadataError';
     }
 }
 
 // Clase personalizada para errores de validación
-export class SherryValidationError extends Error {
-    constructor(message: string) {
-        super(message);
+export class SherryValidationError extends SherryError {
+    constructor(message: string, options: SherryErrorOptions = {}) {
+        super(message, SHERRY_ERROR_CODES.VALIDATION_FAILED, options);
         this.name = 'SherryValidationError';
     }
 }
 
-export class ActionValidationError extends Error {
-    constructor(message: string) {
-        super(message);
+export class ActionValidationError extends SherryError {
+    constructor(message: string, options: SherryErrorOptions = {}) {
+        super(message, SHERRY_ERROR_CODES.INVALID_ACTION, options);
         this.name = 'ActionValidationError';
     }
 }
 
-export class DynamicActionValidationError extends Error {
-    constructor(message: string) {
-        super(message);
+/**
+ * Custom error class representing user inputs that do not match the parameters
+ * of an action. `path` is the name of the first invalid parameter.
+ *
+ * @class InputValidationError
+ * @extends {ActionValidationError}
+ *
+ * @example
+ * ```typescript
+ * throw new InputValidationError("Required parameter 'email' is missing", {
+ *   email: 'is required',
+ * });
+ * ```
+ */
+export class InputValidationError extends ActionValidationError {
+    /** Message of each invalid input, keyed by parameter name */
+    fieldErrors: Record<string, string>;
+
+    constructor(
+        message: string,
+        fieldErrors: Record<string, string>,
+        options: SherryErrorOptions = {},
+    ) {
+        super(message, { path: Object.keys(fieldErrors)[0], ...options });
+        this.name = 'InputValidationError';
+        this.code = SHERRY_ERROR_CODES.INVALID_INPUTS;
+        this.fieldErrors = fieldErrors;
+    }
+}
+
+export class DynamicActionValidationError extends SherryError {
+    constructor(message: string, options: SherryErrorOptions = {}) {
+        super(message, SHERRY_ERROR_CODES.INVALID_DYNAMIC_ACTION, options);
         this.name = 'DynamicActionValidationError';
 
         // Mantener la pila de llamadas en errores personalizados
@@ -120,3 +271,189 @@ export class DynamicActionValidationError extends Error {
         }
     }
 }
+
+/**
+ * Custom error class representing an invalid or stale FlowExecutor snapshot.
+ *
+ * @class FlowSnapshotError
+ * @extends {SherryError}
+ *
+ * @example
+ * ```typescript
+ * throw new FlowSnapshotError('Snapshot does not match the flow definition');
+ * ```
+ */
+export class FlowSnapshotError extends SherryError {
+    constructor(message: string, options: SherryErrorOptions = {}) {
+        super(message, SHERRY_ERROR_CODES.INVALID_FLOW_SNAPSHOT, options);
+        this.name = 'FlowSnapshotError';
+    }
+}
+
+/**
+ * Custom error class representing a FlowExecutor navigation that is not allowed,
+ * such as going back past an irreversible step.
+ *
+ * @class FlowNavigationError
+ * @extends {SherryError}
+ *
+ * @example
+ * ```typescript
+ * throw new FlowNavigationError("Cannot go back past irreversible step 'approve'");
+ * ```
+ */
+export class FlowNavigationError extends SherryError {
+    constructor(message: string, options: SherryErrorOptions = {}) {
+        super(message, SHERRY_ERROR_CODES.FLOW_NAVIGATION_NOT_ALLOWED, options);
+        this.name = 'FlowNavigationError';
+    }
+}
+
+/**
+ * Custom error class representing a non-OK HTTP response received through the proxy.
+ *
+ * @class HttpRequestError
+ * @extends {SherryError}
+ *
+ * @example
+ * ```typescript
+ * throw new HttpRequestError('HTTP 503: Service Unavailable', 503, 2000);
+ * ```
+ */
+export class HttpRequestError extends SherryError {
+    /** HTTP status code of the response */
+    declare status: number;
+    /** Delay requested by the server through `Retry-After`, in milliseconds */
+    retryAfterMs?: number;
+
+    constructor(
+        message: string,
+        status: number,
+        retryAfterMs?: number,
+        options: Omit<SherryErrorOptions, 'status'> = {},
+    ) {
+        super(message, SHERRY_ERROR_CODES.HTTP_ERROR, { ...options, status });
+        this.name = 'HttpRequestError';
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+/**
+ * Custom error class representing a rate-limited request, either answered with
+ * HTTP 429 or refused by the executor's client-side rate limiter.
+ *
+ * @class RateLimitError
+ * @extends {HttpRequestError}
+ *
+ * @example
+ * ```typescript
+ * throw new RateLimitError('HTTP 429: Too Many Requests', {
+ *   retryAfterMs: 2000,
+ *   resetAt: new Date(Date.now() + 2000),
+ * });
+ * ```
+ */
+export class RateLimitError extends HttpRequestError {
+    /** When the rate limit resets, if known */
+    resetAt?: Date;
+    /** Maximum number of requests allowed in the current window, from `X-RateLimit-Limit` */
+    limit?: number;
+    /** Requests left in the current window, from `X-RateLimit-Remaining` */
+    remaining?: number;
+
+    constructor(
+        message: string,
+        info: { retryAfterMs?: number; resetAt?: Date; limit?: number; remaining?: number } = {},
+        options: Omit<SherryErrorOptions, 'status'> = {},
+    ) {
+        const retryAfterMs =
+            info.retryAfterMs ??
+            (info.resetAt ? Math.max(0, info.resetAt.getTime() - Date.now()) : undefined);
+
+        super(message, 429, retryAfterMs, options);
+        this.name = 'RateLimitError';
+        this.code = SHERRY_ERROR_CODES.RATE_LIMITED;
+        this.resetAt =
+            info.resetAt ??
+            (retryAfterMs !== undefined ? new Date(Date.now() + retryAfterMs) : undefined);
+        this.limit = info.limit;
+        this.remaining = info.remaining;
+    }
+}
+
+/**
+ * Custom error class representing a request that exceeded its timeout.
+ *
+ * @class RequestTimeoutError
+ * @extends {SherryError}
+ *
+ * @example
+ * ```typescript
+ * throw new RequestTimeoutError(5000);
+ * ```
+ */
+export class RequestTimeoutError extends SherryError {
+    /** Timeout that was exceeded, in milliseconds */
+    timeout: number;
+
+    constructor(timeout: number, options: SherryErrorOptions = {}) {
+        super(`Request timeout after ${timeout}ms`, SHERRY_ERROR_CODES.REQUEST_TIMEOUT, options);
+        this.name = 'RequestTimeoutError';
+        this.timeout = timeout;
+    }
+}
+
+/**
+ * Custom error class representing a request cancelled through the caller's AbortSignal.
+ *
+ * @class RequestAbortedError
+ * @extends {SherryError}
+ *
+ * @example
+ * ```typescript
+ * throw new RequestAbortedError();
+ * ```
+ */
+export class RequestAbortedError extends SherryError {
+    constructor(message: string = 'Request was aborted', options: SherryErrorOptions = {}) {
+        super(message, SHERRY_ERROR_CODES.REQUEST_ABORTED, options);
+        this.name = 'RequestAbortedError';
+    }
+}
+
+/**
+ * Custom error class representing a request that got no response, such as a
+ * DNS failure, a reset connection or a CORS rejection in browsers.
+ *
+ * @class NetworkError
+ * @extends {SherryError}
+ *
+ * @example
+ * ```typescript
+ * throw new NetworkError('fetch failed', { cause: error });
+ * ```
+ */
+export class NetworkError extends SherryError {
+    constructor(message: string, options: SherryErrorOptions = {}) {
+        super(message, SHERRY_ERROR_CODES.NETWORK_ERROR, options);
+        this.name = 'NetworkError';
+    }
+}
+
+/**
+ * Custom error class representing a response whose body is empty or not valid JSON.
+ *
+ * @class InvalidResponseError
+ * @extends {SherryError}
+ *
+ * @example
+ * ```typescript
+ * throw new InvalidResponseError('Empty response from proxy', { status: 200 });
+ * ```
+ */
+export class InvalidResponseError extends SherryError {
+    constructor(message: string, options: SherryErrorOptions = {}) {
+        super(message, SHERRY_ERROR_CODES.INVALID_RESPONSE, options);
+        this.name = 'InvalidResponseError';
+    }
+}
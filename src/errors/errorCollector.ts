@@ -0,0 +1,107 @@
+// Internal helpers used by the validators to attach JSON paths to errors and to
+// collect every error of a validation. Not part of the public API: they rely on
+// module-level state.
+
+import { SherryError } from './customErrors';
+
+/**
+ * Errors recorded by the innermost `collectErrors` call, with the path segments
+ * of the validation steps currently running.
+ */
+let collector: { segments: string[]; errors: SherryError[] } | undefined;
+
+function joinPath(segment: string, path?: string): string {
+    if (!path) {
+        return segment;
+    }
+    return path.startsWith('[') ? `${segment}${path}` : `${segment}.${path}`;
+}
+
+function runValidationStep<T>(segment: string | undefined, validate: () => T): T {
+    const active = collector;
+    if (segment !== undefined) {
+        active?.segments.push(segment);
+    }
+
+    try {
+        return validate();
+    } catch (error) {
+        if (!(error instanceof SherryError)) {
+            throw error;
+        }
+        if (segment !== undefined) {
+            error.path = joinPath(segment, error.path);
+        }
+        if (!active) {
+            throw error;
+        }
+
+        // Record the error with its full path and let the caller go on
+        const parents = segment !== undefined ? active.segments.slice(0, -1) : active.segments;
+        error.path = parents.reduceRight<string | undefined>(
+            (path, parent) => joinPath(parent, path),
+            error.path,
+        );
+        active.errors.push(error);
+        return undefined as T;
+    } finally {
+        if (segment !== undefined) {
+            active?.segments.pop();
+        }
+    }
+}
+
+/**
+ * Runs a validation step and prefixes the path of the SherryError it throws,
+ * so nested validators report paths such as `actions[2].params[1]`.
+ *
+ * Inside `collectErrors`, the error is recorded instead and `undefined` is
+ * returned, so the caller validates the next value.
+ *
+ * @param segment - Path of the value validated by `validate`, e.g. `actions[2]`
+ * @param validate - The validation step
+ * @returns The result of `validate`
+ */
+export function withErrorPath<T>(segment: string, validate: () => T): T {
+    return runValidationStep(segment, validate);
+}
+
+/**
+ * Runs a validation step that the following steps do not depend on.
+ *
+ * Outside `collectErrors` this is the same as calling `validate`. Inside it, a
+ * SherryError thrown by the step is recorded and `undefined` is returned.
+ *
+ * @param validate - The validation step
+ * @returns The result of `validate`
+ */
+export function tryValidate<T>(validate: () => T): T | undefined {
+    return runValidationStep(undefined, validate);
+}
+
+/**
+ * Runs a validation and collects every SherryError thrown by its `withErrorPath`
+ * and `tryValidate` steps instead of stopping at the first one.
+ *
+ * @param validate - The validation to run
+ * @returns The result of `validate`, only meaningful when no errors were collected,
+ *          and the errors with their full paths
+ * @throws Errors that are not SherryErrors
+ */
+export function collectErrors<T>(validate: () => T): { result?: T; errors: SherryError[] } {
+    const previous = collector;
+    const active = { segments: [] as string[], errors: [] as SherryError[] };
+    collector = active;
+
+    try {
+        return { result: validate(), errors: active.errors };
+    } catch (error) {
+        if (!(error instanceof SherryError)) {
+            throw error;
+        }
+        active.errors.push(error);
+        return { errors: active.errors };
+    } finally {
+        collector = previous;
+    }
+}
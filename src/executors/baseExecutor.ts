@@ -1,5 +1,35 @@
-import { ActionValidationError } from '../errors/customErrors';
-import { buildSdkHeaders, VALID_OPERATIONS, ValidOperation } from '../headers/headers';
+import {
+    ActionValidationError,
+    HttpRequestError,
+    InvalidResponseError,
+    NetworkError,
+    RateLimitError,
+    RequestTimeoutError,
+    RequestAbortedError,
+    SherryError,
+    SherryErrorCode,
+} from '../errors/customErrors';
+import {
+    buildSdkHeaders,
+    buildProxyHeaders,
+    VALID_OPERATIONS,
+    ValidOperation,
+} from '../headers/headers';
+import {
+    RetryPolicy,
+    ResolvedRetryPolicy,
+    resolveRetryPolicy,
+    computeBackoffDelay,
+    parseRetryAfter,
+    isRetrySafe,
+} from './retryPolicy';
+import { MetadataCache, MetadataCacheEntry, MetadataCacheOptions } from './metadataCache';
+import { RateLimiter, RateLimitOptions, parseRateLimitHeaders, sleep } from './rateLimiter';
+import { Transport, TransportHeaders, TransportResponse, createFetchTransport } from './transport';
+import { ExecutorMiddleware, composeMiddleware } from './middleware';
+import { ValidatedMetadata } from '../interface/metadata';
+import { ValidatedAction } from '../interface/actions/action';
+import { MetadataValidator } from '../validators/metadataValidator';
 
 /**
  * Configuration options for executor operations.
@@ -7,12 +37,123 @@ import { buildSdkHeaders, VALID_OPERATIONS, ValidOperation } from '../headers/he
 export interface ExecutorOptions {
     /** Client key for authentication. Overrides the executor's default client key. */
     clientKey?: string;
-    /** Request timeout in milliseconds. Default varies by operation type. */
+    /** Request timeout in milliseconds. Defaults to the executor's default timeout (30s). */
     timeout?: number;
+    /** Signal to cancel the request, e.g. when the user navigates away. */
+    signal?: AbortSignal;
     /** Additional custom headers to include in the request. */
     customHeaders?: Record<string, string>;
     /** Custom proxy URL for CORS or development environments */
     proxyUrl?: string;
+    /** Retry policy for failed requests. Without it each request is attempted once. */
+    retry?: RetryPolicy;
+}
+
+/**
+ * A validation error found in the metadata of a mini app.
+ */
+export interface MetadataValidationIssue {
+    /** Name of the validation error, e.g. `SherryValidationError` */
+    name: string;
+    /** Description of the problem */
+    message: string;
+    /** Stable code of the error, when thrown by the SDK */
+    code?: SherryErrorCode;
+    /** JSON path of the offending value, e.g. `actions[0].params[1]` */
+    path?: string;
+}
+
+/**
+ * Result of `getValidatedMetadata`: either the validated metadata or the
+ * validation errors that made it unusable.
+ */
+export type ValidatedMetadataResult =
+    | {
+          isValid: true;
+          /** Validated metadata with dynamic paths resolved to absolute URLs */
+          metadata: ValidatedMetadata;
+          errors: [];
+      }
+    | {
+          isValid: false;
+          metadata?: undefined;
+          errors: MetadataValidationIssue[];
+          /** Metadata as returned by the mini app */
+          raw: unknown;
+      };
+
+/**
+ * How an executor reaches mini apps.
+ *
+ * - `proxy`: through the Sherry proxy (default)
+ * - `direct`: straight to the mini app URL, sending the headers the proxy would add
+ */
+export type ExecutorMode = 'proxy' | 'direct';
+
+/**
+ * Blockchain context forwarded to mini apps as `X-Chain-ID`,
+ * `X-Destination-Chain` and `X-Wallet-Address` in direct mode.
+ */
+export interface DirectRequestContext {
+    chainId?: string;
+    destinationChain?: string;
+    walletAddress?: string;
+}
+
+/**
+ * Configuration applied to every request of an executor instance.
+ */
+export interface ExecutorConfig {
+    /**
+     * Cache for `getMetadata` responses. Pass options (e.g. a custom store) or a
+     * shared MetadataCache instance. Without it metadata is always fetched.
+     */
+    metadataCache?: MetadataCache | MetadataCacheOptions;
+    /**
+     * Transport used to send requests. Defaults to the global `fetch`; use
+     * `createNodeHttpTransport` for custom agents or mTLS, or
+     * `createInMemoryTransport` in unit tests.
+     */
+    transport?: Transport;
+    /** Middleware run around every request, in order. More can be added with `use()`. */
+    middleware?: ExecutorMiddleware[];
+    /**
+     * Use `'direct'` to call mini apps without the Sherry proxy, e.g. for
+     * self-hosted integrations or local development. Defaults to `'proxy'`.
+     */
+    mode?: ExecutorMode;
+    /**
+     * Client-side rate limit applied before every request. Pass options or a
+     * RateLimiter instance shared by several executors. Without it requests are
+     * only limited by the server, which answers with a RateLimitError.
+     */
+    rateLimit?: RateLimiter | RateLimitOptions;
+}
+
+/**
+ * Request sent to the Sherry proxy by `makeRequest` and `makeRawRequest`.
+ */
+export interface ProxyRequestOptions {
+    method: string;
+    headers: Record<string, string>;
+    body?: string | FormData;
+    retry?: RetryPolicy;
+    timeout?: number;
+    signal?: AbortSignal;
+    /** Resolve with undefined `data` instead of throwing when a 2xx response has an empty body */
+    allowEmptyResponse?: boolean;
+}
+
+/**
+ * Raw response received from the Sherry proxy.
+ */
+export interface ProxyResponse {
+    /** HTTP status code */
+    status: number;
+    /** Response headers */
+    headers: TransportHeaders;
+    /** Parsed JSON body; undefined for `304 Not Modified` and allowed empty responses */
+    data: any;
 }
 
 /**
@@ -23,7 +164,7 @@ export interface ExecutorOptions {
  * - HTTP request/response management
  * - URL building and validation
  * - Error handling and timeout management
- * - Metadata fetching for any mini app
+ * - Metadata fetching for any mini app, with optional HTTP caching
  *
  * All concrete executor implementations should extend this class to inherit
  * the core networking and communication functionality.
@@ -46,6 +187,12 @@ export abstract class BaseExecutor {
     protected proxyBaseUrl: string;
     protected defaultTimeout: number;
     protected isBrowser: boolean;
+    protected metadataCache?: MetadataCache;
+    protected transport: Transport;
+    protected mode: ExecutorMode;
+    protected rateLimiter?: RateLimiter;
+    private middleware: ExecutorMiddleware[];
+    private metadataRevalidations = new Map<string, Promise<any>>();
 
     /**
      * Creates a new BaseExecutor instance.
@@ -54,17 +201,40 @@ export abstract class BaseExecutor {
      *                   If not provided, requests will be made anonymously
      *                   with reduced rate limits.
      * @param proxyUrl - Optional custom proxy URL for CORS or development environments.
-     *                  Defaults to the official Sherry proxy.
+     *                  Defaults to `SHERRY_PROXY_URL` when `process.env` is available,
+     *                  then to the official Sherry proxy.
+     * @param config - Optional executor configuration (metadata cache, transport, etc.)
      */
-    constructor(clientKey?: string, proxyUrl?: string) {
+    constructor(clientKey?: string, proxyUrl?: string, config: ExecutorConfig = {}) {
         this.clientKey = clientKey;
+        if (config.metadataCache) {
+            this.metadataCache =
+                config.metadataCache instanceof MetadataCache
+                    ? config.metadataCache
+                    : new MetadataCache(config.metadataCache);
+        }
         this.isBrowser = typeof window !== 'undefined';
+        this.transport = config.transport ?? createFetchTransport();
+        this.middleware = [...(config.middleware ?? [])];
+        this.mode = config.mode ?? 'proxy';
+        if (config.rateLimit) {
+            this.rateLimiter =
+                config.rateLimit instanceof RateLimiter
+                    ? config.rateLimit
+                    : new RateLimiter(config.rateLimit);
+        }
         this.proxyBaseUrl =
-            proxyUrl || process.env.SHERRY_PROXY_URL || 'https://proxy.sherry.social';
+            proxyUrl ||
+            (typeof process !== 'undefined' ? process.env?.SHERRY_PROXY_URL : undefined) ||
+            'https://proxy.sherry.social';
         this.defaultTimeout = 30000;
 
         // Warn about CORS issues in browser environments
-        if (this.isBrowser && this.proxyBaseUrl.includes('proxy.sherry.social')) {
+        if (
+            this.isBrowser &&
+            this.mode === 'proxy' &&
+            this.proxyBaseUrl.includes('proxy.sherry.social')
+        ) {
             console.warn(
                 'Sherry SDK: Running in browser environment. You may encounter CORS issues. ' +
                     'Consider using a CORS proxy or server-side implementation for production.',
@@ -72,6 +242,27 @@ export abstract class BaseExecutor {
         }
     }
 
+    /**
+     * Adds a middleware to the end of the request pipeline.
+     *
+     * @param middleware - Middleware to run around every request
+     * @returns The executor, for chaining
+     *
+     * @example
+     * ```typescript
+     * executor
+     *   .use(async (request, next) => {
+     *     request.headers['X-Trace-Id'] = crypto.randomUUID();
+     *     return next(request);
+     *   })
+     *   .use(loggingMiddleware);
+     * ```
+     */
+    use(middleware: ExecutorMiddleware): this {
+        this.middleware.push(middleware);
+        return this;
+    }
+
     /**
      * Fetches metadata from any mini app endpoint.
      *
@@ -79,13 +270,21 @@ export abstract class BaseExecutor {
      * not just those with dynamic actions. It's the recommended way
      * to discover what actions and capabilities a mini app provides.
      *
+     * When the executor is created with a `metadataCache`, responses are cached
+     * following their `Cache-Control` and `ETag` headers: fresh entries are served
+     * directly, entries within `stale-while-revalidate` are served while being
+     * refreshed in the background, and expired entries are revalidated with
+     * `If-None-Match`.
+     *
      * @param targetUrl - The complete URL of the mini app's metadata endpoint
      * @param options - Additional options for the request
      *
      * @returns Promise resolving to the mini app's metadata object
      *
      * @throws {ActionValidationError} When URL parameters are invalid
-     * @throws {Error} When the request fails or times out
+     * @throws {RequestTimeoutError} When the request exceeds `options.timeout`
+     * @throws {RequestAbortedError} When `options.signal` aborts the request
+     * @throws {NetworkError} When no response could be obtained
      *
      * @example
      * ```typescript
@@ -99,28 +298,342 @@ export abstract class BaseExecutor {
      *   'https://myapp.com/api/v1/metadata',
      *   { timeout: 5000, clientKey: 'custom-key' }
      * );
+     *
+     * // Cache metadata in memory
+     * const cachedExecutor = new MiniAppExecutor('your-client-key', undefined, {
+     *   metadataCache: { maxEntries: 500 },
+     * });
      * ```
      */
     async getMetadata(targetUrl: string, options?: ExecutorOptions): Promise<any> {
+        if (!this.metadataCache) {
+            return this.makeRequest(...this.buildMetadataRequest(targetUrl, options));
+        }
+
+        const cached = await this.metadataCache.lookup(targetUrl);
+
+        if (cached?.state === 'fresh') {
+            return cached.entry.value;
+        }
+
+        if (cached?.state === 'stale') {
+            // Serve the stale entry and refresh it in the background
+            this.revalidateMetadata(targetUrl, cached.entry, options).catch(() => undefined);
+            return cached.entry.value;
+        }
+
+        return this.revalidateMetadata(targetUrl, cached?.entry, options);
+    }
+
+    /**
+     * Fetches the metadata of a mini app and validates it with `MetadataValidator.createMetadata`.
+     *
+     * Relative paths of dynamic actions, including dynamic steps of flows, are
+     * resolved against the metadata `baseUrl` (or the step's own `baseUrl`).
+     * Validation failures are returned instead of thrown, so callers such as feed
+     * renderers can skip broken mini apps.
+     *
+     * @param targetUrl - The complete URL of the mini app's metadata endpoint
+     * @param options - Additional options for the request
+     *
+     * @returns Promise resolving to the validated metadata or its validation errors
+     *
+     * @throws {RequestTimeoutError} When the request exceeds `options.timeout`
+     * @throws {RequestAbortedError} When `options.signal` aborts the request
+     * @throws {NetworkError} When no response could be obtained
+     *
+     * @example
+     * ```typescript
+     * const result = await executor.getValidatedMetadata('https://myapp.com/metadata');
+     *
+     * if (result.isValid) {
+     *   renderMiniApp(result.metadata);
+     * } else {
+     *   console.warn('Skipping mini app:', result.errors);
+     * }
+     * ```
+     */
+    async getValidatedMetadata(
+        targetUrl: string,
+        options?: ExecutorOptions,
+    ): Promise<ValidatedMetadataResult> {
+        const raw = await this.getMetadata(targetUrl, options);
+
+        let metadata: ValidatedMetadata;
+        try {
+            metadata = MetadataValidator.createMetadata(raw);
+        } catch (error) {
+            return {
+                isValid: false,
+                errors: [
+                    error instanceof SherryError
+                        ? {
+                              name: error.name,
+                              message: error.message,
+                              code: error.code,
+                              path: error.path,
+                          }
+                        : error instanceof Error
+                          ? { name: error.name, message: error.message }
+                          : { name: 'Error', message: String(error) },
+                ],
+                raw,
+            };
+        }
+
+        return {
+            isValid: true,
+            metadata: {
+                ...metadata,
+                actions: metadata.actions.map(action =>
+                    this.resolveDynamicPaths(action, metadata.baseUrl),
+                ),
+            },
+            errors: [],
+        };
+    }
+
+    /**
+     * Removes the cached metadata of a URL, so the next `getMetadata` call fetches it again.
+     *
+     * @param targetUrl - The metadata URL passed to `getMetadata`
+     */
+    async invalidateMetadata(targetUrl: string): Promise<void> {
+        await this.metadataCache?.invalidate(targetUrl);
+    }
+
+    /**
+     * Removes every cached metadata entry.
+     */
+    async clearMetadataCache(): Promise<void> {
+        await this.metadataCache?.clear();
+    }
+
+    /**
+     * Returns a copy of an action whose relative dynamic paths are absolute URLs.
+     *
+     * @private
+     */
+    private resolveDynamicPaths(action: ValidatedAction, baseUrl?: string): ValidatedAction {
+        const resolve = (path: string, actionBaseUrl?: string): string =>
+            /^https?:\/\//.test(path) ? path : this.buildTargetUrl(actionBaseUrl, path);
+
+        if (action.type === 'dynamic') {
+            return { ...action, path: resolve(action.path, baseUrl) };
+        }
+
+        if (action.type === 'flow') {
+            return {
+                ...action,
+                actions: action.actions.map(nested =>
+                    nested.type === 'dynamic'
+                        ? { ...nested, path: resolve(nested.path, nested.baseUrl || baseUrl) }
+                        : nested,
+                ),
+            };
+        }
+
+        return action;
+    }
+
+    /**
+     * Fetches metadata and updates the cache, revalidating the cached entry with
+     * `If-None-Match` when it has an ETag. Concurrent calls that send the same
+     * request (URL, proxy, headers, timeout and retry policy) share it; each caller's
+     * `signal` only stops that caller's wait.
+     *
+     * @private
+     */
+    private revalidateMetadata(
+        targetUrl: string,
+        entry: MetadataCacheEntry | undefined,
+        options?: ExecutorOptions,
+    ): Promise<any> {
+        const [endpoint, request, proxyUrl] = this.buildMetadataRequest(
+            targetUrl,
+            options,
+            entry?.etag,
+        );
+        const key = JSON.stringify([
+            proxyUrl,
+            endpoint,
+            request.headers,
+            request.timeout,
+            request.retry,
+        ]);
+
+        let revalidation = this.metadataRevalidations.get(key);
+        if (!revalidation) {
+            const cache = this.metadataCache!;
+            revalidation = (async () => {
+                // The shared request outlives the callers, so it ignores their signals
+                const response = await this.makeRawRequest(
+                    endpoint,
+                    { ...request, signal: undefined },
+                    proxyUrl,
+                );
+
+                if (response.status === 304) {
+                    if (entry) {
+                        return cache.refresh(targetUrl, entry, response.headers);
+                    }
+                    throw new HttpRequestError('HTTP 304: Not Modified', 304);
+                }
+
+                await cache.save(targetUrl, response.data, response.headers);
+                return response.data;
+            })().finally(() => this.metadataRevalidations.delete(key));
+
+            this.metadataRevalidations.set(key, revalidation);
+        }
+
+        return this.waitUnlessAborted(revalidation, options?.signal);
+    }
+
+    /**
+     * Resolves like `promise`, but rejects with `RequestAbortedError` as soon as
+     * `signal` aborts, leaving `promise` running.
+     *
+     * @private
+     */
+    private waitUnlessAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+        if (!signal) {
+            return promise;
+        }
+
+        return new Promise((resolve, reject) => {
+            const onAbort = () => reject(new RequestAbortedError());
+
+            if (signal.aborted) {
+                onAbort();
+            } else {
+                signal.addEventListener('abort', onAbort, { once: true });
+            }
+
+            promise
+                .then(resolve, reject)
+                .finally(() => signal.removeEventListener('abort', onAbort));
+        });
+    }
+
+    /**
+     * Builds the proxy request for a metadata URL.
+     *
+     * @returns Arguments for `makeRequest` / `makeRawRequest`
+     *
+     * @private
+     */
+    private buildMetadataRequest(
+        targetUrl: string,
+        options?: ExecutorOptions,
+        etag?: string,
+    ): [string, ProxyRequestOptions, string] {
         const finalClientKey = options?.clientKey || this.clientKey;
         const finalProxyUrl = options?.proxyUrl || this.proxyBaseUrl;
 
-        const headers = buildSdkHeaders(targetUrl, VALID_OPERATIONS.FETCH, finalClientKey);
+        const headers = this.buildRequestHeaders(targetUrl, VALID_OPERATIONS.FETCH, finalClientKey);
 
         if (options?.customHeaders) {
             Object.assign(headers, options.customHeaders);
         }
 
-        const requestEndpoint = `/proxy?url=${encodeURIComponent(targetUrl)}`;
+        if (etag) {
+            headers['If-None-Match'] = etag;
+        }
 
-        return this.makeRequest(
+        const requestEndpoint =
+            this.mode === 'direct' ? targetUrl : `/proxy?url=${encodeURIComponent(targetUrl)}`;
+
+        return [
             requestEndpoint,
             {
                 method: 'GET',
                 headers,
+                retry: options?.retry,
+                timeout: options?.timeout,
+                signal: options?.signal,
             },
             finalProxyUrl,
-        );
+        ];
+    }
+
+    /**
+     * Builds the headers of a request to a mini app.
+     *
+     * In proxy mode these are the SDK headers that tell the proxy where to route
+     * the request. In direct mode they are the headers the proxy itself would add
+     * (`buildProxyHeaders`), so the mini app cannot tell the difference.
+     *
+     * @param targetUrl - The mini app URL
+     * @param operation - The proxy operation
+     * @param clientKey - Client key sent to the proxy (unused in direct mode)
+     * @param context - Blockchain context forwarded in direct mode
+     *
+     * @returns The request headers
+     *
+     * @protected
+     */
+    protected buildRequestHeaders(
+        targetUrl: string,
+        operation: ValidOperation,
+        clientKey?: string,
+        context: DirectRequestContext = {},
+    ): Record<string, string> {
+        if (this.mode === 'direct') {
+            return buildProxyHeaders({ operation, ...context });
+        }
+
+        return buildSdkHeaders(targetUrl, operation, clientKey);
+    }
+
+    /**
+     * Returns the endpoint to pass to `makeRequest` for a mini app URL:
+     * `/proxy` in proxy mode, or the URL itself in direct mode.
+     *
+     * @param targetUrl - The mini app URL
+     *
+     * @protected
+     */
+    protected getRequestEndpoint(targetUrl: string): string {
+        return this.mode === 'direct' ? targetUrl : '/proxy';
+    }
+
+    /**
+     * Appends values to a URL as query parameters, keeping any query string it
+     * already has. Arrays are sent as repeated parameters; null and undefined
+     * values are omitted.
+     *
+     * @param url - The target URL
+     * @param values - Parameters to append
+     *
+     * @returns The URL with the query parameters
+     *
+     * @protected
+     */
+    protected appendQuery(url: string, values?: Record<string, unknown>): string {
+        if (!values) {
+            return url;
+        }
+
+        const params = new URLSearchParams();
+        Object.entries(values).forEach(([key, value]) => {
+            if (value === undefined || value === null) {
+                return;
+            }
+
+            if (Array.isArray(value)) {
+                value.forEach(item => params.append(key, String(item)));
+            } else {
+                params.set(key, String(value));
+            }
+        });
+
+        const queryString = params.toString();
+        if (!queryString) {
+            return url;
+        }
+
+        return `${url}${url.includes('?') ? '&' : '?'}${queryString}`;
     }
 
     /**
@@ -162,82 +675,311 @@ export abstract class BaseExecutor {
      * - Request timeout management with AbortController
      * - Content-Type header detection and setting
      * - Response parsing and validation
+     * - Retries with exponential backoff when a retry policy is given
+     * - Client-side rate limiting when the executor has a `rateLimit`
      * - Comprehensive error handling
      * - JSON response parsing with error recovery
      *
-     * @param endpoint - The proxy endpoint to call (usually '/proxy')
+     * Retries honor the `Retry-After` header of the response. Non-idempotent
+     * requests (`execute` operations and POST) are only retried when they carry
+     * the policy's idempotency key header.
+     *
+     * @param endpoint - The proxy endpoint to call (usually '/proxy'), or an absolute
+     *                   URL to call a mini app directly
      * @param options - Request configuration options
      * @param customProxyUrl - Optional custom proxy URL for CORS or development environments
      *
      * @returns Promise resolving to the parsed JSON response
      *
-     * @throws {Error} When the request times out
-     * @throws {Error} When the response is not OK (4xx, 5xx status codes)
-     * @throws {Error} When the response is empty or invalid JSON
+     * @throws {RequestTimeoutError} When the request times out
+     * @throws {RequestAbortedError} When the caller's signal aborts the request
+     * @throws {RateLimitError} When the response is HTTP 429 or the rate limiter refuses the request
+     * @throws {HttpRequestError} When the response is not OK (4xx, 5xx status codes)
+     * @throws {InvalidResponseError} When the response is empty or invalid JSON
+     * @throws {NetworkError} When no response could be obtained
      *
      * @protected
      */
     protected async makeRequest(
         endpoint: string,
-        options: {
-            method: string;
-            headers: Record<string, string>;
-            body?: string | FormData;
-        },
+        options: ProxyRequestOptions,
         customProxyUrl?: string,
     ): Promise<any> {
-        const timeout = this.defaultTimeout;
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), timeout);
+        const response = await this.makeRawRequest(endpoint, options, customProxyUrl);
+
+        if (response.status === 304) {
+            throw new HttpRequestError('HTTP 304: Not Modified', 304);
+        }
+
+        return response.data;
+    }
+
+    /**
+     * Same as `makeRequest`, but resolves to the status, headers and parsed body
+     * of the response. A `304 Not Modified` response is returned instead of thrown,
+     * for conditional requests.
+     *
+     * @param endpoint - The proxy endpoint to call (usually '/proxy'), or an absolute
+     *                   URL to call a mini app directly
+     * @param options - Request configuration options
+     * @param customProxyUrl - Optional custom proxy URL for CORS or development environments
+     *
+     * @returns Promise resolving to the raw proxy response
+     *
+     * @protected
+     */
+    protected async makeRawRequest(
+        endpoint: string,
+        options: ProxyRequestOptions,
+        customProxyUrl?: string,
+    ): Promise<ProxyResponse> {
+        const timeout = options.timeout ?? this.defaultTimeout;
         const proxyUrl = customProxyUrl || this.proxyBaseUrl;
+        const url = /^https?:\/\//.test(endpoint) ? endpoint : `${proxyUrl}${endpoint}`;
+        const policy = resolveRetryPolicy(options.retry);
+        const retrySafe = isRetrySafe(options.method, options.headers, policy);
 
-        try {
-            const finalHeaders = { ...options.headers };
+        const finalHeaders = { ...options.headers };
+
+        // Auto-detect and set Content-Type for JSON requests
+        if (options.body && typeof options.body === 'string' && !finalHeaders['Content-Type']) {
+            finalHeaders['Content-Type'] = 'application/json';
+        }
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                if (this.rateLimiter) {
+                    await this.rateLimiter.acquire(options.signal);
+                }
+
+                return await this.sendRequest(
+                    url,
+                    {
+                        method: options.method,
+                        headers: finalHeaders,
+                        body: options.body,
+                    },
+                    timeout,
+                    options.signal,
+                    options.allowEmptyResponse,
+                );
+            } catch (error) {
+                const delay =
+                    retrySafe && attempt < policy.maxAttempts
+                        ? this.getRetryDelay(error, attempt, policy)
+                        : null;
+
+                if (delay === null) {
+                    throw this.toRequestError(error);
+                }
+
+                await this.wait(delay, options.signal);
 
-            // Auto-detect and set Content-Type for JSON requests
-            if (options.body && typeof options.body === 'string' && !finalHeaders['Content-Type']) {
-                finalHeaders['Content-Type'] = 'application/json';
+                if (options.signal?.aborted) {
+                    throw new RequestAbortedError();
+                }
             }
+        }
+    }
+
+    /**
+     * Performs a single HTTP attempt through the middleware chain and parses the
+     * JSON response.
+     *
+     * Errors are thrown as-is (TypeError, HttpRequestError, RequestTimeoutError,
+     * RequestAbortedError) so the caller can decide whether to retry.
+     *
+     * @private
+     */
+    private async sendRequest(
+        url: string,
+        init: { method: string; headers: Record<string, string>; body?: string | FormData },
+        timeout: number,
+        signal?: AbortSignal,
+        allowEmptyResponse?: boolean,
+    ): Promise<ProxyResponse> {
+        if (signal?.aborted) {
+            throw new RequestAbortedError();
+        }
+
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), timeout);
+        const onAbort = () => controller.abort();
+        signal?.addEventListener('abort', onAbort);
 
-            const response = await fetch(`${proxyUrl}${endpoint}`, {
-                method: options.method,
-                headers: finalHeaders,
-                body: options.body,
+        try {
+            const send = composeMiddleware(this.middleware, this.transport);
+            const response = await send({
+                url,
+                ...init,
+                headers: { ...init.headers },
                 signal: controller.signal,
             });
 
-            clearTimeout(timeoutId);
+            if (response.status === 304) {
+                return { status: response.status, headers: response.headers, data: undefined };
+            }
+
+            const rateLimit = parseRateLimitHeaders(response.headers);
 
-            if (!response.ok) {
-                const errorText = await response.text().catch(() => 'Could not read error');
-                throw new Error(`HTTP ${response.status}: ${errorText}`);
+            if (response.status === 429) {
+                const errorText = await this.readBody(response, controller.signal).catch(
+                    () => 'Could not read error',
+                );
+                const error = new RateLimitError(`HTTP 429: ${errorText}`, {
+                    ...rateLimit,
+                    retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+                });
+                this.rateLimiter?.update({ remaining: 0, resetAt: error.resetAt });
+                throw error;
             }
 
-            const responseText = await response.text();
+            this.rateLimiter?.update(rateLimit);
+
+            if (response.status < 200 || response.status >= 300) {
+                const errorText = await this.readBody(response, controller.signal).catch(
+                    () => 'Could not read error',
+                );
+                throw new HttpRequestError(
+                    `HTTP ${response.status}: ${errorText}`,
+                    response.status,
+                    parseRetryAfter(response.headers.get('Retry-After')),
+                );
+            }
+
+            const responseText = await this.readBody(response, controller.signal);
             if (!responseText?.trim()) {
-                throw new Error('Empty response from proxy');
+                if (allowEmptyResponse) {
+                    return { status: response.status, headers: response.headers, data: undefined };
+                }
+                throw new InvalidResponseError('Empty response from proxy', {
+                    status: response.status,
+                });
             }
 
-            return JSON.parse(responseText);
-        } catch (error) {
-            clearTimeout(timeoutId);
+            let data: any;
+            try {
+                data = JSON.parse(responseText);
+            } catch (error) {
+                throw new InvalidResponseError(
+                    `Invalid JSON response: ${error instanceof Error ? error.message : error}`,
+                    { status: response.status, cause: error },
+                );
+            }
 
+            return { status: response.status, headers: response.headers, data };
+        } catch (error) {
+            // Any abort not requested by the caller comes from the timeout
             if (error instanceof Error && error.name === 'AbortError') {
-                throw new Error(`Request timeout after ${timeout}ms`);
+                throw signal?.aborted
+                    ? new RequestAbortedError()
+                    : new RequestTimeoutError(timeout);
             }
+            throw error;
+        } finally {
+            clearTimeout(timeoutId);
+            signal?.removeEventListener('abort', onAbort);
+        }
+    }
 
-            // Enhanced CORS error messaging
-            if (error instanceof TypeError && error.message.includes('fetch')) {
-                if (this.isBrowser) {
-                    throw new Error(
-                        'CORS error: Cannot access proxy from browser. ' +
-                            'Use a CORS proxy, implement server-side calls, or configure your proxy to allow CORS. ' +
-                            `Original error: ${error.message}`,
-                    );
-                }
+    /**
+     * Decides whether a failed attempt should be retried.
+     *
+     * @returns Delay before the next attempt in milliseconds, or null to stop retrying
+     *
+     * @private
+     */
+    private getRetryDelay(
+        error: unknown,
+        attempt: number,
+        policy: ResolvedRetryPolicy,
+    ): number | null {
+        if (error instanceof HttpRequestError) {
+            if (!policy.retryOnStatus.includes(error.status)) {
+                return null;
             }
+            // Never let the server stall the call for longer than the policy allows
+            return error.retryAfterMs !== undefined
+                ? Math.min(error.retryAfterMs, policy.maxDelayMs)
+                : computeBackoffDelay(attempt, policy);
+        }
 
-            throw error;
+        const isTimeout = error instanceof RequestTimeoutError;
+        const isNetworkError = error instanceof TypeError;
+
+        if (
+            (isTimeout && policy.retryOnErrors.includes('timeout')) ||
+            (isNetworkError && policy.retryOnErrors.includes('network'))
+        ) {
+            return computeBackoffDelay(attempt, policy);
+        }
+
+        return null;
+    }
+
+    /**
+     * Converts a low-level failure into the SherryError reported to the caller.
+     *
+     * @private
+     */
+    private toRequestError(error: unknown): SherryError {
+        if (error instanceof SherryError) {
+            return error;
+        }
+
+        // Enhanced CORS error messaging
+        if (error instanceof TypeError && error.message.includes('fetch') && this.isBrowser) {
+            return new NetworkError(
+                'CORS error: Cannot access proxy from browser. ' +
+                    'Use a CORS proxy, implement server-side calls, or configure your proxy to allow CORS. ' +
+                    `Original error: ${error.message}`,
+                { cause: error },
+            );
         }
+
+        return new NetworkError(error instanceof Error ? error.message : String(error), {
+            cause: error,
+        });
+    }
+
+    /**
+     * Waits before the next retry attempt.
+     *
+     * @param ms - Delay in milliseconds
+     * @param signal - Caller signal that ends the wait early
+     *
+     * @throws {RequestAbortedError} As soon as the signal aborts
+     *
+     * @protected
+     */
+    protected wait(ms: number, signal?: AbortSignal): Promise<void> {
+        return sleep(ms, signal);
+    }
+
+    /**
+     * Reads the body of a response, rejecting with an AbortError when the
+     * request's signal fires first, so a stalled body is subject to the timeout.
+     *
+     * @private
+     */
+    private readBody(response: TransportResponse, signal: AbortSignal): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const onAbort = () => {
+                const error = new Error('The operation was aborted');
+                error.name = 'AbortError';
+                reject(error);
+            };
+
+            if (signal.aborted) {
+                onAbort();
+                return;
+            }
+
+            signal.addEventListener('abort', onAbort, { once: true });
+            response
+                .text()
+                .then(resolve, reject)
+                .finally(() => signal.removeEventListener('abort', onAbort));
+        });
     }
 }
@@ -1,9 +1,19 @@
 import { DynamicAction } from '../interface/actions/dynamicAction';
-import { ActionValidationError } from '../errors/customErrors';
+import {
+    ActionValidationError,
+    HttpRequestError,
+    InvalidResponseError,
+    NetworkError,
+    RateLimitError,
+    RequestTimeoutError,
+    RequestAbortedError,
+} from '../errors/customErrors';
 import { ExecutionResponse } from '../interface/response/executionResponse';
-import { buildSdkHeaders, VALID_OPERATIONS } from '../headers/headers';
-import { BaseExecutor, ExecutorOptions } from './baseExecutor';
+import { VALID_OPERATIONS } from '../headers/headers';
+import { BaseExecutor, ExecutorConfig, ExecutorOptions } from './baseExecutor';
 import { ChainId } from '../interface/chains';
+import { computeBackoffDelay, resolveRetryPolicy } from './retryPolicy';
+import { assertValidInputs } from '../validators/inputValidator';
 
 /**
  * Blockchain context information required for dynamic action execution.
@@ -17,6 +27,33 @@ export interface BlockchainContext {
     destinationChain?: ChainId;
 }
 
+/**
+ * A single execution of a batch run by `DynamicActionExecutor.executeBatch`.
+ */
+export interface DynamicBatchItem {
+    action: DynamicAction;
+    inputs: Record<string, any>;
+    context: BlockchainContext & { baseUrl: string };
+    options?: ExecutorOptions;
+}
+
+/**
+ * Options for `DynamicActionExecutor.executeBatch`.
+ */
+export interface BatchOptions {
+    /** Maximum number of items executed at the same time. Defaults to 4. */
+    concurrency?: number;
+    /** Times an item answered with HTTP 429 is retried after the batch pauses. Defaults to 3. */
+    rateLimitRetries?: number;
+}
+
+/**
+ * Outcome of one item of a batch, shaped like `Promise.allSettled` results.
+ */
+export type BatchItemResult<T> =
+    | { status: 'fulfilled'; value: T }
+    | { status: 'rejected'; reason: Error };
+
 /**
  * Specialized executor for dynamic blockchain actions.
  *
@@ -35,6 +72,8 @@ export interface BlockchainContext {
  *
  * This executor communicates with mini apps through the Sherry proxy to ensure
  * security, rate limiting, and proper request formatting.
+ * In direct mode (`mode: 'direct'`) it calls mini apps itself and sends the
+ * blockchain context headers the proxy would add.
  *
  * @extends BaseExecutor
  *
@@ -88,9 +127,13 @@ export class DynamicActionExecutor extends BaseExecutor {
      * @returns Promise resolving to the raw transaction response from the mini app
      *
      * @throws {ActionValidationError} When action definition is invalid
-     * @throws {ActionValidationError} When required parameters are missing
+     * @throws {InputValidationError} When an input does not match its parameter definition
      * @throws {ActionValidationError} When the response format is invalid
-     * @throws {Error} When the request fails or times out
+     * @throws {RequestTimeoutError} When the request exceeds `options.timeout`
+     * @throws {RequestAbortedError} When `options.signal` aborts the request
+     * @throws {RateLimitError} When the request is rate limited
+     * @throws {HttpRequestError} When the mini app responds with an error status
+     * @throws {NetworkError} When no response could be obtained
      *
      * @example
      * ```typescript
@@ -130,12 +173,24 @@ export class DynamicActionExecutor extends BaseExecutor {
         try {
             this.validateAction(action);
             this.validateContext(context);
-            this.validateInputs(action, inputs);
+            assertValidInputs(action.params ?? [], inputs);
 
             const fullUrl = this.buildFullUrl(action, inputs, context);
             const finalClientKey = options?.clientKey || this.clientKey;
 
-            const headers = buildSdkHeaders(fullUrl, VALID_OPERATIONS.EXECUTE, finalClientKey);
+            const headers = this.buildRequestHeaders(
+                fullUrl,
+                VALID_OPERATIONS.EXECUTE,
+                finalClientKey,
+                {
+                    chainId: String(context.sourceChain),
+                    destinationChain:
+                        context.destinationChain !== undefined
+                            ? String(context.destinationChain)
+                            : undefined,
+                    walletAddress: context.userAddress,
+                },
+            );
 
             if (options?.customHeaders) {
                 Object.assign(headers, options.customHeaders);
@@ -147,10 +202,13 @@ export class DynamicActionExecutor extends BaseExecutor {
                 delete headers['Content-Type'];
             }
 
-            const response = await this.makeRequest('/proxy', {
+            const response = await this.makeRequest(this.getRequestEndpoint(fullUrl), {
                 method: 'POST',
                 headers,
                 body,
+                retry: options?.retry,
+                timeout: options?.timeout,
+                signal: options?.signal,
             });
 
             if (!this.isValidTransactionResponse(response)) {
@@ -159,12 +217,48 @@ export class DynamicActionExecutor extends BaseExecutor {
 
             return response;
         } catch (error) {
-            if (error instanceof ActionValidationError) {
+            if (
+                error instanceof ActionValidationError ||
+                error instanceof RequestTimeoutError ||
+                error instanceof RequestAbortedError
+            ) {
                 throw error;
             }
 
             const message = error instanceof Error ? error.message : 'Unknown error';
-            throw new ActionValidationError(`Error executing action '${action.label}': ${message}`);
+            const prefixedMessage = `Error executing action '${action.label}': ${message}`;
+
+            if (error instanceof RateLimitError) {
+                throw new RateLimitError(
+                    prefixedMessage,
+                    {
+                        retryAfterMs: error.retryAfterMs,
+                        resetAt: error.resetAt,
+                        limit: error.limit,
+                        remaining: error.remaining,
+                    },
+                    { cause: error },
+                );
+            }
+
+            if (error instanceof HttpRequestError) {
+                throw new HttpRequestError(prefixedMessage, error.status, error.retryAfterMs, {
+                    cause: error,
+                });
+            }
+
+            if (error instanceof NetworkError) {
+                throw new NetworkError(prefixedMessage, { cause: error });
+            }
+
+            if (error instanceof InvalidResponseError) {
+                throw new InvalidResponseError(prefixedMessage, {
+                    status: error.status,
+                    cause: error,
+                });
+            }
+
+            throw new ActionValidationError(prefixedMessage, { cause: error });
         }
     }
 
@@ -220,6 +314,102 @@ export class DynamicActionExecutor extends BaseExecutor {
         return response as ExecutionResponse;
     }
 
+    /**
+     * Executes several dynamic actions with bounded concurrency.
+     *
+     * Every item is run with `execute`, and its outcome is returned in input order
+     * without throwing: failed items are `rejected` with the same typed error
+     * `execute` would throw. Rate limiting is shared by the whole batch: when an
+     * item is answered with HTTP 429, no new request starts until its
+     * `Retry-After` delay (or an exponential backoff) has passed, and the item
+     * is queued again.
+     *
+     * @param items - The actions to execute with their inputs, context and options
+     * @param options - Concurrency and rate-limit retries
+     *
+     * @returns Promise resolving to one result per item, in input order
+     *
+     * @example
+     * ```typescript
+     * const results = await executor.executeBatch(
+     *   recipients.map(recipient => ({
+     *     action: airdropAction,
+     *     inputs: { recipient },
+     *     context: { userAddress, sourceChain: 43114, baseUrl: 'https://app.com' },
+     *   })),
+     *   { concurrency: 2 },
+     * );
+     *
+     * results.forEach((result, index) => {
+     *   if (result.status === 'rejected') {
+     *     console.error(`Item ${index} failed:`, result.reason.message);
+     *   }
+     * });
+     * ```
+     */
+    async executeBatch(
+        items: DynamicBatchItem[],
+        options: BatchOptions = {},
+    ): Promise<BatchItemResult<ExecutionResponse>[]> {
+        const concurrency = Math.max(1, Math.floor(options.concurrency ?? 4));
+        const rateLimitRetries = options.rateLimitRetries ?? 3;
+
+        const results: BatchItemResult<ExecutionResponse>[] = [];
+        let nextIndex = 0;
+        let pausedUntil = 0;
+        let rateLimitedCount = 0;
+
+        const runItem = async (item: DynamicBatchItem): Promise<ExecutionResponse> => {
+            for (let attempt = 0; ; attempt++) {
+                const pause = pausedUntil - Date.now();
+                if (pause > 0) {
+                    await this.wait(pause, item.options?.signal);
+                }
+
+                try {
+                    return await this.execute(item.action, item.inputs, item.context, item.options);
+                } catch (error) {
+                    if (
+                        !(error instanceof HttpRequestError) ||
+                        error.status !== 429 ||
+                        attempt >= rateLimitRetries
+                    ) {
+                        throw error;
+                    }
+
+                    rateLimitedCount++;
+                    const delay =
+                        error.retryAfterMs ??
+                        computeBackoffDelay(
+                            rateLimitedCount,
+                            resolveRetryPolicy(item.options?.retry),
+                        );
+                    pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+                }
+            }
+        };
+
+        const worker = async (): Promise<void> => {
+            while (nextIndex < items.length) {
+                const index = nextIndex++;
+                try {
+                    results[index] = { status: 'fulfilled', value: await runItem(items[index]) };
+                } catch (error) {
+                    results[index] = {
+                        status: 'rejected',
+                        reason: error instanceof Error ? error : new Error(String(error)),
+                    };
+                }
+            }
+        };
+
+        await Promise.all(
+            Array.from({ length: Math.min(concurrency, items.length) }, () => worker()),
+        );
+
+        return results;
+    }
+
     private buildFullUrl(
         action: DynamicAction,
         inputs: Record<string, any>,
@@ -393,16 +583,6 @@ export class DynamicActionExecutor extends BaseExecutor {
         }
     }
 
-    private validateInputs(action: DynamicAction, inputs: Record<string, any>): void {
-        action.params?.forEach(param => {
-            const value = inputs[param.name];
-
-            if (param.required && (value === undefined || value === null || value === '')) {
-                throw new ActionValidationError(`Required parameter '${param.name}' is missing`);
-            }
-        });
-    }
-
     private isValidTransactionResponse(data: any): boolean {
         return (
             data &&
@@ -470,3 +650,31 @@ export function createDynamicExecutor(clientKey?: string): DynamicActionExecutor
 export function createAnonymousExecutor(): DynamicActionExecutor {
     return new DynamicActionExecutor();
 }
+
+/**
+ * Creates a DynamicActionExecutor that calls mini apps directly, without the
+ * Sherry proxy.
+ *
+ * Requests carry the same blockchain context headers the proxy would add
+ * (`X-Chain-ID`, `X-Wallet-Address`, `X-Timestamp`, ...), so mini app backends
+ * behave exactly as they do behind the proxy. In browsers, the mini app must
+ * allow cross-origin requests.
+ *
+ * @param config - Optional executor configuration
+ * @returns A new DynamicActionExecutor instance in direct mode
+ *
+ * @example
+ * ```typescript
+ * const executor = createDirectExecutor();
+ * const result = await executor.executeForTransaction(action, inputs, {
+ *   userAddress: '0x742d35Cc6634C0532925a3b8D4ccd306f6F4B26C',
+ *   sourceChain: 43114,
+ *   baseUrl: 'http://localhost:3000',
+ * });
+ * ```
+ */
+export function createDirectExecutor(
+    config: Omit<ExecutorConfig, 'mode'> = {},
+): DynamicActionExecutor {
+    return new DynamicActionExecutor(undefined, undefined, { ...config, mode: 'direct' });
+}
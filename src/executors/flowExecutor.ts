@@ -5,7 +5,18 @@ import {
     NestedAction,
     ActionCondition,
     CompletionAction,
+    NestedHtmlAction,
+    NextActionDefinition,
 } from '../interface/actions/flowAction';
+import { FlowActionHandler, FlowActionHandlers, createFlowHandlers } from './flowHandlers';
+import {
+    FLOW_SNAPSHOT_VERSION,
+    FlowExecutorSnapshot,
+    hashFlow,
+    toSnapshotValue,
+    fromSnapshotValue,
+} from './flowSnapshot';
+import { FlowSnapshotError, FlowNavigationError } from '../errors/customErrors';
 
 /**
  * Contexto de ejecución para un flujo.
@@ -26,9 +37,56 @@ export interface ActionResult {
     nextActionId?: string; // ID de la siguiente acción a ejecutar
 }
 
+/**
+ * Estado guardado al llegar a un paso, usado por `goBack()` para deshacerlo.
+ */
+export interface FlowCheckpoint {
+    actionId: string; // Paso al que corresponde
+    context: ActionContext; // Contexto antes de ejecutar el paso
+    historyLength: number; // Longitud del historial antes de ejecutar el paso
+    irreversible?: boolean; // El paso se completó y no se puede deshacer
+}
+
+/**
+ * Eventos emitidos por el FlowExecutor y el payload de cada uno.
+ */
+export interface FlowExecutorEvents {
+    /** Una acción empieza a ejecutarse */
+    stepStarted: { actionId: string; action: NestedAction };
+    /** Una acción terminó con éxito */
+    stepCompleted: { actionId: string; result: ActionResult };
+    /** Una acción falló */
+    stepFailed: { actionId: string; result: ActionResult; error: string };
+    /** Una acción necesita datos del usuario (p. ej. una decisión) */
+    waitingForInput: { actionId: string; result: ActionResult };
+    /** Se eligió el siguiente paso; incluye las condiciones o la opción que lo determinaron */
+    branchTaken: {
+        fromActionId: string;
+        toActionId: string;
+        conditions?: ActionCondition[];
+        choice?: string;
+    };
+    /** El flujo ha terminado */
+    flowCompleted: { lastActionId: string; history: ActionResult[]; context: ActionContext };
+    /** Se volvió a un paso anterior con `goBack()` */
+    steppedBack: { fromActionId: string | null; toActionId: string };
+    /** Un listener lanzó un error; los errores de los listeners de este evento se ignoran */
+    listenerError: { event: FlowExecutorEventName; error: unknown };
+}
+
+export type FlowExecutorEventName = keyof FlowExecutorEvents;
+
+export type FlowExecutorListener<E extends FlowExecutorEventName> = (
+    payload: FlowExecutorEvents[E],
+) => void;
+
 /**
  * Clase para ejecutar flujos de acciones anidadas.
  * Maneja la navegación, ejecución condicional y mantenimiento del contexto.
+ *
+ * La ejecución real de cada paso se delega en un registro de handlers
+ * (uno por tipo de acción). Por defecto se usa `createFlowHandlers()`;
+ * para tests o previsualizaciones puede inyectarse `createDryRunFlowHandlers()`.
  */
 export class FlowExecutor {
     private context: ActionContext;
@@ -36,18 +94,72 @@ export class FlowExecutor {
     private currentActionId: string | null;
     private history: ActionResult[];
     private completed: boolean;
+    private handlers: FlowActionHandlers;
+    private listeners = new Map<FlowExecutorEventName, Set<(payload: any) => void>>();
+    private checkpoints: FlowCheckpoint[];
+    private lastAttempt?: { actionId: string; context: ActionContext; actionData?: any };
 
     /**
      * Crea un nuevo ejecutor de flujo.
      * @param flow Flujo a ejecutar
      * @param initialContext Contexto inicial opcional
+     * @param handlers Registro de handlers por tipo de acción
      */
-    constructor(flow: ActionFlow, initialContext: ActionContext = {}) {
+    constructor(
+        flow: ActionFlow,
+        initialContext: ActionContext = {},
+        handlers: FlowActionHandlers = createFlowHandlers(),
+    ) {
         this.flow = flow;
         this.context = { ...initialContext };
         this.currentActionId = flow.initialActionId;
         this.history = [];
         this.completed = false;
+        this.handlers = handlers;
+        this.checkpoints = [
+            { actionId: flow.initialActionId, context: { ...this.context }, historyLength: 0 },
+        ];
+    }
+
+    /**
+     * Suscribe un listener a un evento del flujo.
+     * @param event Nombre del evento
+     * @param listener Función a invocar con el payload del evento
+     * @returns Función para cancelar la suscripción
+     */
+    on<E extends FlowExecutorEventName>(event: E, listener: FlowExecutorListener<E>): () => void {
+        if (!this.listeners.has(event)) {
+            this.listeners.set(event, new Set());
+        }
+        this.listeners.get(event)!.add(listener);
+        return () => this.off(event, listener);
+    }
+
+    /**
+     * Cancela la suscripción de un listener.
+     * @param event Nombre del evento
+     * @param listener Listener registrado previamente con `on()`
+     */
+    off<E extends FlowExecutorEventName>(event: E, listener: FlowExecutorListener<E>): void {
+        this.listeners.get(event)?.delete(listener);
+    }
+
+    /**
+     * Notifica un evento a sus listeners. Un error en un listener no interrumpe el flujo:
+     * se notifica con el evento `listenerError`.
+     * @param event Nombre del evento
+     * @param payload Datos del evento
+     */
+    private emit<E extends FlowExecutorEventName>(event: E, payload: FlowExecutorEvents[E]): void {
+        this.listeners.get(event)?.forEach(listener => {
+            try {
+                listener(payload);
+            } catch (error) {
+                if (event !== 'listenerError') {
+                    this.emit('listenerError', { event, error });
+                }
+            }
+        });
     }
 
     /**
@@ -83,6 +195,71 @@ export class FlowExecutor {
         return [...this.history];
     }
 
+    /**
+     * Genera una instantánea serializable (JSON) del estado del flujo,
+     * para poder retomarlo más tarde, incluso en otro dispositivo.
+     * @returns Instantánea versionada del estado actual
+     */
+    snapshot(): FlowExecutorSnapshot {
+        return {
+            version: FLOW_SNAPSHOT_VERSION,
+            flowHash: hashFlow(this.flow),
+            currentActionId: this.currentActionId,
+            completed: this.completed,
+            context: toSnapshotValue(this.context),
+            history: toSnapshotValue(this.history),
+            checkpoints: toSnapshotValue(this.checkpoints),
+        };
+    }
+
+    /**
+     * Reconstruye un ejecutor a partir de una instantánea.
+     * @param flow Definición del flujo (debe coincidir con la de la instantánea)
+     * @param snapshot Instantánea generada con `snapshot()`
+     * @param handlers Registro de handlers por tipo de acción
+     * @returns Ejecutor en el mismo estado que cuando se tomó la instantánea
+     * @throws FlowSnapshotError si la instantánea es inválida o no corresponde al flujo
+     */
+    static restore(
+        flow: ActionFlow,
+        snapshot: FlowExecutorSnapshot,
+        handlers?: FlowActionHandlers,
+    ): FlowExecutor {
+        if (!snapshot || typeof snapshot !== 'object') {
+            throw new FlowSnapshotError('Snapshot must be an object');
+        }
+
+        if (snapshot.version !== FLOW_SNAPSHOT_VERSION) {
+            throw new FlowSnapshotError(
+                `Unsupported snapshot version: ${snapshot.version} (expected ${FLOW_SNAPSHOT_VERSION})`,
+            );
+        }
+
+        if (snapshot.flowHash !== hashFlow(flow)) {
+            throw new FlowSnapshotError(
+                'Snapshot is stale: the flow definition has changed since it was taken',
+            );
+        }
+
+        if (
+            snapshot.currentActionId !== null &&
+            !flow.actions.some(action => action.id === snapshot.currentActionId)
+        ) {
+            throw new FlowSnapshotError(
+                `Snapshot references unknown action '${snapshot.currentActionId}'`,
+            );
+        }
+
+        const executor = new FlowExecutor(flow, {}, handlers);
+        executor.context = fromSnapshotValue(snapshot.context ?? {});
+        executor.history = fromSnapshotValue(snapshot.history ?? []);
+        executor.currentActionId = snapshot.currentActionId;
+        executor.completed = snapshot.completed === true;
+        executor.checkpoints = fromSnapshotValue(snapshot.checkpoints ?? []);
+
+        return executor;
+    }
+
     /**
      * Ejecuta la acción actual y avanza a la siguiente.
      * @param actionData Datos proporcionados para la acción actual
@@ -106,6 +283,13 @@ export class FlowExecutor {
             };
         }
 
+        // Guardar el estado previo para poder reintentar el paso si falla
+        this.lastAttempt = {
+            actionId: currentAction.id,
+            context: { ...this.context },
+            actionData,
+        };
+
         try {
             // Actualizar el contexto con los datos proporcionados
             if (actionData) {
@@ -115,22 +299,54 @@ export class FlowExecutor {
                 };
             }
 
+            this.emit('stepStarted', { actionId: currentAction.id, action: currentAction });
+
             // Ejecutar la acción según su tipo
             let result: ActionResult;
 
             switch (currentAction.type) {
                 case 'blockchain':
-                    result = await this.executeBlockchainAction(currentAction, actionData);
+                    result = await this.executeWithHandler(
+                        currentAction,
+                        this.handlers.blockchain,
+                        actionData,
+                    );
                     break;
                 case 'transfer':
-                    result = await this.executeTransferAction(currentAction, actionData);
+                    result = await this.executeWithHandler(
+                        currentAction,
+                        this.handlers.transfer,
+                        actionData,
+                    );
                     break;
                 case 'http':
-                    result = await this.executeHttpAction(currentAction, actionData);
+                    result = await this.executeWithHandler(
+                        currentAction,
+                        this.handlers.http,
+                        actionData,
+                    );
+                    break;
+                case 'dynamic':
+                    result = await this.executeWithHandler(
+                        currentAction,
+                        this.handlers.dynamic,
+                        actionData,
+                    );
+
+                    // Guardar la respuesta para condiciones posteriores
+                    if (result.status === 'success') {
+                        this.context.executionResponses = {
+                            ...this.context.executionResponses,
+                            [currentAction.id]: result.data,
+                        };
+                    }
                     break;
                 case 'decision':
                     result = this.executeDecisionAction(currentAction, actionData);
                     break;
+                case 'html':
+                    result = this.executeHtmlAction(currentAction);
+                    break;
                 case 'completion':
                     result = this.executeCompletionAction(currentAction as CompletionAction);
                     break;
@@ -148,13 +364,30 @@ export class FlowExecutor {
 
             // Añadir al historial
             this.history.push(result);
+            this.emitStepResult(result);
+
+            if (result.status === 'success' && currentAction.irreversible) {
+                this.markCheckpointIrreversible(currentAction.id);
+            }
 
             // Determinar la siguiente acción (si hay)
             if (result.status === 'success' && currentAction.type !== 'completion') {
-                const nextActionId = this.determineNextAction(currentAction);
-                if (nextActionId) {
-                    this.currentActionId = nextActionId;
-                    result.nextActionId = nextActionId;
+                const next = this.determineNextAction(currentAction);
+                if (next) {
+                    this.currentActionId = next.actionId;
+                    result.nextActionId = next.actionId;
+                    this.checkpoints.push({
+                        actionId: next.actionId,
+                        context: { ...this.context },
+                        historyLength: this.history.length,
+                    });
+                    this.emit('branchTaken', {
+                        fromActionId: currentAction.id,
+                        toActionId: next.actionId,
+                        conditions: next.conditions,
+                        choice:
+                            currentAction.type === 'decision' ? this.context.userChoice : undefined,
+                    });
                 } else {
                     this.completed = true;
                 }
@@ -162,6 +395,14 @@ export class FlowExecutor {
                 this.completed = true;
             }
 
+            if (this.completed) {
+                this.emit('flowCompleted', {
+                    lastActionId: currentAction.id,
+                    history: this.getHistory(),
+                    context: this.getContext(),
+                });
+            }
+
             return result;
         } catch (error) {
             const errorResult: ActionResult = {
@@ -177,17 +418,144 @@ export class FlowExecutor {
 
             // Añadir al historial
             this.history.push(errorResult);
+            this.emitStepResult(errorResult);
 
             return errorResult;
         }
     }
 
+    /**
+     * Vuelve al paso anterior, restaurando el contexto y el historial tal como
+     * estaban antes de ejecutarlo. Si el flujo terminó, vuelve al último paso ejecutado.
+     * @returns La acción a la que se ha vuelto
+     * @throws FlowNavigationError si no hay paso anterior o si habría que deshacer un paso irreversible
+     */
+    goBack(): NestedAction {
+        const index = this.getBackTargetIndex();
+        if (index < 0) {
+            throw new FlowNavigationError('There is no previous step to go back to');
+        }
+
+        const irreversible = this.checkpoints
+            .slice(index)
+            .find(checkpoint => checkpoint.irreversible);
+        if (irreversible) {
+            throw new FlowNavigationError(
+                `Cannot go back past irreversible step '${irreversible.actionId}'`,
+            );
+        }
+
+        const target = this.checkpoints[index];
+        const fromActionId = this.currentActionId;
+
+        this.checkpoints = this.checkpoints.slice(0, index + 1);
+        this.context = { ...target.context };
+        this.history = this.history.slice(0, target.historyLength);
+        this.currentActionId = target.actionId;
+        this.completed = false;
+        this.lastAttempt = undefined;
+
+        this.emit('steppedBack', { fromActionId, toActionId: target.actionId });
+
+        return this.getCurrentAction()!;
+    }
+
+    /**
+     * Verifica si se puede volver al paso anterior con `goBack()`.
+     * @returns true si hay un paso anterior y no es irreversible
+     */
+    canGoBack(): boolean {
+        const index = this.getBackTargetIndex();
+        return (
+            index >= 0 && !this.checkpoints.slice(index).some(checkpoint => checkpoint.irreversible)
+        );
+    }
+
+    /**
+     * Vuelve a ejecutar el paso actual si su último intento falló.
+     * El intento fallido se elimina del historial y el contexto vuelve al estado previo.
+     * @param actionData Datos para el nuevo intento (por defecto, los del intento fallido)
+     * @returns Resultado de la ejecución
+     */
+    async retryCurrent(actionData?: any): Promise<ActionResult> {
+        const lastResult = this.history[this.history.length - 1];
+
+        if (
+            this.completed ||
+            !lastResult ||
+            lastResult.actionId !== this.currentActionId ||
+            lastResult.status !== 'error'
+        ) {
+            return {
+                actionId: this.currentActionId ?? 'none',
+                status: 'error',
+                error: 'The current action has not failed, there is nothing to retry',
+            };
+        }
+
+        const attempt =
+            this.lastAttempt?.actionId === this.currentActionId ? this.lastAttempt : undefined;
+        const checkpoint = this.checkpoints[this.checkpoints.length - 1];
+
+        this.history.pop();
+        this.context = { ...(attempt?.context ?? checkpoint?.context ?? this.context) };
+
+        return this.executeCurrentAction(actionData ?? attempt?.actionData);
+    }
+
+    /**
+     * Obtiene el índice del checkpoint al que volvería `goBack()`.
+     * El paso actual solo se deshace si el flujo terminó en él; una acción de
+     * completion se trata como una pantalla final y se salta.
+     * @returns Índice del checkpoint o -1 si no hay paso anterior
+     */
+    private getBackTargetIndex(): number {
+        const last = this.checkpoints.length - 1;
+        const currentAction = this.getCurrentAction();
+        const currentExecuted = this.completed && currentAction?.type !== 'completion';
+
+        return currentExecuted ? last : last - 1;
+    }
+
+    /**
+     * Marca como irreversible el checkpoint del paso indicado.
+     * @param actionId ID del paso completado
+     */
+    private markCheckpointIrreversible(actionId: string): void {
+        const checkpoint = this.checkpoints[this.checkpoints.length - 1];
+        if (checkpoint?.actionId === actionId) {
+            checkpoint.irreversible = true;
+        }
+    }
+
+    /**
+     * Emite el evento correspondiente al estado del resultado de un paso.
+     * @param result Resultado de la acción ejecutada
+     */
+    private emitStepResult(result: ActionResult): void {
+        switch (result.status) {
+            case 'success':
+                this.emit('stepCompleted', { actionId: result.actionId, result });
+                break;
+            case 'waiting':
+                this.emit('waitingForInput', { actionId: result.actionId, result });
+                break;
+            case 'error':
+                this.emit('stepFailed', {
+                    actionId: result.actionId,
+                    result,
+                    error: result.error ?? 'Unknown error',
+                });
+                break;
+        }
+    }
+
     /**
      * Determina la siguiente acción basada en las condiciones y el contexto.
      * @param action Acción actual
-     * @returns ID de la siguiente acción o null si no hay
+     * @returns Definición de la siguiente acción (con las condiciones que se cumplieron) o null si no hay
      */
-    private determineNextAction(action: NestedAction): string | null {
+    private determineNextAction(action: NestedAction): NextActionDefinition | null {
         // Si es una acción de decisión, necesitamos la decisión del usuario
         if (action.type === 'decision') {
             // La decisión del usuario debe proporcionarse en executeCurrentAction
@@ -199,7 +567,7 @@ export class FlowExecutor {
 
             const selectedOption = action.options.find(opt => opt.value === userChoice);
             if (selectedOption) {
-                return selectedOption.nextActionId;
+                return { actionId: selectedOption.nextActionId };
             }
             return null;
         }
@@ -212,14 +580,14 @@ export class FlowExecutor {
         // Buscar la primera acción siguiente que cumpla todas sus condiciones
         for (const nextAction of action.nextActions) {
             if (!nextAction.conditions || this.evaluateConditions(nextAction.conditions)) {
-                return nextAction.actionId;
+                return nextAction;
             }
         }
 
         // Si ninguna acción cumple las condiciones, tomar la primera sin condiciones
         const defaultNext = action.nextActions.find(next => !next.conditions);
         if (defaultNext) {
-            return defaultNext.actionId;
+            return defaultNext;
         }
 
         return null;
@@ -291,6 +659,8 @@ export class FlowExecutor {
 
     /**
      * Reemplaza placeholders en valores con datos del contexto.
+     * Si el valor es exactamente un placeholder se devuelve el valor original del
+     * contexto (sin convertirlo a string).
      * @param value Valor que puede contener placeholders
      * @returns Valor con placeholders reemplazados
      */
@@ -299,6 +669,12 @@ export class FlowExecutor {
             return value;
         }
 
+        const exactMatch = value.match(/^\{\{([^}]+)\}\}$/);
+        if (exactMatch) {
+            const contextValue = this.getFieldValue(exactMatch[1]);
+            return contextValue !== undefined ? contextValue : value;
+        }
+
         // Reemplazar placeholders con formato {{variable}}
         return value.replace(/\{\{([^}]+)\}\}/g, (match, key) => {
             const contextValue = this.getFieldValue(key);
@@ -307,120 +683,58 @@ export class FlowExecutor {
     }
 
     /**
-     * Ejecuta una acción de tipo blockchain.
-     * @param action Acción blockchain a ejecutar
-     * @param actionData Datos adicionales proporcionados
-     * @returns Resultado de la ejecución
+     * Reemplaza recursivamente los placeholders de una acción (strings, arrays y
+     * objetos planos). El ABI se deja intacto.
+     * @param value Acción o valor a procesar
+     * @returns Copia con los placeholders reemplazados
      */
-    private async executeBlockchainAction(
-        action: NestedAction,
-        actionData?: any,
-    ): Promise<ActionResult> {
-        if (action.type !== 'blockchain') {
-            return {
-                actionId: action.id,
-                status: 'error',
-                error: 'Invalid action type',
-            };
+    private resolvePlaceholders<T>(value: T): T {
+        if (Array.isArray(value)) {
+            return value.map(item => this.resolvePlaceholders(item)) as T;
         }
 
-        // Procesar parámetros reemplazando placeholders
-        // Using params instead of paramsValue since it was removed
-        const processedParams = action.params
-            ? action.params.map(param => this.replaceContextValues(param))
-            : actionData?.params
-              ? actionData.params
-              : [];
-
-        // En una implementación real, aquí realizarías la llamada a la blockchain
-        // Por ahora, simular una respuesta exitosa
-        console.log(
-            `[Blockchain] Executing ${action.functionName} on ${action.address} with params:`,
-            processedParams,
-        );
-
-        // Simulación de llamada a la blockchain
-        await new Promise(resolve => setTimeout(resolve, 1000));
+        if (
+            value &&
+            typeof value === 'object' &&
+            Object.getPrototypeOf(value) === Object.prototype
+        ) {
+            const resolved: Record<string, any> = {};
+            for (const [key, item] of Object.entries(value)) {
+                resolved[key] = key === 'abi' ? item : this.resolvePlaceholders(item);
+            }
+            return resolved as T;
+        }
 
-        return {
-            actionId: action.id,
-            status: 'success',
-            data: {
-                txHash: '0x' + Math.random().toString(16).substring(2, 10),
-                params: processedParams,
-            },
-        };
+        return this.replaceContextValues(value);
     }
 
     /**
-     * Ejecuta una acción de tipo transferencia.
-     * @param action Acción de transferencia a ejecutar
+     * Ejecuta una acción delegando en el handler registrado para su tipo.
+     * @param action Acción a ejecutar
+     * @param handler Handler registrado para el tipo de la acción
      * @param actionData Datos adicionales proporcionados
      * @returns Resultado de la ejecución
      */
-    private async executeTransferAction(
-        action: NestedAction,
-        _actionData?: any,
+    private async executeWithHandler<T extends NestedAction>(
+        action: T,
+        handler: FlowActionHandler<T> | undefined,
+        actionData?: any,
     ): Promise<ActionResult> {
-        if (action.type !== 'transfer') {
+        if (!handler) {
             return {
                 actionId: action.id,
                 status: 'error',
-                error: 'Invalid action type',
+                error: `No handler registered for action type '${action.type}'`,
             };
         }
 
-        // Procesar dirección reemplazando placeholders
-        const to = action.to ? this.replaceContextValues(action.to) : undefined;
-
-        // En una implementación real, aquí realizarías la transferencia
-        console.log(
-            `[Transfer] Sending ${action.amount} to ${to} on chain ${action.chains.source}`,
-        );
-
-        // Simulación de transferencia
-        await new Promise(resolve => setTimeout(resolve, 1000));
+        const resolvedAction = this.resolvePlaceholders(action);
+        const data = await handler(resolvedAction, actionData, this.getContext());
 
         return {
             actionId: action.id,
             status: 'success',
-            data: {
-                txHash: '0x' + Math.random().toString(16).substring(2, 10),
-                to: to,
-                amount: action.amount,
-            },
-        };
-    }
-
-    /**
-     * Ejecuta una acción de tipo HTTP.
-     * @param action Acción HTTP a ejecutar
-     * @param actionData Datos proporcionados (típicamente datos de formulario)
-     * @returns Resultado de la ejecución
-     */
-    private async executeHttpAction(action: NestedAction, actionData?: any): Promise<ActionResult> {
-        if (action.type !== 'http') {
-            return {
-                actionId: action.id,
-                status: 'error',
-                error: 'Invalid action type',
-            };
-        }
-
-        // En una implementación real, aquí realizarías la petición HTTP con los datos del formulario
-        console.log(`[HTTP] Calling ${action.path} with data:`, actionData);
-
-        // Simulación de petición HTTP
-        await new Promise(resolve => setTimeout(resolve, 800));
-
-        return {
-            actionId: action.id,
-            status: 'success',
-            data: {
-                ...actionData,
-                responseId: Math.floor(Math.random() * 1000),
-                timestamp: new Date().toISOString(),
-            },
+            data,
         };
     }
 
@@ -479,6 +793,25 @@ export class FlowExecutor {
         };
     }
 
+    /**
+     * Ejecuta una acción de tipo HTML.
+     * La página la muestra el cliente; el resultado indica cómo mostrarla.
+     * @param action Acción HTML
+     * @returns Resultado de la ejecución
+     */
+    private executeHtmlAction(action: NestedHtmlAction): ActionResult {
+        return {
+            actionId: action.id,
+            status: 'success',
+            data: {
+                url: action.url,
+                width: action.width,
+                height: action.height,
+                fullscreen: action.fullscreen ?? false,
+            },
+        };
+    }
+
     /**
      * Ejecuta una acción de tipo finalización.
      * @param action Acción de finalización
@@ -0,0 +1,296 @@
+import { decodeFunctionData } from 'viem';
+import {
+    NestedBlockchainAction,
+    NestedTransferAction,
+    NestedHttpAction,
+    NestedDynamicAction,
+} from '../interface/actions/flowAction';
+import { ExecutionResponse } from '../interface/response/executionResponse';
+import { ActionValidationError } from '../errors/customErrors';
+import { ActionContext } from './flowExecutor';
+import { DynamicActionExecutor, createAnonymousExecutor } from './dynamicExecutor';
+import { HttpActionExecutor, createHttpActionExecutor } from './httpActionExecutor';
+import {
+    TransactionRequest,
+    buildBlockchainTransaction,
+    buildTransferTransaction,
+} from './transactionBuilder';
+import { BlockchainActionValidator } from '../validators/blockchainActionValidator';
+import { assertValidInputs } from '../validators/inputValidator';
+
+/**
+ * Unsigned transaction request produced by the blockchain and transfer handlers.
+ * Compatible with viem's `sendTransaction` / wagmi's `useSendTransaction`.
+ */
+export type FlowTransactionRequest = TransactionRequest;
+
+/**
+ * Handler invoked by the FlowExecutor to run a single nested action.
+ *
+ * The action received has its `{{placeholders}}` already resolved against the
+ * flow context. Whatever the handler returns is stored as the `data` of the
+ * step's ActionResult; throwing marks the step as failed.
+ *
+ * @param action - The nested action to execute
+ * @param actionData - Data provided by the caller for this step (form values, etc.)
+ * @param context - Read-only copy of the current flow context
+ */
+export type FlowActionHandler<T> = (
+    action: T,
+    actionData: Record<string, any> | undefined,
+    context: ActionContext,
+) => Promise<any>;
+
+/**
+ * Registry with one handler per executable NestedAction type.
+ *
+ * Decision and completion steps are resolved by the FlowExecutor itself and
+ * therefore have no handler.
+ */
+export interface FlowActionHandlers {
+    blockchain?: FlowActionHandler<NestedBlockchainAction>;
+    transfer?: FlowActionHandler<NestedTransferAction>;
+    http?: FlowActionHandler<NestedHttpAction>;
+    dynamic?: FlowActionHandler<NestedDynamicAction>;
+}
+
+/**
+ * Builds the transaction request for a nested blockchain action with
+ * `buildBlockchainTransaction`.
+ *
+ * Parameter values are taken from `actionData[param.name]` first and fall back
+ * to the value configured in the action (always used for `fixed` parameters),
+ * are validated against the parameter definitions and coerced to their ABI
+ * types. The `'sender'` magic value is replaced by `context.userAddress`, and
+ * only payable functions send the action's `amount` as `value`.
+ */
+const blockchainHandler: FlowActionHandler<NestedBlockchainAction> = async (
+    action,
+    actionData,
+    context,
+) => {
+    if (action.params) {
+        assertValidInputs(action.params, actionData ?? {});
+    }
+
+    const validatedAction = BlockchainActionValidator.validateBlockchainAction({
+        ...action,
+        type: 'blockchain',
+    });
+    const transaction: FlowTransactionRequest = buildBlockchainTransaction(
+        validatedAction,
+        actionData,
+        { userAddress: context.userAddress },
+    );
+    const { args } = decodeFunctionData({ abi: action.abi, data: transaction.data! });
+
+    return { transaction, params: args ?? [] };
+};
+
+/**
+ * Builds the transaction request for a nested transfer action.
+ *
+ * The recipient and amount may come from `actionData` when the action does not
+ * fix them. ERC-20 transfers (when `token` is set) require
+ * `actionData.tokenDecimals`, since the token's decimals cannot be known
+ * without querying the chain.
+ */
+const transferHandler: FlowActionHandler<NestedTransferAction> = async (action, actionData) => {
+    const transaction: FlowTransactionRequest = buildTransferTransaction(action, actionData, {
+        tokenDecimals: actionData?.tokenDecimals,
+    });
+
+    return {
+        transaction,
+        to: action.to ?? actionData?.to,
+        amount: action.amount ?? actionData?.amount,
+    };
+};
+
+/**
+ * Creates a handler that sends nested http actions through an
+ * HttpActionExecutor, so they use the same proxy, transport, middleware,
+ * retries and rate limits as the executor's own calls.
+ *
+ * The step data is validated against the action's `params` and merged over its
+ * static `body`; `fixed` parameters always send their configured value. The
+ * handler returns the parsed response body, or `{ status }` when the response
+ * has none.
+ *
+ * @param executor - Executor used for the calls (e.g. one created with a client key)
+ * @returns Handler for `http` steps
+ *
+ * @example
+ * ```typescript
+ * const handlers = createFlowHandlers({
+ *   http: createHttpFlowHandler(createHttpActionExecutor('your-client-key')),
+ * });
+ * ```
+ */
+export function createHttpFlowHandler(
+    executor: HttpActionExecutor,
+): FlowActionHandler<NestedHttpAction> {
+    return async (action, actionData) => {
+        const { status, data } = await executor.execute(
+            {
+                type: 'http',
+                label: action.label,
+                path: action.path,
+                method: action.method,
+                headers: action.headers,
+                body: action.body,
+                params: action.params,
+            },
+            actionData ?? {},
+        );
+
+        return data === undefined ? { status } : data;
+    };
+}
+
+/**
+ * Default http handler. The anonymous executor is created on first use so
+ * flows without http steps never instantiate it.
+ */
+let anonymousHttpExecutor: HttpActionExecutor | undefined;
+const httpHandler: FlowActionHandler<NestedHttpAction> = (action, actionData, context) => {
+    anonymousHttpExecutor ??= createHttpActionExecutor();
+    return createHttpFlowHandler(anonymousHttpExecutor)(action, actionData, context);
+};
+
+/**
+ * Creates a handler that executes nested dynamic actions through a
+ * DynamicActionExecutor and returns the resulting ExecutionResponse.
+ *
+ * The blockchain context is taken from the flow context (`userAddress`,
+ * optional `destinationChain` and `baseUrl`); the action's own `baseUrl`
+ * takes precedence over the one in the context. Flows validated with
+ * `createMetadata` carry the metadata `baseUrl` on their dynamic steps, and
+ * flows from `getMetadata` have absolute paths, which need no `baseUrl`.
+ *
+ * @param executor - Executor used for the calls (e.g. one created with a client key)
+ * @returns Handler for `dynamic` steps
+ *
+ * @example
+ * ```typescript
+ * const handlers = createFlowHandlers({
+ *   dynamic: createDynamicFlowHandler(createDynamicExecutor('your-client-key')),
+ * });
+ * ```
+ */
+export function createDynamicFlowHandler(
+    executor: DynamicActionExecutor,
+): FlowActionHandler<NestedDynamicAction> {
+    return async (action, actionData, context) => {
+        const baseUrl =
+            action.baseUrl ??
+            context.baseUrl ??
+            (action.path.startsWith('https://') ? new URL(action.path).origin : undefined);
+
+        if (!context.userAddress) {
+            throw new ActionValidationError(
+                `Dynamic action '${action.id}' requires a userAddress in the flow context`,
+            );
+        }
+
+        return executor.execute(
+            {
+                type: 'dynamic',
+                label: action.label,
+                path: action.path,
+                params: action.params,
+                chains: action.chains,
+            },
+            actionData ?? {},
+            {
+                userAddress: context.userAddress,
+                sourceChain: action.chains.source,
+                destinationChain: action.chains.destination ?? context.destinationChain,
+                baseUrl,
+            },
+        );
+    };
+}
+
+/**
+ * Default dynamic handler. The anonymous executor is created on first use so
+ * flows without dynamic steps never instantiate it.
+ */
+let anonymousExecutor: DynamicActionExecutor | undefined;
+const dynamicHandler: FlowActionHandler<NestedDynamicAction> = (action, actionData, context) => {
+    anonymousExecutor ??= createAnonymousExecutor();
+    return createDynamicFlowHandler(anonymousExecutor)(action, actionData, context);
+};
+
+/**
+ * Creates the default handler set used by the FlowExecutor.
+ *
+ * - `blockchain`: returns an unsigned transaction request for the contract call
+ * - `transfer`: returns an unsigned native or ERC-20 transfer request
+ * - `http`: sends the request through an anonymous HttpActionExecutor and returns
+ *   the parsed response
+ * - `dynamic`: calls the mini app through an anonymous DynamicActionExecutor
+ *
+ * @param overrides - Handlers that replace the defaults for specific types
+ * @returns A complete handler registry
+ *
+ * @example
+ * ```typescript
+ * const executor = new FlowExecutor(flow, { userAddress }, createFlowHandlers({
+ *   http: async (action, data) => myApiClient.post(action.path, data),
+ * }));
+ * ```
+ */
+export function createFlowHandlers(overrides: FlowActionHandlers = {}): FlowActionHandlers {
+    return {
+        blockchain: blockchainHandler,
+        transfer: transferHandler,
+        http: httpHandler,
+        dynamic: dynamicHandler,
+        ...overrides,
+    };
+}
+
+/**
+ * Creates a "dry-run" handler set that simulates every step without touching
+ * the network. Intended for tests, demos and flow previews.
+ *
+ * @param delayMs - Simulated latency for each step (defaults to 0)
+ * @returns A complete handler registry that returns fake results
+ */
+export function createDryRunFlowHandlers(delayMs: number = 0): FlowActionHandlers {
+    const wait = () => new Promise(resolve => setTimeout(resolve, delayMs));
+    const fakeTxHash = () => '0x' + Math.random().toString(16).substring(2, 10);
+
+    return {
+        blockchain: async (action, actionData) => {
+            const params = action.params ?? actionData?.params ?? [];
+            await wait();
+
+            return { txHash: fakeTxHash(), params };
+        },
+        transfer: async action => {
+            await wait();
+
+            return { txHash: fakeTxHash(), to: action.to, amount: action.amount };
+        },
+        http: async (_action, actionData) => {
+            await wait();
+
+            return {
+                ...actionData,
+                responseId: Math.floor(Math.random() * 1000),
+                timestamp: new Date().toISOString(),
+            };
+        },
+        dynamic: async action => {
+            await wait();
+
+            const response: ExecutionResponse = {
+                serializedTransaction: fakeTxHash(),
+                chainId: action.chains.source,
+            };
+            return response;
+        },
+    };
+}
@@ -0,0 +1,117 @@
+import { keccak256, stringToHex } from 'viem';
+import { ActionFlow } from '../interface/actions/flowAction';
+import { ActionContext, ActionResult, FlowCheckpoint } from './flowExecutor';
+
+/**
+ * Current version of the FlowExecutor snapshot format.
+ * Bump it whenever the shape of FlowExecutorSnapshot changes.
+ */
+export const FLOW_SNAPSHOT_VERSION = 1;
+
+/**
+ * Serializable state of a FlowExecutor.
+ *
+ * Every value is JSON-safe: bigints found in the context or history
+ * (e.g. transaction values) are stored as `{ $bigint: '<decimal>' }`.
+ */
+export interface FlowExecutorSnapshot {
+    /** Snapshot format version */
+    version: number;
+    /** Hash of the flow definition the snapshot was taken from */
+    flowHash: string;
+    /** Action the flow was waiting on, null if finished */
+    currentActionId: string | null;
+    /** Whether the flow had already completed */
+    completed: boolean;
+    /** Serialized flow context */
+    context: ActionContext;
+    /** Serialized execution history */
+    history: ActionResult[];
+    /** Serialized back-navigation checkpoints; without them `goBack()` is unavailable */
+    checkpoints?: FlowCheckpoint[];
+}
+
+/**
+ * Serializes a value with object keys sorted, so that two structurally equal
+ * flows always produce the same string.
+ */
+function stableStringify(value: any): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(item => stableStringify(item)).join(',')}]`;
+    }
+
+    if (value && typeof value === 'object') {
+        const entries = Object.keys(value)
+            .filter(key => value[key] !== undefined)
+            .sort()
+            .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+
+    if (typeof value === 'bigint') {
+        return `"${value.toString()}n"`;
+    }
+
+    return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Computes a deterministic hash of a flow definition.
+ *
+ * Used to detect snapshots taken from a flow that has since changed.
+ *
+ * @param flow - The flow definition
+ * @returns keccak256 hash of the canonical JSON representation
+ */
+export function hashFlow(flow: ActionFlow): string {
+    return keccak256(stringToHex(stableStringify(flow)));
+}
+
+/**
+ * Converts a value to a JSON-safe structure, tagging bigints.
+ */
+export function toSnapshotValue(value: any): any {
+    if (typeof value === 'bigint') {
+        return { $bigint: value.toString() };
+    }
+
+    if (Array.isArray(value)) {
+        return value.map(item => toSnapshotValue(item));
+    }
+
+    if (value && typeof value === 'object') {
+        const result: Record<string, any> = {};
+        for (const [key, item] of Object.entries(value)) {
+            if (item !== undefined && typeof item !== 'function') {
+                result[key] = toSnapshotValue(item);
+            }
+        }
+        return result;
+    }
+
+    return value;
+}
+
+/**
+ * Reverts toSnapshotValue, restoring tagged bigints.
+ */
+export function fromSnapshotValue(value: any): any {
+    if (Array.isArray(value)) {
+        return value.map(item => fromSnapshotValue(item));
+    }
+
+    if (value && typeof value === 'object') {
+        const keys = Object.keys(value);
+        if (keys.length === 1 && keys[0] === '$bigint' && typeof value.$bigint === 'string') {
+            return BigInt(value.$bigint);
+        }
+
+        const result: Record<string, any> = {};
+        for (const [key, item] of Object.entries(value)) {
+            result[key] = fromSnapshotValue(item);
+        }
+        return result;
+    }
+
+    return value;
+}
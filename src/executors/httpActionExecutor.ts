@@ -0,0 +1,158 @@
+import { BaseExecutor, ExecutorOptions } from './baseExecutor';
+import { TransportHeaders } from './transport';
+import { HttpAction, HttpParameter } from '../interface/actions/httpAction';
+import { VALID_OPERATIONS } from '../headers/headers';
+import { ActionValidationError } from '../errors/customErrors';
+import { assertValidInputs } from '../validators/inputValidator';
+
+/**
+ * Result of executing an HttpAction.
+ *
+ * @template T - Type of the parsed response body
+ */
+export interface HttpActionResult<T = any> {
+    /** HTTP status code returned by the endpoint */
+    status: number;
+    /** Parsed JSON response body; undefined when the response has no body (e.g. 204) */
+    data: T;
+    /** Response headers */
+    headers: TransportHeaders;
+}
+
+/**
+ * Executor for HttpAction submissions.
+ *
+ * Sends the values collected for an HttpAction to its endpoint through the
+ * Sherry proxy:
+ *
+ * - User inputs are merged over the action's static `body`
+ * - GET requests send the values as query string, other methods as a JSON body
+ * - The action's `headers` are applied to the request, without replacing the
+ *   headers the SDK sends to the proxy
+ * - Inputs are validated against the action's `params` before sending
+ *
+ * @extends BaseExecutor
+ *
+ * @example
+ * ```typescript
+ * const executor = createHttpActionExecutor('your-client-key');
+ *
+ * const action: HttpAction = {
+ *   type: 'http',
+ *   label: 'Join Waitlist',
+ *   path: 'https://api.myapp.com/waitlist',
+ *   method: 'POST',
+ *   body: { source: 'sherry' },
+ *   params: [{ name: 'email', label: 'Email', type: 'email', required: true }],
+ * };
+ *
+ * const result = await executor.execute<{ position: number }>(action, {
+ *   email: 'user@example.com',
+ * });
+ * console.log(result.status, result.data.position);
+ * ```
+ */
+export class HttpActionExecutor extends BaseExecutor {
+    /**
+     * Validates the inputs of an HttpAction and sends them to its endpoint.
+     *
+     * Parameters without an input use their default `value`; `fixed` parameters
+     * always send their default `value`.
+     *
+     * @param action - The HttpAction to execute
+     * @param inputs - User-provided parameter values
+     * @param options - Additional execution options
+     *
+     * @returns Promise resolving to the status, headers and parsed body of the response
+     *
+     * @throws {ActionValidationError} When the action is invalid
+     * @throws {InputValidationError} When an input does not match its parameter definition
+     * @throws {HttpRequestError} When the endpoint responds with an error status
+     * @throws {RequestTimeoutError} When the request exceeds `options.timeout`
+     * @throws {RequestAbortedError} When `options.signal` aborts the request
+     * @throws {NetworkError} When no response could be obtained
+     */
+    async execute<T = any>(
+        action: HttpAction,
+        inputs: Record<string, any> = {},
+        options?: ExecutorOptions,
+    ): Promise<HttpActionResult<T>> {
+        this.validateAction(action);
+
+        const values = this.resolveInputs(action.params ?? [], inputs);
+        const payload: Record<string, any> = { ...action.body, ...values };
+
+        const method = action.method ?? 'POST';
+        const operation = method === 'GET' ? VALID_OPERATIONS.FETCH : VALID_OPERATIONS.EXECUTE;
+        const targetUrl = method === 'GET' ? this.appendQuery(action.path, payload) : action.path;
+
+        const headers = {
+            ...action.headers,
+            ...this.buildRequestHeaders(targetUrl, operation, options?.clientKey || this.clientKey),
+            ...options?.customHeaders,
+        };
+
+        const response = await this.makeRawRequest(
+            this.getRequestEndpoint(targetUrl),
+            {
+                method,
+                headers,
+                body: method === 'GET' ? undefined : JSON.stringify(payload),
+                retry: options?.retry,
+                timeout: options?.timeout,
+                signal: options?.signal,
+                allowEmptyResponse: true,
+            },
+            options?.proxyUrl,
+        );
+
+        return { status: response.status, data: response.data, headers: response.headers };
+    }
+
+    private validateAction(action: HttpAction): void {
+        if (!action || action.type !== 'http') {
+            throw new ActionValidationError('Action must be an http action');
+        }
+
+        if (!action.path) {
+            throw new ActionValidationError('Http action must have a path');
+        }
+
+        try {
+            new URL(action.path);
+        } catch {
+            throw new ActionValidationError(`Invalid http action path: ${action.path}`);
+        }
+    }
+
+    /**
+     * Validates the inputs against their parameter definitions and returns the
+     * value to send for each parameter.
+     */
+    private resolveInputs(
+        params: HttpParameter[],
+        inputs: Record<string, any>,
+    ): Record<string, any> {
+        assertValidInputs(params, inputs);
+
+        const values: Record<string, any> = { ...inputs };
+        params.forEach(param => {
+            const value = param.fixed ? param.value : (inputs[param.name] ?? param.value);
+            if (value !== undefined && value !== null && value !== '') {
+                values[param.name] = value;
+            }
+        });
+
+        return values;
+    }
+}
+
+/**
+ * Creates an HttpActionExecutor instance.
+ *
+ * @param clientKey - Optional client key for authentication
+ * @returns A new HttpActionExecutor instance
+ */
+export function createHttpActionExecutor(clientKey?: string): HttpActionExecutor {
+    return new HttpActionExecutor(clientKey);
+}
@@ -1,3 +1,16 @@
 export * from './dynamicExecutor';
+export * from './httpActionExecutor';
 export * from './baseExecutor';
+export * from './metadataCache';
+export * from './middleware';
+export * from './miniAppExecutor';
+export * from './responseDecoder';
+export * from './rateLimiter';
+export * from './retryPolicy';
+export * from './simulator';
+export * from './transport';
+export * from './transactionBuilder';
+export * from './nodeHttpTransport';
 export * from './flowExecutor';
+export * from './flowHandlers';
+export * from './flowSnapshot';
@@ -0,0 +1,284 @@
+import { TransportHeaders } from './transport';
+
+/**
+ * Cached metadata response for a single URL.
+ */
+export interface MetadataCacheEntry {
+    /** Parsed metadata returned by the mini app */
+    value: any;
+    /** `ETag` of the response, used to revalidate with `If-None-Match` */
+    etag?: string;
+    /** Time the entry was stored or last revalidated, in milliseconds since epoch */
+    storedAt: number;
+    /** How long the entry is fresh, in milliseconds */
+    maxAgeMs: number;
+    /** How long a stale entry may still be served while it is revalidated, in milliseconds */
+    staleWhileRevalidateMs: number;
+}
+
+/**
+ * Storage backend for the metadata cache.
+ *
+ * Methods may be synchronous or return promises, so server deployments can
+ * back the cache with Redis, a KV store or any shared storage.
+ *
+ * @example
+ * ```typescript
+ * const redisStore: MetadataCacheStore = {
+ *   get: async key => JSON.parse((await redis.get(key)) ?? 'null') ?? undefined,
+ *   set: async (key, entry) => { await redis.set(key, JSON.stringify(entry)); },
+ *   delete: async key => { await redis.del(key); },
+ * };
+ *
+ * const executor = new MiniAppExecutor('client-key', undefined, {
+ *   metadataCache: { store: redisStore },
+ * });
+ * ```
+ */
+export interface MetadataCacheStore {
+    get(key: string): MetadataCacheEntry | undefined | Promise<MetadataCacheEntry | undefined>;
+    set(key: string, entry: MetadataCacheEntry): void | Promise<void>;
+    delete(key: string): void | Promise<void>;
+    clear?(): void | Promise<void>;
+}
+
+/**
+ * Options for the metadata cache.
+ */
+export interface MetadataCacheOptions {
+    /** Custom storage backend. Defaults to an in-memory LRU store. */
+    store?: MetadataCacheStore;
+    /** Maximum number of entries of the default in-memory store. Defaults to 100. */
+    maxEntries?: number;
+    /** Freshness used when the response has no `Cache-Control` max-age. Defaults to 0. */
+    defaultTtlMs?: number;
+    /** Clock used for expiration, mainly for tests. Defaults to `Date.now`. */
+    now?: () => number;
+}
+
+/**
+ * Freshness state of a cache entry.
+ *
+ * - `fresh`: can be served without contacting the proxy
+ * - `stale`: can be served while it is revalidated in the background
+ * - `expired`: must be revalidated before it is served
+ */
+export type MetadataCacheState = 'fresh' | 'stale' | 'expired';
+
+/**
+ * Directives of a `Cache-Control` header relevant to the metadata cache.
+ */
+export interface CacheControlDirectives {
+    maxAge?: number;
+    staleWhileRevalidate?: number;
+    noStore: boolean;
+    noCache: boolean;
+}
+
+/**
+ * Parses the directives of a `Cache-Control` header.
+ *
+ * @param header - The header value
+ * @returns Parsed directives; durations are in seconds
+ */
+export function parseCacheControl(header: string | null | undefined): CacheControlDirectives {
+    const directives: CacheControlDirectives = { noStore: false, noCache: false };
+
+    if (!header) {
+        return directives;
+    }
+
+    header.split(',').forEach(part => {
+        const [name, rawValue] = part.trim().toLowerCase().split('=');
+        const value = rawValue !== undefined ? Number(rawValue.replace(/"/g, '')) : NaN;
+
+        switch (name) {
+            case 'max-age':
+                if (!Number.isNaN(value)) directives.maxAge = value;
+                break;
+            case 'stale-while-revalidate':
+                if (!Number.isNaN(value)) directives.staleWhileRevalidate = value;
+                break;
+            case 'no-store':
+                directives.noStore = true;
+                break;
+            case 'no-cache':
+                directives.noCache = true;
+                break;
+        }
+    });
+
+    return directives;
+}
+
+/**
+ * In-memory metadata store that evicts the least recently used entry when full.
+ */
+export class InMemoryLRUCache implements MetadataCacheStore {
+    private entries = new Map<string, MetadataCacheEntry>();
+
+    /**
+     * @param maxEntries - Maximum number of entries kept in memory
+     */
+    constructor(private readonly maxEntries: number = 100) {}
+
+    get(key: string): MetadataCacheEntry | undefined {
+        const entry = this.entries.get(key);
+        if (entry) {
+            // Move to the end so it becomes the most recently used
+            this.entries.delete(key);
+            this.entries.set(key, entry);
+        }
+        return entry;
+    }
+
+    set(key: string, entry: MetadataCacheEntry): void {
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+
+        while (this.entries.size > this.maxEntries) {
+            const oldestKey = this.entries.keys().next().value as string;
+            this.entries.delete(oldestKey);
+        }
+    }
+
+    delete(key: string): void {
+        this.entries.delete(key);
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+
+    /** Number of entries currently stored */
+    get size(): number {
+        return this.entries.size;
+    }
+}
+
+/**
+ * HTTP-aware metadata cache used by BaseExecutor.getMetadata.
+ *
+ * Freshness follows the `Cache-Control` header of the metadata response
+ * (`max-age`, `stale-while-revalidate`, `no-cache`, `no-store`), and entries
+ * with an `ETag` are revalidated with `If-None-Match`.
+ */
+export class MetadataCache {
+    private store: MetadataCacheStore;
+    private defaultTtlMs: number;
+    private now: () => number;
+
+    constructor(options: MetadataCacheOptions = {}) {
+        this.store = options.store ?? new InMemoryLRUCache(options.maxEntries);
+        this.defaultTtlMs = options.defaultTtlMs ?? 0;
+        this.now = options.now ?? Date.now;
+    }
+
+    /**
+     * Looks up the entry for a URL and computes its freshness.
+     *
+     * @param url - The metadata URL
+     * @returns The entry and its state, or undefined if nothing is cached
+     */
+    async lookup(
+        url: string,
+    ): Promise<{ entry: MetadataCacheEntry; state: MetadataCacheState } | undefined> {
+        const entry = await this.store.get(url);
+        if (!entry) {
+            return undefined;
+        }
+
+        const age = this.now() - entry.storedAt;
+        let state: MetadataCacheState = 'expired';
+        if (age < entry.maxAgeMs) {
+            state = 'fresh';
+        } else if (age < entry.maxAgeMs + entry.staleWhileRevalidateMs) {
+            state = 'stale';
+        }
+
+        return { entry, state };
+    }
+
+    /**
+     * Stores a metadata response according to its caching headers.
+     *
+     * Responses with `no-store`, or that can be neither kept fresh nor
+     * revalidated, are not stored.
+     *
+     * @param url - The metadata URL
+     * @param value - The parsed metadata
+     * @param headers - Headers of the response
+     */
+    async save(url: string, value: any, headers?: TransportHeaders): Promise<void> {
+        const directives = parseCacheControl(headers?.get('Cache-Control'));
+        const etag = headers?.get('ETag') ?? undefined;
+
+        if (directives.noStore) {
+            await this.store.delete(url);
+            return;
+        }
+
+        const entry = this.createEntry(value, etag, directives);
+        if (entry.maxAgeMs <= 0 && entry.staleWhileRevalidateMs <= 0 && !etag) {
+            return;
+        }
+
+        await this.store.set(url, entry);
+    }
+
+    /**
+     * Renews an entry after a `304 Not Modified` response.
+     *
+     * @param url - The metadata URL
+     * @param entry - The entry that was revalidated
+     * @param headers - Headers of the 304 response
+     * @returns The cached metadata
+     */
+    async refresh(
+        url: string,
+        entry: MetadataCacheEntry,
+        headers?: TransportHeaders,
+    ): Promise<any> {
+        const directives = parseCacheControl(headers?.get('Cache-Control'));
+        const etag = headers?.get('ETag') ?? entry.etag;
+
+        await this.store.set(url, this.createEntry(entry.value, etag, directives));
+        return entry.value;
+    }
+
+    /**
+     * Removes the cached metadata of a URL.
+     *
+     * @param url - The metadata URL
+     */
+    async invalidate(url: string): Promise<void> {
+        await this.store.delete(url);
+    }
+
+    /**
+     * Removes every cached entry, if the store supports it.
+     */
+    async clear(): Promise<void> {
+        await this.store.clear?.();
+    }
+
+    private createEntry(
+        value: any,
+        etag: string | undefined,
+        directives: CacheControlDirectives,
+    ): MetadataCacheEntry {
+        const maxAgeMs = directives.noCache
+            ? 0
+            : directives.maxAge !== undefined
+              ? directives.maxAge * 1000
+              : this.defaultTtlMs;
+
+        return {
+            value,
+            etag,
+            storedAt: this.now(),
+            maxAgeMs,
+            staleWhileRevalidateMs: (directives.staleWhileRevalidate ?? 0) * 1000,
+        };
+    }
+}
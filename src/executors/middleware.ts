@@ -0,0 +1,53 @@
+import { Transport, TransportRequest, TransportResponse } from './transport';
+
+/**
+ * Sends the request to the next middleware, or to the transport for the last one.
+ */
+export type ExecutorMiddlewareNext = (request: TransportRequest) => Promise<TransportResponse>;
+
+/**
+ * Middleware wrapped around every request an executor sends to the proxy
+ * (`getMetadata`, dynamic execution and `MiniAppExecutor.request`).
+ *
+ * A middleware can:
+ * - modify the outgoing request (URL, headers built by `buildSdkHeaders`, body)
+ *   before passing it to `next`
+ * - inspect or replace the response returned by `next`
+ * - short-circuit by returning a response without calling `next`
+ *
+ * Middleware runs in registration order: the first one registered sees the
+ * request first and the response last. With a retry policy, the chain runs
+ * once per attempt.
+ *
+ * @example
+ * ```typescript
+ * executor.use(async (request, next) => {
+ *   request.headers['Authorization'] = `Bearer ${await getToken()}`;
+ *   const started = Date.now();
+ *   const response = await next(request);
+ *   console.log(request.method, request.url, response.status, Date.now() - started);
+ *   return response;
+ * });
+ * ```
+ */
+export type ExecutorMiddleware = (
+    request: TransportRequest,
+    next: ExecutorMiddlewareNext,
+) => Promise<TransportResponse>;
+
+/**
+ * Composes a middleware list around a transport.
+ *
+ * @param middleware - Middleware in registration order
+ * @param transport - Transport that sends the final request
+ * @returns Function that runs a request through the whole chain
+ */
+export function composeMiddleware(
+    middleware: ExecutorMiddleware[],
+    transport: Transport,
+): ExecutorMiddlewareNext {
+    return middleware.reduceRight<ExecutorMiddlewareNext>(
+        (next, current) => request => current(request, next),
+        request => transport.request(request),
+    );
+}
@@ -1,5 +1,35 @@
 import { BaseExecutor, ExecutorOptions } from './baseExecutor';
-import { buildSdkHeaders, ValidOperation, VALID_OPERATIONS } from '../headers/headers';
+import { ValidOperation, VALID_OPERATIONS } from '../headers/headers';
+import { ActionValidationError } from '../errors/customErrors';
+
+/**
+ * HTTP methods supported by MiniAppExecutor.request.
+ */
+export type MiniAppRequestMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+/**
+ * Value accepted in the query string of a mini app request.
+ * Arrays are sent as repeated parameters; null and undefined are omitted.
+ */
+export type MiniAppQueryValue =
+    | string
+    | number
+    | boolean
+    | Array<string | number | boolean>
+    | null
+    | undefined;
+
+/**
+ * Options for MiniAppExecutor.request.
+ */
+export interface MiniAppRequestOptions extends ExecutorOptions {
+    /** HTTP method. Defaults to GET. */
+    method?: MiniAppRequestMethod;
+    /** Request body, sent as JSON or as multipart FormData. Not allowed for GET. */
+    body?: Record<string, any> | any[] | FormData;
+    /** Query parameters appended to the target URL. */
+    query?: Record<string, MiniAppQueryValue>;
+}
 
 /**
  * General-purpose executor for interacting with any mini app endpoints.
@@ -12,7 +42,7 @@ import { buildSdkHeaders, ValidOperation, VALID_OPERATIONS } from '../headers/he
  * - Metadata fetching from any mini app
  * - Health checks and status endpoints
  * - Configuration or settings retrieval
- * - Any GET/POST operation to mini app endpoints
+ * - Any GET/POST/PUT/DELETE operation to mini app endpoints
  *
  * This executor is ideal when you need to interact with mini apps that have
  * custom endpoints beyond the standard action execution pattern, or when
@@ -28,7 +58,7 @@ import { buildSdkHeaders, ValidOperation, VALID_OPERATIONS } from '../headers/he
  * const metadata = await executor.getMetadata('https://myapp.com');
  *
  * // Custom GET request
- * const status = await executor.request('https://myapp.com', '/health');
+ * const status = await executor.request<{ ok: boolean }>('https://myapp.com', '/health');
  *
  * // Custom POST request
  * const result = await executor.request('https://myapp.com', '/api/custom', {
@@ -42,27 +72,31 @@ export class MiniAppExecutor extends BaseExecutor {
      * Makes a generic HTTP request to any mini app endpoint.
      *
      * This method provides maximum flexibility for interacting with mini apps.
-     * It can handle both GET and POST requests, with automatic content-type
+     * It supports GET, POST, PUT and DELETE requests, with automatic content-type
      * detection and proper header management.
      *
      * Features:
      * - Automatic Content-Type detection (JSON vs FormData)
+     * - Query string building from an object
      * - Proper SDK header injection for proxy routing
      * - Custom header support
-     * - Timeout configuration
-     * - Error handling and validation
+     * - Typed responses through the `T` type parameter
      *
      * The request automatically routes through the Sherry proxy server, ensuring
-     * security, rate limiting, and proper request validation.
+     * security, rate limiting, and proper request validation. GET requests use the
+     * `fetch` proxy operation; every other method uses `execute`.
      *
      * @param baseUrl - The base URL of the target mini app
      * @param path - The endpoint path to request
      * @param options - Request configuration options
      *
-     * @returns Promise resolving to the response from the mini app
+     * @returns Promise resolving to the parsed response from the mini app, or `undefined`
+     *          when the response has no body (e.g. `204 No Content`)
      *
-     * @throws {ActionValidationError} When URL parameters are invalid
-     * @throws {Error} When the request fails or times out
+     * @throws {ActionValidationError} When URL parameters are invalid or a GET request has a body
+     * @throws {RequestTimeoutError} When the request exceeds `options.timeout`
+     * @throws {RequestAbortedError} When `options.signal` aborts the request
+     * @throws {NetworkError} When no response could be obtained
      *
      * @example
      * ```typescript
@@ -71,11 +105,15 @@ export class MiniAppExecutor extends BaseExecutor {
      * // Simple GET request
      * const data = await executor.request('https://api.example.com', '/data');
      *
+     * // Typed GET with query parameters
+     * const quote = await executor.request<{ price: string }>('https://api.example.com', '/quote', {
+     *   query: { from: 'AVAX', to: 'USDC', amount: 1 }
+     * });
+     *
      * // POST with JSON body
      * const result = await executor.request('https://api.example.com', '/submit', {
      *   method: 'POST',
-     *   body: { key: 'value', number: 42 },
-     *   timeout: 15000
+     *   body: { key: 'value', number: 42 }
      * });
      *
      * // POST with FormData (file upload)
@@ -88,60 +126,62 @@ export class MiniAppExecutor extends BaseExecutor {
      *   body: formData
      * });
      *
-     * // GET with custom headers and timeout
-     * const customResult = await executor.request('https://api.example.com', '/custom', {
+     * // DELETE with custom headers
+     * await executor.request('https://api.example.com', '/items/1', {
+     *   method: 'DELETE',
      *   customHeaders: {
      *     'X-Custom-Header': 'special-value'
-     *   },
-     *   timeout: 5000
+     *   }
      * });
      * ```
      */
-    /*
-    async request(
+    async request<T = any>(
         baseUrl: string,
         path: string,
-        options?: ExecutorOptions & {
-           
-            method?: 'GET' | 'POST';
-           
-            body?: any;
-        },
-    ): Promise<any> {
-        const targetUrl = this.buildTargetUrl(baseUrl, path);
-        const finalClientKey = options?.clientKey || this.clientKey;
+        options?: MiniAppRequestOptions,
+    ): Promise<T> {
         const method = options?.method || 'GET';
 
-        
-        const operation: ValidOperation = method === 'POST' 
-        ? VALID_OPERATIONS.EXECUTE 
-        : VALID_OPERATIONS.FETCH;
-        
-        const headers = buildSdkHeaders(targetUrl, operation, finalClientKey);
+        if (method === 'GET' && options?.body !== undefined) {
+            throw new ActionValidationError('GET requests cannot have a body');
+        }
+
+        const targetUrl = this.appendQuery(this.buildTargetUrl(baseUrl, path), options?.query);
+        const finalClientKey = options?.clientKey || this.clientKey;
+
+        const operation: ValidOperation =
+            method === 'GET' ? VALID_OPERATIONS.FETCH : VALID_OPERATIONS.EXECUTE;
 
+        const headers = this.buildRequestHeaders(targetUrl, operation, finalClientKey);
 
         if (options?.customHeaders) {
             Object.assign(headers, options.customHeaders);
         }
 
         let body: string | FormData | undefined;
-        if (method === 'POST' && options?.body) {
-            if (options.body instanceof FormData) {
+        if (options?.body !== undefined) {
+            if (typeof FormData !== 'undefined' && options.body instanceof FormData) {
                 body = options.body;
-                // Let browser set Content-Type with boundary for FormData
+                // Let the runtime set Content-Type with the multipart boundary
                 delete headers['Content-Type'];
             } else {
-                // Serialize objects to JSON
                 body = JSON.stringify(options.body);
                 headers['Content-Type'] = 'application/json';
             }
         }
 
-        return this.makeRequest('/proxy', {
-            method,
-            headers,
-            body,
-        });
+        return this.makeRequest(
+            this.getRequestEndpoint(targetUrl),
+            {
+                method,
+                headers,
+                body,
+                retry: options?.retry,
+                timeout: options?.timeout,
+                signal: options?.signal,
+                allowEmptyResponse: true,
+            },
+            options?.proxyUrl,
+        );
     }
-    */
 }
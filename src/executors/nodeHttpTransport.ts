@@ -0,0 +1,115 @@
+import * as http from 'http';
+import * as https from 'https';
+import { ActionValidationError } from '../errors/customErrors';
+import { Transport, TransportHeaders } from './transport';
+
+/**
+ * Options for the Node.js http transport.
+ */
+export interface NodeHttpTransportOptions {
+    /**
+     * Agent used for every request, e.g. for keep-alive pools, proxies or
+     * mTLS (`new https.Agent({ cert, key, ca })`).
+     */
+    agent?: http.Agent | https.Agent;
+}
+
+/**
+ * Creates a transport backed by Node's `http`/`https` modules.
+ *
+ * Only available in Node.js; it is exported from the executors entry point and
+ * not from the browser bundle. FormData bodies are not supported.
+ *
+ * @param options - Transport options
+ * @returns A Node.js http transport
+ *
+ * @example
+ * ```typescript
+ * import { Agent } from 'https';
+ * import { DynamicActionExecutor, createNodeHttpTransport } from '@sherrylinks/sdk/executors';
+ *
+ * const executor = new DynamicActionExecutor('client-key', undefined, {
+ *   transport: createNodeHttpTransport({ agent: new Agent({ cert, key }) }),
+ * });
+ * ```
+ */
+export function createNodeHttpTransport(options: NodeHttpTransportOptions = {}): Transport {
+    return {
+        request: ({ url, method, headers, body, signal }) =>
+            new Promise((resolve, reject) => {
+                const abortError = () => {
+                    const error = new Error('The operation was aborted');
+                    error.name = 'AbortError';
+                    return error;
+                };
+
+                if (body !== undefined && typeof body !== 'string') {
+                    reject(
+                        new ActionValidationError(
+                            'FormData bodies are not supported by the Node http transport',
+                        ),
+                    );
+                    return;
+                }
+
+                if (signal?.aborted) {
+                    reject(abortError());
+                    return;
+                }
+
+                const target = new URL(url);
+                const client = target.protocol === 'http:' ? http : https;
+
+                const request = client.request(
+                    target,
+                    { method, headers, agent: options.agent },
+                    response => {
+                        const chunks: Buffer[] = [];
+                        response.on('data', chunk => chunks.push(chunk));
+                        response.on('error', error => {
+                            cleanup();
+                            reject(error);
+                        });
+                        response.on('end', () => {
+                            cleanup();
+
+                            const responseHeaders: TransportHeaders = {
+                                get: name => {
+                                    const value = response.headers[name.toLowerCase()];
+                                    if (value === undefined) return null;
+                                    return Array.isArray(value) ? value.join(', ') : value;
+                                },
+                            };
+                            const text = Buffer.concat(chunks).toString('utf8');
+
+                            resolve({
+                                status: response.statusCode ?? 0,
+                                headers: responseHeaders,
+                                text: async () => text,
+                            });
+                        });
+                    },
+                );
+
+                const onAbort = () => request.destroy(abortError());
+                // Runs on every outcome, so the listener never outlives the request
+                const cleanup = () => signal?.removeEventListener('abort', onAbort);
+                signal?.addEventListener('abort', onAbort, { once: true });
+
+                request.on('error', error => {
+                    cleanup();
+                    // Follow fetch: aborts keep their name, network failures are TypeErrors
+                    reject(
+                        error.name === 'AbortError'
+                            ? error
+                            : new TypeError(`Network request failed: ${error.message}`),
+                    );
+                });
+
+                if (body !== undefined) {
+                    request.write(body);
+                }
+                request.end();
+            }),
+    };
+}
@@ -0,0 +1,200 @@
+import { RateLimitError, RequestAbortedError } from '../errors/customErrors';
+import { TransportHeaders } from './transport';
+
+/**
+ * What a rate limiter does when no request is available.
+ *
+ * - `reject`: throw a RateLimitError right away
+ * - `queue`: wait until a request is available, in call order
+ */
+export type RateLimitStrategy = 'reject' | 'queue';
+
+/**
+ * Options of the client-side rate limiter.
+ *
+ * @example
+ * ```typescript
+ * // 5 requests per second, waiting instead of failing when the limit is reached
+ * const executor = new MiniAppExecutor(undefined, undefined, {
+ *   rateLimit: { limit: 5, intervalMs: 1000, strategy: 'queue' },
+ * });
+ * ```
+ */
+export interface RateLimitOptions {
+    /** Requests allowed per interval */
+    limit: number;
+    /** Length of the interval in milliseconds. Defaults to 1000. */
+    intervalMs?: number;
+    /** Requests that can be sent at once. Defaults to `limit`. */
+    burst?: number;
+    /** Defaults to `reject`. */
+    strategy?: RateLimitStrategy;
+    /** Longest time a queued request may wait before failing. Defaults to no limit. */
+    maxWaitMs?: number;
+}
+
+/**
+ * Rate limit reported by a server through `X-RateLimit-*` headers.
+ */
+export interface RateLimitInfo {
+    /** Requests allowed in the current window */
+    limit?: number;
+    /** Requests left in the current window */
+    remaining?: number;
+    /** When the current window resets */
+    resetAt?: Date;
+}
+
+/**
+ * `X-RateLimit-Reset` values above this are epoch seconds; below, seconds from now.
+ */
+const EPOCH_SECONDS_THRESHOLD = 1_000_000_000;
+
+/**
+ * Parses the `X-RateLimit-Limit`, `X-RateLimit-Remaining` and `X-RateLimit-Reset`
+ * headers of a response, falling back to the unprefixed `RateLimit-*` headers.
+ *
+ * `X-RateLimit-Reset` can be either a Unix timestamp in seconds or a number of
+ * seconds until the reset.
+ *
+ * @param headers - Response headers
+ * @param now - Current time in milliseconds
+ * @returns The rate limit found; fields are undefined when missing or invalid
+ */
+export function parseRateLimitHeaders(
+    headers: TransportHeaders,
+    now: number = Date.now(),
+): RateLimitInfo {
+    const read = (name: string): number | undefined => {
+        const value = headers.get(`X-RateLimit-${name}`) ?? headers.get(`RateLimit-${name}`);
+        if (value === null || !/^\d+(\.\d+)?$/.test(value.trim())) {
+            return undefined;
+        }
+        return Number(value.trim());
+    };
+
+    const reset = read('Reset');
+    let resetAt: Date | undefined;
+    if (reset !== undefined) {
+        resetAt = new Date(reset > EPOCH_SECONDS_THRESHOLD ? reset * 1000 : now + reset * 1000);
+    }
+
+    return { limit: read('Limit'), remaining: read('Remaining'), resetAt };
+}
+
+/**
+ * Token-bucket rate limiter used by executors before every request.
+ *
+ * The bucket holds up to `burst` requests and refills at `limit` requests per
+ * `intervalMs`. The limiter also follows the server: when a response reports
+ * no remaining requests, or is answered with HTTP 429, no request is sent until
+ * the server's limit resets.
+ *
+ * A limiter instance can be shared by several executors so they respect a
+ * common budget.
+ */
+export class RateLimiter {
+    private readonly limit: number;
+    private readonly capacity: number;
+    private readonly refillPerMs: number;
+    private readonly strategy: RateLimitStrategy;
+    private readonly maxWaitMs: number;
+    private tokens: number;
+    private refilledAt: number;
+    private blockedUntil = 0;
+
+    constructor(options: RateLimitOptions) {
+        const intervalMs = options.intervalMs ?? 1000;
+
+        if (!(options.limit > 0) || !(intervalMs > 0)) {
+            throw new RangeError('Rate limit and interval must be positive numbers');
+        }
+
+        this.limit = options.limit;
+        this.capacity = Math.max(1, options.burst ?? options.limit);
+        this.refillPerMs = options.limit / intervalMs;
+        this.strategy = options.strategy ?? 'reject';
+        this.maxWaitMs = options.maxWaitMs ?? Infinity;
+        this.tokens = this.capacity;
+        this.refilledAt = Date.now();
+    }
+
+    /**
+     * Takes one request from the bucket, waiting for it in `queue` mode.
+     *
+     * @param signal - Cancels the wait
+     *
+     * @throws {RateLimitError} When no request is available and the limiter does not queue,
+     *                          or the wait would exceed `maxWaitMs`
+     * @throws {RequestAbortedError} When `signal` aborts the wait
+     */
+    async acquire(signal?: AbortSignal): Promise<void> {
+        const now = Date.now();
+        this.refill(now);
+
+        const tokenDelay = this.tokens >= 1 ? 0 : (1 - this.tokens) / this.refillPerMs;
+        const delay = Math.ceil(Math.max(tokenDelay, this.blockedUntil - now));
+
+        if (delay > 0 && (this.strategy === 'reject' || delay > this.maxWaitMs)) {
+            throw new RateLimitError(`Client-side rate limit exceeded, retry in ${delay}ms`, {
+                retryAfterMs: delay,
+                limit: this.limit,
+                remaining: 0,
+            });
+        }
+
+        // Reserve the request now so queued callers are served in order
+        this.tokens -= 1;
+
+        if (delay > 0) {
+            try {
+                await sleep(delay, signal);
+            } catch (error) {
+                this.tokens += 1;
+                throw error;
+            }
+        }
+    }
+
+    /**
+     * Applies the rate limit reported by the server. When no requests remain,
+     * requests are held until `resetAt`.
+     *
+     * @param info - Rate limit parsed from a response
+     */
+    update(info: RateLimitInfo): void {
+        if (info.remaining === 0 && info.resetAt) {
+            this.blockedUntil = Math.max(this.blockedUntil, info.resetAt.getTime());
+        }
+    }
+
+    private refill(now: number): void {
+        const elapsed = now - this.refilledAt;
+        this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerMs);
+        this.refilledAt = now;
+    }
+}
+
+/**
+ * Waits for `ms` milliseconds, rejecting with a RequestAbortedError as soon as
+ * `signal` aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new RequestAbortedError());
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timeoutId);
+            reject(new RequestAbortedError());
+        };
+        const timeoutId = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
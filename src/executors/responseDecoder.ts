@@ -0,0 +1,180 @@
+import { Abi, Hex, decodeFunctionData, isHex, parseTransaction } from 'viem';
+import { ExecutionResponse } from '../interface/response/executionResponse';
+import { ActionValidationError } from '../errors/customErrors';
+
+/**
+ * Decoded function call of a transaction.
+ */
+export interface DecodedFunctionCall {
+    functionName: string;
+    /** Arguments in ABI order */
+    args: readonly unknown[];
+    /** Arguments keyed by ABI parameter name, for parameters that have one */
+    namedArgs: Record<string, unknown>;
+}
+
+/**
+ * Inconsistency between an ExecutionResponse and its serialized transaction.
+ *
+ * - `chainId`: `response.chainId` differs from the chain of the transaction
+ * - `functionName`: `params.functionName` differs from the decoded function
+ * - `abi`: the calldata could not be decoded with `response.abi`
+ */
+export interface ExecutionResponseMismatch {
+    field: 'chainId' | 'functionName' | 'abi';
+    /** Value declared in the response */
+    expected?: unknown;
+    /** Value found in the transaction */
+    actual?: unknown;
+    message: string;
+}
+
+/**
+ * Human-readable preview of the transaction of an ExecutionResponse.
+ */
+export interface DecodedExecutionResponse {
+    /** Transaction envelope: `legacy`, `eip2930`, `eip1559`, ... */
+    type: string;
+    /** Recipient; undefined for contract deployments */
+    to?: `0x${string}`;
+    /** Native value in wei */
+    value: bigint;
+    /** Calldata */
+    data?: Hex;
+    /** Gas limit */
+    gas?: bigint;
+    /** Chain of the transaction; undefined for pre-EIP-155 legacy transactions */
+    chainId?: number;
+    nonce?: number;
+    /** Gas price of legacy and EIP-2930 transactions */
+    gasPrice?: bigint;
+    /** Fee caps of EIP-1559 transactions */
+    maxFeePerGas?: bigint;
+    maxPriorityFeePerGas?: bigint;
+    /** Decoded function call, when the response includes an `abi` */
+    functionCall?: DecodedFunctionCall;
+    /** Inconsistencies found; empty when the response is coherent */
+    mismatches: ExecutionResponseMismatch[];
+}
+
+/**
+ * Decodes the serialized transaction of an ExecutionResponse into a structured
+ * preview that wallet UIs can show before the user signs.
+ *
+ * Legacy, EIP-2930 and EIP-1559 transactions are supported. When the response
+ * includes an `abi`, the calldata is decoded into a function call. Mismatches
+ * between the response and the transaction, such as a different `chainId` or a
+ * `params.functionName` that does not match the calldata, are reported in
+ * `mismatches` instead of thrown, so the UI can warn the user.
+ *
+ * @param response - The ExecutionResponse returned by a mini app
+ *
+ * @returns The decoded transaction and the mismatches found
+ *
+ * @throws {ActionValidationError} When `serializedTransaction` cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * const response = await executor.execute(action, inputs, context);
+ * const preview = decodeExecutionResponse(response);
+ *
+ * console.log(preview.functionCall?.functionName, formatEther(preview.value));
+ * if (preview.mismatches.length > 0) {
+ *   showWarning(preview.mismatches.map(m => m.message));
+ * }
+ * ```
+ */
+export function decodeExecutionResponse(response: ExecutionResponse): DecodedExecutionResponse {
+    if (!isHex(response.serializedTransaction)) {
+        throw new ActionValidationError('Serialized transaction must be a hex string');
+    }
+
+    let transaction: ReturnType<typeof parseTransaction>;
+    try {
+        transaction = parseTransaction(response.serializedTransaction);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new ActionValidationError(`Invalid serialized transaction: ${message}`);
+    }
+
+    const decoded: DecodedExecutionResponse = {
+        type: transaction.type ?? 'legacy',
+        to: transaction.to ?? undefined,
+        value: transaction.value ?? 0n,
+        data: transaction.data,
+        gas: transaction.gas,
+        chainId: transaction.chainId,
+        nonce: transaction.nonce,
+        gasPrice: 'gasPrice' in transaction ? transaction.gasPrice : undefined,
+        maxFeePerGas: 'maxFeePerGas' in transaction ? transaction.maxFeePerGas : undefined,
+        maxPriorityFeePerGas:
+            'maxPriorityFeePerGas' in transaction ? transaction.maxPriorityFeePerGas : undefined,
+        mismatches: [],
+    };
+
+    if (decoded.chainId !== undefined && Number(response.chainId) !== decoded.chainId) {
+        decoded.mismatches.push({
+            field: 'chainId',
+            expected: response.chainId,
+            actual: decoded.chainId,
+            message: `Response chainId ${response.chainId} does not match transaction chainId ${decoded.chainId}`,
+        });
+    }
+
+    if (response.abi && decoded.data && decoded.data !== '0x') {
+        decoded.functionCall = decodeFunctionCall(response.abi as Abi, decoded.data, decoded);
+    }
+
+    const expectedFunction = response.params?.functionName;
+    if (
+        expectedFunction &&
+        decoded.functionCall &&
+        decoded.functionCall.functionName !== expectedFunction
+    ) {
+        decoded.mismatches.push({
+            field: 'functionName',
+            expected: expectedFunction,
+            actual: decoded.functionCall.functionName,
+            message: `Response declares function '${expectedFunction}' but the transaction calls '${decoded.functionCall.functionName}'`,
+        });
+    }
+
+    return decoded;
+}
+
+/**
+ * Decodes calldata with an ABI, recording an `abi` mismatch when it cannot be decoded.
+ */
+function decodeFunctionCall(
+    abi: Abi,
+    data: Hex,
+    decoded: DecodedExecutionResponse,
+): DecodedFunctionCall | undefined {
+    try {
+        const { functionName, args = [] } = decodeFunctionData({ abi, data });
+
+        const abiFunction = abi.find(
+            item =>
+                item.type === 'function' &&
+                item.name === functionName &&
+                item.inputs.length === args.length,
+        );
+        const inputs = abiFunction && 'inputs' in abiFunction ? abiFunction.inputs : [];
+
+        const namedArgs: Record<string, unknown> = {};
+        inputs.forEach((input, index) => {
+            if (input.name) {
+                namedArgs[input.name] = args[index];
+            }
+        });
+
+        return { functionName, args, namedArgs };
+    } catch {
+        decoded.mismatches.push({
+            field: 'abi',
+            actual: data.slice(0, 10),
+            message: `Function selector ${data.slice(0, 10)} was not found in the response ABI`,
+        });
+        return undefined;
+    }
+}
@@ -0,0 +1,159 @@
+import { SDK_TO_PROXY_HEADERS, VALID_OPERATIONS } from '../headers/headers';
+
+/**
+ * Kinds of transport failures that can be retried.
+ *
+ * - `network`: the request never got a response (DNS, connection reset, etc.)
+ * - `timeout`: the request exceeded the executor timeout
+ */
+export type RetryableErrorKind = 'network' | 'timeout';
+
+/**
+ * Retry policy for requests made through the Sherry proxy.
+ *
+ * @example
+ * ```typescript
+ * await executor.getMetadata(url, {
+ *   retry: { maxAttempts: 3, baseDelayMs: 250, retryOnStatus: [502, 503] },
+ * });
+ * ```
+ */
+export interface RetryPolicy {
+    /** Total number of attempts, including the first one. Defaults to 3. */
+    maxAttempts?: number;
+    /** Delay before the first retry, doubled on every attempt. Defaults to 500ms. */
+    baseDelayMs?: number;
+    /**
+     * Upper bound for the computed backoff delay and for delays requested with
+     * `Retry-After`. Defaults to 10000ms.
+     */
+    maxDelayMs?: number;
+    /** Randomize each delay between half and the full backoff. Defaults to true. */
+    jitter?: boolean;
+    /** HTTP status codes that trigger a retry. Defaults to 408, 429, 502, 503 and 504. */
+    retryOnStatus?: number[];
+    /** Transport failures that trigger a retry. Defaults to network errors and timeouts. */
+    retryOnErrors?: RetryableErrorKind[];
+    /**
+     * Header that marks a non-idempotent request as safe to retry.
+     * Defaults to `Idempotency-Key`.
+     */
+    idempotencyKeyHeader?: string;
+}
+
+/**
+ * Retry policy with every option resolved.
+ */
+export type ResolvedRetryPolicy = Required<RetryPolicy>;
+
+/**
+ * Default values applied to a RetryPolicy.
+ */
+export const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+    maxAttempts: 3,
+    baseDelayMs: 500,
+    maxDelayMs: 10000,
+    jitter: true,
+    retryOnStatus: [408, 429, 502, 503, 504],
+    retryOnErrors: ['network', 'timeout'],
+    idempotencyKeyHeader: 'Idempotency-Key',
+};
+
+/**
+ * HTTP methods that can be repeated without changing the result.
+ */
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/**
+ * Fills in the defaults of a retry policy.
+ *
+ * Without a policy a request is attempted only once.
+ *
+ * @param policy - The policy provided in ExecutorOptions
+ * @returns The resolved policy
+ */
+export function resolveRetryPolicy(policy?: RetryPolicy): ResolvedRetryPolicy {
+    if (!policy) {
+        return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+    }
+
+    return {
+        ...DEFAULT_RETRY_POLICY,
+        ...Object.fromEntries(Object.entries(policy).filter(([, value]) => value !== undefined)),
+    };
+}
+
+/**
+ * Computes the exponential backoff delay before the next attempt.
+ *
+ * @param attempt - The attempt that just failed (1 for the first attempt)
+ * @param policy - The resolved retry policy
+ * @returns Delay in milliseconds
+ */
+export function computeBackoffDelay(attempt: number, policy: ResolvedRetryPolicy): number {
+    const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+
+    if (!policy.jitter) {
+        return delay;
+    }
+
+    return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+/**
+ * Parses a `Retry-After` header value.
+ *
+ * @param value - Header value, either delay-seconds or an HTTP date
+ * @param now - Current time in milliseconds, used for HTTP dates
+ * @returns Delay in milliseconds, or undefined if the value is missing or invalid
+ */
+export function parseRetryAfter(
+    value: string | null | undefined,
+    now: number = Date.now(),
+): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+
+    const trimmed = value.trim();
+    if (/^\d+$/.test(trimmed)) {
+        return Number(trimmed) * 1000;
+    }
+
+    const date = Date.parse(trimmed);
+    if (Number.isNaN(date)) {
+        return undefined;
+    }
+
+    return Math.max(0, date - now);
+}
+
+/**
+ * Checks whether a request can be retried without risking duplicate side effects.
+ *
+ * `execute` operations and POST and PATCH requests are not idempotent, so they
+ * are only retried when they carry the policy's idempotency key header.
+ *
+ * @param method - HTTP method of the request
+ * @param headers - Headers of the request
+ * @param policy - The resolved retry policy
+ * @returns true if the request can be safely retried
+ */
+export function isRetrySafe(
+    method: string,
+    headers: Record<string, string>,
+    policy: ResolvedRetryPolicy,
+): boolean {
+    const headerNames = Object.keys(headers).map(name => name.toLowerCase());
+    const operation = Object.entries(headers).find(
+        ([name]) => name.toLowerCase() === SDK_TO_PROXY_HEADERS.OPERATION.toLowerCase(),
+    )?.[1];
+
+    const idempotent =
+        IDEMPOTENT_METHODS.includes(method.toUpperCase()) && operation !== VALID_OPERATIONS.EXECUTE;
+    if (idempotent) {
+        return true;
+    }
+
+    return headerNames.includes(policy.idempotencyKeyHeader.toLowerCase());
+}
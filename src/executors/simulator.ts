@@ -0,0 +1,225 @@
+import {
+    Abi,
+    BaseError,
+    Hex,
+    HttpRequestError as RpcHttpRequestError,
+    PublicClient,
+    TimeoutError as RpcTimeoutError,
+    createPublicClient,
+    decodeErrorResult,
+    http,
+    isHex,
+} from 'viem';
+import { ExecutionResponse } from '../interface/response/executionResponse';
+import { chainUtils } from '../interface/chains';
+import { ActionValidationError } from '../errors/customErrors';
+import { TransactionRequest } from './transactionBuilder';
+import { decodeExecutionResponse } from './responseDecoder';
+
+/**
+ * Options for `simulate`.
+ *
+ * Pass either a viem `client` or an `rpcUrl`. Without both, the default public
+ * RPC of the transaction's chain is used.
+ */
+export interface SimulationOptions {
+    /** JSON-RPC endpoint, e.g. a local anvil devnet (`http://127.0.0.1:8545`) */
+    rpcUrl?: string;
+    /** Existing viem public client. Takes precedence over `rpcUrl`. */
+    client?: PublicClient;
+    /** Address that would send the transaction; required by most state-changing calls */
+    account?: `0x${string}`;
+    /** ABI used to decode custom errors; defaults to the `abi` of an ExecutionResponse */
+    abi?: Abi;
+}
+
+/**
+ * Decoded revert of a simulated call.
+ */
+export interface SimulationRevert {
+    /** Human-readable reason, e.g. the `require` message or `InsufficientBalance(100, 200)` */
+    reason: string;
+    /** Name of the decoded error (`Error`, `Panic` or a custom error) */
+    errorName?: string;
+    /** Arguments of the decoded error */
+    args?: readonly unknown[];
+    /** Raw revert data */
+    data?: Hex;
+}
+
+/**
+ * Result of simulating a transaction.
+ */
+export interface SimulationResult {
+    /** Whether the call would succeed */
+    success: boolean;
+    /** Estimated gas; present when the call succeeds */
+    gasEstimate?: bigint;
+    /** Data returned by `eth_call` */
+    returnData?: Hex;
+    /** Why the call would revert; present when it fails */
+    revert?: SimulationRevert;
+}
+
+/**
+ * Simulates a transaction before the user signs it.
+ *
+ * Runs `eth_call` and, when it succeeds, `eth_estimateGas`. Revert reasons are
+ * decoded with the given ABI (or the ExecutionResponse's `abi`), including
+ * `Error(string)` and `Panic(uint256)`. Reverts are returned in the result
+ * instead of thrown.
+ *
+ * Accepts the ExecutionResponse of a dynamic action or a transaction built with
+ * `buildBlockchainTransaction` / `buildTransferTransaction`.
+ *
+ * @param transaction - The transaction to simulate
+ * @param options - RPC endpoint or client, sender and ABI
+ *
+ * @returns Whether the call succeeds, its gas estimate or its revert reason
+ *
+ * @throws {ActionValidationError} When no RPC can be resolved or the transaction is invalid
+ * @throws {Error} When the RPC cannot be reached
+ *
+ * @example
+ * ```typescript
+ * const transaction = buildBlockchainTransaction(action, inputs, { userAddress });
+ * const result = await simulate(transaction, {
+ *   rpcUrl: 'http://127.0.0.1:8545',
+ *   account: userAddress,
+ *   abi: action.abi,
+ * });
+ *
+ * if (!result.success) {
+ *   console.warn('Transaction would revert:', result.revert?.reason);
+ * }
+ * ```
+ */
+export async function simulate(
+    transaction: TransactionRequest | ExecutionResponse,
+    options: SimulationOptions = {},
+): Promise<SimulationResult> {
+    const { request, chainId, abi } = toCallRequest(transaction, options);
+    const client = options.client ?? createClient(chainId, options.rpcUrl);
+
+    const call = { account: options.account, ...request };
+
+    let returnData: Hex | undefined;
+    try {
+        ({ data: returnData } = await client.call(call));
+    } catch (error) {
+        throwIfUnreachable(error);
+        return { success: false, revert: decodeRevert(error, abi) };
+    }
+
+    try {
+        const gasEstimate = await client.estimateGas(call);
+        return { success: true, gasEstimate, returnData };
+    } catch (error) {
+        throwIfUnreachable(error);
+        return { success: false, returnData, revert: decodeRevert(error, abi) };
+    }
+}
+
+/**
+ * Extracts the call parameters from a transaction request or an ExecutionResponse.
+ */
+function toCallRequest(
+    transaction: TransactionRequest | ExecutionResponse,
+    options: SimulationOptions,
+): {
+    request: { to: `0x${string}`; data?: Hex; value?: bigint };
+    chainId?: number;
+    abi?: Abi;
+} {
+    if ('serializedTransaction' in transaction) {
+        const decoded = decodeExecutionResponse(transaction);
+        if (!decoded.to) {
+            throw new ActionValidationError('Cannot simulate a transaction without recipient');
+        }
+
+        return {
+            request: { to: decoded.to, data: decoded.data, value: decoded.value },
+            chainId: decoded.chainId ?? Number(transaction.chainId),
+            abi: options.abi ?? (transaction.abi as Abi | undefined),
+        };
+    }
+
+    return {
+        request: { to: transaction.to, data: transaction.data, value: transaction.value },
+        chainId: transaction.chainId,
+        abi: options.abi,
+    };
+}
+
+function createClient(chainId: number | undefined, rpcUrl?: string): PublicClient {
+    const chain =
+        chainId !== undefined && chainUtils.isValidChainId(chainId)
+            ? chainUtils.getChainInfo(chainId)
+            : undefined;
+
+    if (!rpcUrl && !chain) {
+        throw new ActionValidationError(
+            `No RPC available for chain ${chainId}, provide an rpcUrl or a client`,
+        );
+    }
+
+    return createPublicClient({ chain, transport: http(rpcUrl) }) as PublicClient;
+}
+
+/**
+ * Decodes the revert of a failed call, following the error chain to the raw revert data.
+ */
+function decodeRevert(error: unknown, abi?: Abi): SimulationRevert {
+    const data = getRevertData(error);
+    const fallback =
+        (error instanceof BaseError && error.shortMessage) ||
+        (error instanceof Error && error.message) ||
+        String(error);
+
+    if (!data || data === '0x') {
+        return { reason: fallback, data };
+    }
+
+    try {
+        const { errorName, args = [] } = decodeErrorResult({ abi, data });
+
+        let reason: string;
+        if (errorName === 'Error') {
+            reason = String(args[0]);
+        } else if (errorName === 'Panic') {
+            reason = `Panic(${args[0]})`;
+        } else {
+            reason = `${errorName}(${args.map(arg => String(arg)).join(', ')})`;
+        }
+
+        return { reason, errorName, args, data };
+    } catch {
+        return { reason: `Unknown revert with selector ${data.slice(0, 10)}`, data };
+    }
+}
+
+/**
+ * Rethrows errors caused by the RPC being unreachable, which say nothing about the call.
+ */
+function throwIfUnreachable(error: unknown): void {
+    if (
+        error instanceof BaseError &&
+        error.walk(e => e instanceof RpcHttpRequestError || e instanceof RpcTimeoutError)
+    ) {
+        throw error;
+    }
+}
+
+function getRevertData(error: unknown): Hex | undefined {
+    if (!(error instanceof BaseError)) {
+        return undefined;
+    }
+
+    const cause = error.walk() as { data?: unknown };
+    const data =
+        typeof cause?.data === 'object' && cause.data !== null
+            ? (cause.data as { data?: unknown }).data
+            : cause?.data;
+
+    return typeof data === 'string' && isHex(data) ? data : undefined;
+}
@@ -0,0 +1,551 @@
+import { AbiParameter, encodeFunctionData, erc20Abi, isAddress, isHex, parseUnits } from 'viem';
+import { TransferAction } from '../interface/actions/transferAction';
+import { BlockchainAction } from '../interface/actions/blockchainAction';
+import { chainUtils } from '../interface/chains';
+import { SelectOption } from '../interface/inputs';
+import { ActionValidationError } from '../errors/customErrors';
+
+/**
+ * Unsigned transaction request built from an action.
+ * Compatible with viem's `sendTransaction` / wagmi's `useSendTransaction`.
+ */
+export interface TransactionRequest {
+    to: `0x${string}`;
+    data?: `0x${string}`;
+    value: bigint;
+    chainId: number;
+}
+
+/**
+ * Values entered by the user for a TransferAction.
+ */
+export interface TransferInputs {
+    /** Recipient address, used when the action has no fixed `to` */
+    to?: string;
+    /** Amount in whole units (e.g. `1.5` AVAX), used when the action has no fixed `amount` */
+    amount?: number | string;
+}
+
+/**
+ * Context needed to build a transfer transaction.
+ */
+export interface TransferTransactionContext {
+    /** Decimals of the ERC-20 token. Required when the action has a `token`. */
+    tokenDecimals?: number;
+}
+
+/**
+ * Converts a native amount to wei/base units using the decimals of the chain's
+ * native currency (18 for unknown chains).
+ *
+ * @param amount - Amount in whole units
+ * @param chainId - The chain of the transaction
+ * @returns The value in base units, 0 when there is no amount
+ */
+export function toNativeValue(amount: number | string | undefined, chainId: number): bigint {
+    if (amount === undefined) return 0n;
+
+    return toBaseUnits(amount, nativeDecimals(chainId));
+}
+
+function nativeDecimals(chainId: number): number {
+    return chainUtils.isValidChainId(chainId)
+        ? chainUtils.getChainInfo(chainId).nativeCurrency.decimals
+        : 18;
+}
+
+const DECIMAL_PATTERN = /^\d+(\.\d+)?$/;
+
+/**
+ * Converts an amount in whole units to base units. The amount is kept as a
+ * decimal string, so it is not rounded like a JavaScript number would be.
+ *
+ * @throws {ActionValidationError} When the amount is not a positive decimal or
+ *                                 has more fraction digits than `decimals`
+ */
+function toBaseUnits(amount: number | string, decimals: number, name?: string): bigint {
+    const text = toDecimalString(amount);
+    const target = name ? ` for '${name}'` : '';
+    if (text === undefined) {
+        throw new ActionValidationError(`Invalid amount${target}: ${amount}`);
+    }
+
+    const fraction = text.split('.')[1] ?? '';
+    if (fraction.length > decimals) {
+        throw new ActionValidationError(
+            `Invalid amount${target}: ${amount} has more than ${decimals} decimals`,
+        );
+    }
+
+    return parseUnits(text, decimals);
+}
+
+/**
+ * Returns the plain decimal form of an amount (e.g. `1e-7` becomes `'0.0000001'`),
+ * without leading or trailing zeros, or undefined when it is not a non-negative decimal.
+ */
+function toDecimalString(amount: unknown): string | undefined {
+    let text: string;
+    if (typeof amount === 'number') {
+        if (!Number.isFinite(amount)) return undefined;
+        text = expandExponent(String(amount));
+    } else if (typeof amount === 'string') {
+        text = amount.trim();
+    } else {
+        return undefined;
+    }
+
+    if (!DECIMAL_PATTERN.test(text)) return undefined;
+
+    const [integer, fraction = ''] = text.split('.');
+    const trimmedFraction = fraction.replace(/0+$/, '');
+    const trimmedInteger = integer.replace(/^0+(?=\d)/, '');
+    return trimmedFraction ? `${trimmedInteger}.${trimmedFraction}` : trimmedInteger;
+}
+
+function expandExponent(text: string): string {
+    const match = text.match(/^(-?)(\d+)(?:\.(\d+))?e([+-]\d+)$/i);
+    if (!match) return text;
+
+    const [, sign, integer, fraction = '', exponent] = match;
+    const digits = integer + fraction;
+    const point = integer.length + Number(exponent);
+
+    if (point <= 0) return `${sign}0.${'0'.repeat(-point)}${digits}`;
+    if (point >= digits.length) return `${sign}${digits}${'0'.repeat(point - digits.length)}`;
+    return `${sign}${digits.slice(0, point)}.${digits.slice(point)}`;
+}
+
+/**
+ * Builds the unsigned transaction request for a TransferAction.
+ *
+ * The recipient is the action's `to`, or the user's `to` input, or the
+ * `recipient.defaultValue`. The amount is the action's `amount`, or the user's
+ * `amount` input, or the `amountConfig.defaultValue`. When `recipient.options` or
+ * `amountConfig.options` are configured, user inputs must be one of them.
+ *
+ * Native transfers send `value` in the chain's native currency decimals. When
+ * `token` is set, an ERC-20 `transfer` is encoded using `context.tokenDecimals`.
+ *
+ * @param action - The transfer action
+ * @param userInputs - Values entered by the user
+ * @param context - Token decimals for ERC-20 transfers
+ *
+ * @returns The unsigned transaction request
+ *
+ * @throws {ActionValidationError} When the recipient or amount is missing or invalid,
+ *                                 or the token decimals are not provided
+ *
+ * @example
+ * ```typescript
+ * // 0.5 AVAX
+ * const nativeTx = buildTransferTransaction(
+ *   { type: 'transfer', label: 'Tip', to: '0x...', amount: 0.5, chains: { source: 43114 } },
+ *   {},
+ * );
+ *
+ * // 10 USDC chosen from the configured options
+ * const tokenTx = buildTransferTransaction(
+ *   {
+ *     type: 'transfer',
+ *     label: 'Donate',
+ *     token: '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E',
+ *     to: '0x...',
+ *     amountConfig: { type: 'radio', options: [{ label: '10 USDC', value: 10 }] },
+ *     chains: { source: 43114 },
+ *   },
+ *   { amount: 10 },
+ *   { tokenDecimals: 6 },
+ * );
+ *
+ * await walletClient.sendTransaction(tokenTx);
+ * ```
+ */
+export function buildTransferTransaction(
+    action: TransferAction,
+    userInputs: TransferInputs = {},
+    context: TransferTransactionContext = {},
+): TransactionRequest {
+    const name = action.label;
+    const to = resolveRecipient(action, userInputs, name);
+    const amount = resolveAmount(action, userInputs, name);
+    const chainId = action.chains.source;
+
+    if (!action.token) {
+        return { to, value: toBaseUnits(amount, nativeDecimals(chainId), name), chainId };
+    }
+
+    const { tokenDecimals } = context;
+    if (
+        typeof tokenDecimals !== 'number' ||
+        !Number.isInteger(tokenDecimals) ||
+        tokenDecimals < 0
+    ) {
+        throw new ActionValidationError(
+            `Transfer action '${name}' sends a token, 'tokenDecimals' must be provided`,
+        );
+    }
+
+    return {
+        to: action.token,
+        data: encodeFunctionData({
+            abi: erc20Abi,
+            functionName: 'transfer',
+            args: [to, toBaseUnits(amount, tokenDecimals, name)],
+        }),
+        value: 0n,
+        chainId,
+    };
+}
+
+function resolveRecipient(
+    action: Pick<TransferAction, 'to' | 'recipient'>,
+    userInputs: TransferInputs,
+    name: string,
+): `0x${string}` {
+    if (action.to) {
+        return action.to;
+    }
+
+    const to = userInputs.to ?? action.recipient?.defaultValue;
+    if (!to) {
+        throw new ActionValidationError(`Transfer action '${name}' has no recipient`);
+    }
+
+    if (!isAddress(to, { strict: false })) {
+        throw new ActionValidationError(`Invalid recipient address for '${name}': ${to}`);
+    }
+
+    const options = action.recipient?.options;
+    if (options?.length && !isOption(options, value => value.toLowerCase() === to.toLowerCase())) {
+        throw new ActionValidationError(`Recipient ${to} is not one of the options of '${name}'`);
+    }
+
+    return to;
+}
+
+function resolveAmount(
+    action: Pick<TransferAction, 'amount' | 'amountConfig'>,
+    userInputs: TransferInputs,
+    name: string,
+): string {
+    const raw = action.amount ?? userInputs.amount ?? action.amountConfig?.defaultValue;
+    if (raw === undefined || raw === '') {
+        throw new ActionValidationError(`Transfer action '${name}' has no amount`);
+    }
+
+    const amount = toDecimalString(raw);
+    if (amount === undefined || !/[1-9]/.test(amount)) {
+        throw new ActionValidationError(`Invalid amount for '${name}': ${raw}`);
+    }
+
+    // A fixed amount needs no option; user amounts are compared as decimal strings
+    const options = action.amount === undefined ? action.amountConfig?.options : undefined;
+    if (options?.length && !isOption(options, value => toDecimalString(value) === amount)) {
+        throw new ActionValidationError(`Amount ${raw} is not one of the options of '${name}'`);
+    }
+
+    return amount;
+}
+
+function isOption(options: SelectOption[], matches: (value: string) => boolean): boolean {
+    return options.some(option => matches(String(option.value)));
+}
+
+/**
+ * Context needed to build a blockchain action transaction.
+ */
+export interface BlockchainTransactionContext {
+    /** Address of the connected wallet, used for parameters with the `'sender'` value */
+    userAddress?: `0x${string}`;
+}
+
+/**
+ * Builds the unsigned contract call for a validated BlockchainAction.
+ *
+ * Arguments follow the ABI order. The value of each parameter is its `value`
+ * when it is `fixed`, otherwise the user input with the same name, otherwise the
+ * parameter's default `value`. Without `params`, inputs are matched by ABI
+ * parameter name.
+ *
+ * - `'sender'` is replaced by `context.userAddress`
+ * - Values are coerced to the ABI type as in `coerceInputs`
+ * - The top-level `amount` of payable functions is sent as `value`, converted to
+ *   wei with the chain's native currency decimals
+ *
+ * @param action - The BlockchainAction returned by `BlockchainActionValidator.validateBlockchainAction`
+ * @param inputs - Values entered by the user, keyed by parameter name
+ * @param context - The connected wallet
+ *
+ * @returns The unsigned transaction request
+ *
+ * @throws {ActionValidationError} When a value is missing or cannot be coerced to its ABI type
+ *
+ * @example
+ * ```typescript
+ * const action = BlockchainActionValidator.validateBlockchainAction(metadata.actions[0]);
+ *
+ * const transaction = buildBlockchainTransaction(
+ *   action,
+ *   { amount: '1000000' },
+ *   { userAddress: '0x742d35Cc6634C0532925a3b8D4ccd306f6F4B26C' },
+ * );
+ *
+ * await walletClient.sendTransaction(transaction);
+ * ```
+ */
+export function buildBlockchainTransaction(
+    action: BlockchainAction,
+    inputs: Record<string, any> = {},
+    context: BlockchainTransactionContext = {},
+): TransactionRequest {
+    const args = action.abiParams.map((abiParam, index) => {
+        const param = action.params?.[index];
+        const name = param?.name ?? abiParam.name ?? `#${index}`;
+        const value = param?.fixed ? param.value : (inputs[name] ?? param?.value);
+
+        if (value === undefined || value === null || value === '') {
+            throw new ActionValidationError(`Missing value for parameter '${name}'`);
+        }
+
+        if (isSenderValue(value)) {
+            if (!context.userAddress) {
+                throw new ActionValidationError(
+                    `Parameter '${name}' uses 'sender' but no userAddress was provided`,
+                );
+            }
+            return context.userAddress;
+        }
+
+        return coerceAbiValue(value, abiParam, name, param?.type);
+    });
+
+    const chainId = action.chains.source;
+    const value =
+        action.blockchainActionType === 'payable' ? toNativeValue(action.amount, chainId) : 0n;
+
+    let data: `0x${string}`;
+    try {
+        data = encodeFunctionData({
+            abi: action.abi,
+            functionName: action.functionName,
+            args,
+        } as Parameters<typeof encodeFunctionData>[0]);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new ActionValidationError(
+            `Could not encode call to ${action.functionName}: ${message}`,
+        );
+    }
+
+    return { to: action.address, data, value, chainId };
+}
+
+/**
+ * Converts the values entered in a form, usually strings, to the JavaScript
+ * types viem expects for the ABI parameters of a BlockchainAction.
+ *
+ * - `uintN`/`intN`: decimal or hex strings and integers become bigint, checked
+ *   against the range of the type's width
+ * - `bool`: `'true'`/`'false'` (and `'1'`/`'0'`) become booleans
+ * - `bytesN`/`bytes`: hex strings, with or without `0x`, are lowercased and
+ *   their length is checked
+ * - arrays: JSON arrays or comma-separated lists, with each item coerced
+ * - `datetime` parameters: dates become unix seconds
+ *
+ * Inputs that are empty or not parameters of the action are left out, and the
+ * `'sender'` value of address parameters is kept for `buildBlockchainTransaction`.
+ *
+ * @param action - The BlockchainAction returned by `BlockchainActionValidator.validateBlockchainAction`
+ * @param rawInputs - Values entered by the user, keyed by parameter name
+ *
+ * @returns The coerced values, keyed by parameter name
+ *
+ * @throws {ActionValidationError} When a value cannot be coerced; `path` is the parameter
+ *                                 name, with the index of the item for arrays
+ *
+ * @example
+ * ```typescript
+ * const inputs = coerceInputs(action, { amount: '1000000', recipients: '0xabc..., 0xdef...' });
+ * // { amount: 1000000n, recipients: ['0xabc...', '0xdef...'] }
+ * ```
+ */
+export function coerceInputs(
+    action: BlockchainAction,
+    rawInputs: Record<string, any>,
+): Record<string, unknown> {
+    const inputs: Record<string, unknown> = {};
+
+    action.abiParams.forEach((abiParam, index) => {
+        const param = action.params?.[index];
+        const name = param?.name ?? abiParam.name ?? `#${index}`;
+        const value = rawInputs[name];
+
+        if (value === undefined || value === null || value === '') {
+            return;
+        }
+
+        inputs[name] = isSenderValue(value)
+            ? value
+            : coerceAbiValue(value, abiParam, name, param?.type);
+    });
+
+    return inputs;
+}
+
+function isSenderValue(value: unknown): boolean {
+    return typeof value === 'string' && value.toLowerCase() === 'sender';
+}
+
+/**
+ * Coerces a user-provided value to the JavaScript type viem expects for an ABI parameter.
+ *
+ * @param inputType - Type of the parameter in the action, e.g. `datetime`
+ */
+function coerceAbiValue(
+    value: any,
+    abiParam: AbiParameter,
+    name: string,
+    inputType?: string,
+): unknown {
+    const type = abiParam.type;
+    const invalid = (reason: string) =>
+        new ActionValidationError(
+            `Value ${JSON.stringify(typeof value === 'bigint' ? value.toString() : value)} of parameter '${name}' is not a valid ${type}: ${reason}`,
+            { path: name },
+        );
+
+    const arrayMatch = type.match(/^(.*)\[(\d*)\]$/);
+    if (arrayMatch) {
+        let items = value;
+        if (typeof items === 'string') {
+            const text = items.trim();
+            if (text.startsWith('[')) {
+                try {
+                    items = JSON.parse(text);
+                } catch {
+                    throw invalid('not a valid JSON array');
+                }
+            } else {
+                items = text.split(',').map(item => item.trim());
+            }
+        }
+        if (!Array.isArray(items)) {
+            throw invalid('expected an array');
+        }
+        if (arrayMatch[2] && items.length !== Number(arrayMatch[2])) {
+            throw invalid(`expected ${arrayMatch[2]} items, got ${items.length}`);
+        }
+        const itemParam = { ...abiParam, type: arrayMatch[1] } as AbiParameter;
+        return items.map((item, i) => coerceAbiValue(item, itemParam, `${name}[${i}]`, inputType));
+    }
+
+    if (type === 'tuple') {
+        const components = 'components' in abiParam ? abiParam.components : [];
+        if (Array.isArray(value)) {
+            return components.map((component, i) =>
+                coerceAbiValue(value[i], component, `${name}.${component.name ?? i}`),
+            );
+        }
+        if (typeof value !== 'object' || value === null) {
+            throw invalid('expected an object or an array');
+        }
+        return Object.fromEntries(
+            components.map((component, i) => [
+                component.name ?? i,
+                coerceAbiValue(
+                    value[component.name ?? i],
+                    component,
+                    `${name}.${component.name ?? i}`,
+                ),
+            ]),
+        );
+    }
+
+    const intMatch = type.match(/^(u?)int(\d*)$/);
+    if (intMatch) {
+        let result: bigint;
+        if (inputType === 'datetime' && !isIntegerLike(value)) {
+            // Dates become unix seconds; numbers are taken as unix seconds already
+            const time = value instanceof Date ? value.getTime() : Date.parse(String(value));
+            if (Number.isNaN(time)) {
+                throw invalid('not a valid date');
+            }
+            result = BigInt(Math.floor(time / 1000));
+        } else if (typeof value === 'bigint') {
+            result = value;
+        } else if (typeof value === 'number') {
+            if (!Number.isInteger(value)) {
+                throw invalid('must be an integer');
+            }
+            if (!Number.isSafeInteger(value)) {
+                throw invalid('too large to be exact as a number, pass it as a string');
+            }
+            result = BigInt(value);
+        } else if (typeof value === 'string' && /^(-?\d+|0x[0-9a-fA-F]+)$/.test(value.trim())) {
+            result = BigInt(value.trim());
+        } else {
+            throw invalid('must be an integer');
+        }
+
+        const bits = BigInt(intMatch[2] || 256);
+        const [min, max] = intMatch[1]
+            ? [0n, 2n ** bits - 1n]
+            : [-(2n ** (bits - 1n)), 2n ** (bits - 1n) - 1n];
+        if (result < min) {
+            throw invalid(`below the minimum of ${min}`);
+        }
+        if (result > max) {
+            throw invalid(`above the maximum of ${max}`);
+        }
+        return result;
+    }
+
+    if (type === 'bool') {
+        if (typeof value === 'boolean') return value;
+        if (value === 'true' || value === '1' || value === 1) return true;
+        if (value === 'false' || value === '0' || value === 0) return false;
+        throw invalid('expected true or false');
+    }
+
+    if (type === 'address') {
+        if (typeof value !== 'string' || !isAddress(value, { strict: false })) {
+            throw invalid('expected a 20-byte hex address');
+        }
+        return value;
+    }
+
+    const bytesMatch = type.match(/^bytes(\d*)$/);
+    if (bytesMatch) {
+        if (typeof value !== 'string') {
+            throw invalid('expected a hex string');
+        }
+        const text = value.trim();
+        const hex = `0x${text.replace(/^0x/i, '')}`.toLowerCase();
+        if (!isHex(hex)) {
+            throw invalid('expected a hex string');
+        }
+        if (hex.length % 2 !== 0) {
+            throw invalid('hex string has an odd number of digits');
+        }
+        const length = (hex.length - 2) / 2;
+        if (bytesMatch[1] && length !== Number(bytesMatch[1])) {
+            throw invalid(`expected ${bytesMatch[1]} bytes, got ${length}`);
+        }
+        return hex;
+    }
+
+    if (type === 'string') {
+        return String(value);
+    }
+
+    return value;
+}
+
+function isIntegerLike(value: unknown): boolean {
+    return (
+        typeof value === 'bigint' ||
+        typeof value === 'number' ||
+        (typeof value === 'string' && /^-?\d+$/.test(value.trim()))
+    );
+}
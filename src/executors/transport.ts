@@ -0,0 +1,130 @@
+/**
+ * HTTP request issued by an executor through its transport.
+ */
+export interface TransportRequest {
+    url: string;
+    method: string;
+    headers: Record<string, string>;
+    body?: string | FormData;
+    /** Aborted when the request times out or the caller cancels it */
+    signal?: AbortSignal;
+}
+
+/**
+ * Read-only access to response headers. Lookups are case-insensitive.
+ */
+export interface TransportHeaders {
+    get(name: string): string | null;
+}
+
+/**
+ * HTTP response returned by a transport. A fetch `Response` satisfies this interface.
+ */
+export interface TransportResponse {
+    status: number;
+    headers: TransportHeaders;
+    text(): Promise<string>;
+}
+
+/**
+ * Sends the HTTP requests of an executor.
+ *
+ * Implementations follow the fetch conventions so retries and error reporting
+ * work the same with every transport:
+ * - Resolve with the response for every HTTP status (including 4xx and 5xx)
+ * - Reject with a `TypeError` when no response could be obtained (network failure)
+ * - Reject with an error named `AbortError` when `request.signal` is aborted
+ *
+ * @example
+ * ```typescript
+ * const executor = new DynamicActionExecutor('client-key', undefined, {
+ *   transport: createFetchTransport(customFetch),
+ * });
+ * ```
+ */
+export interface Transport {
+    request(request: TransportRequest): Promise<TransportResponse>;
+}
+
+/**
+ * Creates a transport backed by the Fetch API.
+ *
+ * @param fetchImpl - Fetch implementation to use. Defaults to the global `fetch`,
+ *                    resolved on every request.
+ * @returns A fetch transport
+ */
+export function createFetchTransport(fetchImpl?: typeof fetch): Transport {
+    return {
+        request: ({ url, method, headers, body, signal }) =>
+            (fetchImpl ?? fetch)(url, { method, headers, body, signal }),
+    };
+}
+
+/**
+ * Status, headers and body of a response built with `createTransportResponse`
+ * or returned by the handler of an in-memory transport.
+ */
+export interface InMemoryResponse {
+    /** HTTP status code. Defaults to 200. */
+    status?: number;
+    /** Response headers */
+    headers?: Record<string, string>;
+    /** Response body. Strings are sent as-is, any other value is serialized as JSON. */
+    body?: unknown;
+}
+
+/**
+ * Builds a TransportResponse from a status, headers and body.
+ *
+ * Useful in middleware that replaces or short-circuits a response.
+ *
+ * @param init - Response status, headers and body
+ * @returns The transport response
+ */
+export function createTransportResponse(init: InMemoryResponse = {}): TransportResponse {
+    const headers = Object.fromEntries(
+        Object.entries(init.headers ?? {}).map(([name, value]) => [name.toLowerCase(), value]),
+    );
+    const body =
+        init.body === undefined
+            ? ''
+            : typeof init.body === 'string'
+              ? init.body
+              : JSON.stringify(init.body);
+
+    return {
+        status: init.status ?? 200,
+        headers: { get: name => headers[name.toLowerCase()] ?? null },
+        text: async () => body,
+    };
+}
+
+/**
+ * Creates a transport that answers requests with a local handler, without any
+ * network access. Intended for unit tests.
+ *
+ * @param handler - Function that produces the response for each request
+ * @returns An in-memory transport
+ *
+ * @example
+ * ```typescript
+ * const executor = new MiniAppExecutor('client-key', undefined, {
+ *   transport: createInMemoryTransport(request => ({ body: { name: 'Test App' } })),
+ * });
+ * ```
+ */
+export function createInMemoryTransport(
+    handler: (request: TransportRequest) => InMemoryResponse | Promise<InMemoryResponse>,
+): Transport {
+    return {
+        request: async request => {
+            if (request.signal?.aborted) {
+                const error = new Error('The operation was aborted');
+                error.name = 'AbortError';
+                throw error;
+            }
+
+            return createTransportResponse(await handler(request));
+        },
+    };
+}
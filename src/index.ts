@@ -19,10 +19,12 @@ export { TransferActionValidator } from './validators/transferActionValidator';
 export { HttpActionValidator } from './validators/httpActionValidator';
 export { FlowValidator } from './validators/flowValidator';
 export { DynamicActionValidator } from './validators/dynamicActionValidator';
-export { HTMLActionValidator } from './validators/htmlActionValidator';
+export { HTMLActionValidator, HTML_ACTION_LIMITS } from './validators/htmlActionValidator';
 
-// Export file validation functionality
+// Export input and file validation functionality
 export {
+    validateInputs,
+    type InputValidationResult,
     validateFileParameter,
     validateImageDimensions,
     ParameterValidator,
@@ -43,11 +45,85 @@ export {
 } from './examples/nested-actions';
 
 // New Executors Architecture
-export { BaseExecutor as Executor, type ExecutorOptions } from './executors/baseExecutor';
+export {
+    BaseExecutor as Executor,
+    type ExecutorOptions,
+    type ExecutorConfig,
+    type ExecutorMode,
+    type DirectRequestContext,
+    type MetadataValidationIssue,
+    type ValidatedMetadataResult,
+} from './executors/baseExecutor';
+export {
+    MetadataCache,
+    InMemoryLRUCache,
+    type MetadataCacheStore,
+    type MetadataCacheEntry,
+    type MetadataCacheOptions,
+} from './executors/metadataCache';
+export {
+    createFetchTransport,
+    createInMemoryTransport,
+    createTransportResponse,
+    type Transport,
+    type TransportRequest,
+    type TransportResponse,
+    type TransportHeaders,
+    type InMemoryResponse,
+} from './executors/transport';
+export { type ExecutorMiddleware, type ExecutorMiddlewareNext } from './executors/middleware';
+export {
+    type RetryPolicy,
+    type RetryableErrorKind,
+    DEFAULT_RETRY_POLICY,
+    parseRetryAfter,
+} from './executors/retryPolicy';
+export {
+    RateLimiter,
+    parseRateLimitHeaders,
+    type RateLimitOptions,
+    type RateLimitStrategy,
+    type RateLimitInfo,
+} from './executors/rateLimiter';
 export {
     DynamicActionExecutor,
     type BlockchainContext,
+    type DynamicBatchItem,
+    type BatchOptions,
+    type BatchItemResult,
     createDynamicExecutor,
     createAnonymousExecutor,
+    createDirectExecutor,
 } from './executors/dynamicExecutor';
-export { MiniAppExecutor } from './executors/miniAppExecutor';
+export {
+    HttpActionExecutor,
+    type HttpActionResult,
+    createHttpActionExecutor,
+} from './executors/httpActionExecutor';
+export {
+    MiniAppExecutor,
+    type MiniAppRequestOptions,
+    type MiniAppRequestMethod,
+    type MiniAppQueryValue,
+} from './executors/miniAppExecutor';
+export {
+    buildTransferTransaction,
+    buildBlockchainTransaction,
+    coerceInputs,
+    type TransactionRequest,
+    type BlockchainTransactionContext,
+    type TransferInputs,
+    type TransferTransactionContext,
+} from './executors/transactionBuilder';
+export {
+    decodeExecutionResponse,
+    type DecodedExecutionResponse,
+    type DecodedFunctionCall,
+    type ExecutionResponseMismatch,
+} from './executors/responseDecoder';
+export {
+    simulate,
+    type SimulationOptions,
+    type SimulationResult,
+    type SimulationRevert,
+} from './executors/simulator';
@@ -3,6 +3,7 @@ import { TransferAction } from './transferAction';
 import { HttpAction } from './httpAction';
 import { ActionFlow } from './flowAction';
 import { DynamicAction } from './dynamicAction';
+import { HTMLAction } from './htmlAction';
 import { ChainContext } from '../chains';
 
 /**
@@ -16,6 +17,7 @@ import { ChainContext } from '../chains';
  * - **HttpAction**: HTTP requests and form submissions
  * - **ActionFlow**: Complex workflows with multiple nested actions
  * - **DynamicAction**: Actions that are generated or modified at runtime
+ * - **HTMLAction**: HTML pages displayed inside the mini app
  *
  * @type {Action}
  * @version 1.0.0
@@ -58,7 +60,8 @@ export type Action =
     | TransferAction // Acción de transferencia
     | HttpAction // Acción HTTP
     | ActionFlow // Flujo de acciones anidadas
-    | DynamicAction; // Acción dinámica
+    | DynamicAction // Acción dinámica
+    | HTMLAction; // Página HTML
 
 /**
  * Union type for any type of validated action ready for execution.
@@ -71,6 +74,7 @@ export type Action =
  * - **HttpAction**: Same as in Action but may include validation metadata
  * - **ActionFlow**: Validated flow with dependency resolution
  * - **DynamicAction**: Same as in Action but with runtime validation
+ * - **HTMLAction**: Same as in Action, with an HTTPS url and size checked
  *
  * @type {ValidatedAction}
  * @version 1.0.0
@@ -108,7 +112,8 @@ export type ValidatedAction =
     | TransferAction // Acción de transferencia
     | HttpAction // Acción HTTP validada
     | ActionFlow // Flujo de acciones validado
-    | DynamicAction;
+    | DynamicAction
+    | HTMLAction;
 
 /**
  * Base interface with common properties for all actions.
@@ -191,7 +196,7 @@ export interface BaseAction {
      *
      * This property is used for TypeScript type discrimination and runtime type checking.
      * Each interface that extends BaseAction must define its own type literal.
-     * Common values include: 'blockchain', 'transfer', 'http', 'flow', 'dynamic'.
+     * Common values include: 'blockchain', 'transfer', 'http', 'flow', 'dynamic', 'html'.
      *
      * @type {string}
      * @required
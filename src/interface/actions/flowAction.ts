@@ -4,6 +4,7 @@ import { BlockchainActionMetadata } from './blockchainAction';
 import { TransferAction } from './transferAction';
 import { HttpAction } from './httpAction';
 import { DynamicAction } from './dynamicAction';
+import { HTMLAction } from './htmlAction';
 import { BaseAction } from './action';
 
 /**
@@ -32,6 +33,7 @@ export interface NestedActionBase {
     id: string; // Identificador único para la acción
     label: string; // Etiqueta para mostrar
     nextActions?: NextActionDefinition[]; // Posibles acciones siguientes
+    irreversible?: boolean; // Una vez completada no se puede volver atrás (p. ej. una transacción ya enviada)
 }
 
 /**~
@@ -43,10 +45,14 @@ export interface NestedBlockchainAction
     type: 'blockchain';
 }
 
+/**
+ * Dynamic Action con capacidad de anidación
+ */
 export interface NestedDynamicAction
     extends Omit<DynamicAction, 'label' | 'description' | 'type'>,
         NestedActionBase {
     type: 'dynamic';
+    baseUrl?: string; // URL base para paths relativos (si no, se usa la baseUrl del metadata)
 }
 
 /**
@@ -63,6 +69,13 @@ export interface NestedHttpAction extends Omit<HttpAction, 'label'>, NestedActio
     type: 'http';
 }
 
+/**
+ * HTML Action con capacidad de anidación
+ */
+export interface NestedHtmlAction extends Omit<HTMLAction, 'label'>, NestedActionBase {
+    type: 'html';
+}
+
 /**
  * Acción de finalización (pantalla final de un flujo)
  */
@@ -94,6 +107,7 @@ export type NestedAction =
     | NestedBlockchainAction
     | NestedTransferAction
     | NestedHttpAction
+    | NestedHtmlAction
     | CompletionAction
     | DecisionAction
     | NestedDynamicAction;
@@ -1,10 +1,29 @@
 import { BaseAction } from './action';
 
+/**
+ * Action that displays an HTML page, embedded in the mini app or in fullscreen.
+ *
+ * @example
+ * ```typescript
+ * const htmlAction: HTMLAction = {
+ *   type: 'html',
+ *   label: 'Open Game',
+ *   url: 'https://game.example.com',
+ *   width: 400,
+ *   height: 600,
+ *   chains: { source: 43114 }
+ * };
+ * ```
+ */
 export interface HTMLAction extends BaseAction {
     type: 'html';
     label: string;
+    /** HTTPS URL of the page to display */
     url: string;
+    /** Width of the embedded page in pixels, between 1 and 4096 */
     width?: number;
+    /** Height of the embedded page in pixels, between 1 and 4096 */
     height?: number;
+    /** Whether the page takes the whole screen, ignoring `width` and `height` */
     fullscreen?: boolean;
 }
@@ -66,7 +66,7 @@ export { INPUT_TYPES } from './actions/httpAction';
 /**
  * Re-exports all types related to Flow Actions (ActionFlow), including various
  * nested action types (`NestedAction`, `NestedBlockchainAction`, `NestedTransferAction`,
- * `NestedHttpAction`, `CompletionAction`, `DecisionAction`, `NestedDynamicAction`)
+ * `NestedHttpAction`, `NestedHtmlAction`, `CompletionAction`, `DecisionAction`, `NestedDynamicAction`)
  * and the base interface for nested actions (`NestedActionBase`).
  */
 export type * from './actions/flowAction';
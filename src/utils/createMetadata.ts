@@ -1,4 +1,11 @@
 // create-metadata.ts
-import { createMetadata } from '../validators/metadataValidator';
+import { analyzeMetadata, createMetadata } from '../validators/metadataValidator';
 // Re-export all the functions for backward compatibility
-export { createMetadata };
+export { analyzeMetadata, createMetadata };
+export {
+    VALIDATION_NOTICE_CODES,
+    type ValidationIssue,
+    type ValidationNoticeCode,
+    type ValidationReport,
+    type ValidationSeverity,
+} from '../validators/metadataValidator';
@@ -3,6 +3,7 @@ import { ContractFunctionName, isAddress } from 'viem';
 import { BlockchainActionMetadata, BlockchainAction } from '../interface/actions/blockchainAction';
 import { ChainContext, chainUtils } from '../interface/chains';
 import { SherryValidationError, ActionValidationError } from '../errors/customErrors';
+import { withErrorPath } from '../errors/errorCollector';
 import {
     isTextBasedParameter,
     isNumberBasedParameter,
@@ -60,6 +61,7 @@ export class BlockchainActionValidator {
             ) {
                 throw new ActionValidationError(
                     'The action function is not payable according to the ABI, but an "amount" was provided at the top level.',
+                    { path: 'amount' },
                 );
             }
 
@@ -69,6 +71,7 @@ export class BlockchainActionValidator {
                     // If ABI expects params but none are provided
                     throw new ActionValidationError(
                         `Function ${action.functionName} expects ${abiParams.length} parameters, but received ${action.params.length}.`,
+                        { path: 'params' },
                     );
                 }
                 // Parameter count check moved inside validateBlockchainParameters
@@ -87,6 +90,7 @@ export class BlockchainActionValidator {
             ) {
                 throw new ActionValidationError(
                     `Payable function ${action.functionName} called without a top-level 'amount' and no 'amount' parameter.`,
+                    { path: 'amount' },
                 );
             }
 
@@ -105,6 +109,7 @@ export class BlockchainActionValidator {
                 const errorMessage = error instanceof Error ? error.message : String(error);
                 throw new ActionValidationError(
                     `Unexpected error validating blockchain action: ${errorMessage}`,
+                    { cause: error },
                 );
             }
         }
@@ -119,27 +124,36 @@ export class BlockchainActionValidator {
             throw new ActionValidationError('The action must be a valid object');
         }
         if (typeof action.label !== 'string' || !action.label) {
-            throw new ActionValidationError('The action must have a valid label');
+            throw new ActionValidationError('The action must have a valid label', {
+                path: 'label',
+            });
         }
         if (!action.address || typeof action.address !== 'string' || !isAddress(action.address)) {
             throw new ActionValidationError(
                 `Invalid or missing contract address: ${action.address}`,
+                { path: 'address' },
             );
         }
         if (!Array.isArray(action.abi) || action.abi.length === 0) {
-            throw new ActionValidationError('The action must have a valid ABI (non-empty array)');
+            throw new ActionValidationError('The action must have a valid ABI (non-empty array)', {
+                path: 'abi',
+            });
         }
         if (typeof action.functionName !== 'string' || !action.functionName) {
-            throw new ActionValidationError('The action must have a valid function name');
+            throw new ActionValidationError('The action must have a valid function name', {
+                path: 'functionName',
+            });
         }
         if (!this.isValidFunction(action.abi, action.functionName)) {
             throw new ActionValidationError(
                 `The function "${action.functionName}" does not exist in the provided ABI`,
+                { path: 'functionName' },
             );
         }
         if (!this.validateChainContext(action.chains)) {
             throw new ActionValidationError(
                 'The action must have a valid chains configuration (source required)',
+                { path: 'chains' },
             );
         }
         if (
@@ -148,11 +162,14 @@ export class BlockchainActionValidator {
         ) {
             throw new ActionValidationError(
                 'If "amount" is provided, it must be a non-negative number',
+                { path: 'amount' },
             );
         }
         // Basic validation of params structure if present
         if (action.params !== undefined && !Array.isArray(action.params)) {
-            throw new ActionValidationError('If "params" is provided, it must be an array');
+            throw new ActionValidationError('If "params" is provided, it must be an array', {
+                path: 'params',
+            });
         }
     }
 
@@ -186,96 +203,104 @@ export class BlockchainActionValidator {
         if (!Array.isArray(params)) {
             throw new ActionValidationError(
                 `Parameters for function ${functionName} must be an array.`,
+                { path: 'params' },
             );
         }
         if (params.length !== abiParams.length) {
             throw new ActionValidationError(
                 `Function ${functionName} expects ${abiParams.length} parameters, but received ${params.length}.`,
+                { path: 'params' },
             );
         }
 
         for (let i = 0; i < abiParams.length; i++) {
-            const abiParam = abiParams[i];
-            const userParam = params[i];
-            const abiType = abiParam.type as AbiType; // Cast for convenience
+            withErrorPath(`params[${i}]`, () => {
+                const abiParam = abiParams[i];
+                const userParam = params[i];
+                const abiType = abiParam.type as AbiType; // Cast for convenience
 
-            // --- 1. Basic Structural Validation For All Parameter Types ---
-            this.validateBasicParameterStructure(userParam, i, functionName);
+                // --- 1. Basic Structural Validation For All Parameter Types ---
+                this.validateBasicParameterStructure(userParam, i, functionName);
 
-            if (userParam.name !== abiParam.name) {
-                throw new ActionValidationError(
-                    `Parameter name mismatch at index ${i} for function ${functionName}. Expected '${abiParam.name}', received '${userParam.name}'. Parameters must be in the same order as the ABI.`,
-                );
-            }
+                if (userParam.name !== abiParam.name) {
+                    throw new ActionValidationError(
+                        `Parameter name mismatch at index ${i} for function ${functionName}. Expected '${abiParam.name}', received '${userParam.name}'. Parameters must be in the same order as the ABI.`,
+                        { path: 'name' },
+                    );
+                }
 
-            // Validate common optional properties (description, required, fixed) that apply to all parameter types
-            this.validateCommonOptionalProperties(userParam);
-
-            // Option for debugging - uncomment if needed
-            /*
-            console.log(`Parameter ${userParam.name} validation:`, {
-                name: userParam.name,
-                type: userParam.type || 'undefined',
-                value: userParam.value,
-                fixed: userParam.fixed,
-                abiType
-            });
-            */
+                // Validate common optional properties (description, required, fixed) that apply to all parameter types
+                this.validateCommonOptionalProperties(userParam);
+
+                // Option for debugging - uncomment if needed
+                /*
+                console.log(`Parameter ${userParam.name} validation:`, {
+                    name: userParam.name,
+                    type: userParam.type || 'undefined',
+                    value: userParam.value,
+                    fixed: userParam.fixed,
+                    abiType
+                });
+                */
+
+                // --- 2. Determine Parameter Type Explicitly ---
+                try {
+                    // First, determine the type of parameter we're dealing with
+                    const paramType = userParam.type;
+
+                    // --- 3. Handle Fixed Value Validation (common to all parameter types) ---
+                    // This must be done before type-specific validation since 'fixed' is in BaseParameter
+                    if (userParam.fixed === true) {
+                        // CORREGIDO
+                        if (userParam.value === undefined) {
+                            throw new ActionValidationError(
+                                `Parameter "${userParam.name}" is marked as 'fixed: true' but is missing a 'value'.`,
+                                { path: 'value' },
+                            );
+                        }
+
+                        // Validate the fixed value's compatibility
+                        if (!this.isValueCompatible(userParam.value, abiType)) {
+                            throw new ActionValidationError(
+                                `Fixed 'value' for parameter '${userParam.name}' is not compatible with ABI type '${abiType}'. ` +
+                                    `Value: ${JSON.stringify(userParam.value)} (type: ${typeof userParam.value})`,
+                                { path: 'value' },
+                            );
+                        }
+                    }
 
-            // --- 2. Determine Parameter Type Explicitly ---
-            try {
-                // First, determine the type of parameter we're dealing with
-                const paramType = userParam.type;
-
-                // --- 3. Handle Fixed Value Validation (common to all parameter types) ---
-                // This must be done before type-specific validation since 'fixed' is in BaseParameter
-                if (userParam.fixed === true) {
-                    // CORREGIDO
-                    if (userParam.value === undefined) {
-                        throw new ActionValidationError(
-                            `Parameter "${userParam.name}" is marked as 'fixed: true' but is missing a 'value'.`,
+                    // --- 4. Type-Specific Validation ---
+                    // Now branch based on the parameter type for type-specific validation
+                    if (paramType === 'select' || paramType === 'radio') {
+                        // SELECT or RADIO parameter validation
+                        this.validateSelectionParameter(
+                            userParam as SelectParameter | RadioParameter,
+                            abiType,
+                        );
+                    } else {
+                        // STANDARD parameter validation (includes all standard types like text, number, etc)
+                        // We also determine the effective type to use for validation if none was specified
+                        const effectiveType = paramType || this.getInputTypeFromAbiType(abiType);
+                        this.validateStandardParameter(
+                            userParam as StandardParameter,
+                            abiType,
+                            effectiveType,
                         );
                     }
-
-                    // Validate the fixed value's compatibility
-                    if (!this.isValueCompatible(userParam.value, abiType)) {
+                } catch (error) {
+                    if (error instanceof ActionValidationError) {
+                        throw error; // Re-throw validation errors as is
+                    } else {
+                        // Wrap unexpected errors with more context
                         throw new ActionValidationError(
-                            `Fixed 'value' for parameter '${userParam.name}' is not compatible with ABI type '${abiType}'. ` +
-                                `Value: ${JSON.stringify(userParam.value)} (type: ${typeof userParam.value})`,
+                            `Error validating parameter '${userParam.name}': ${
+                                error instanceof Error ? error.message : String(error)
+                            }`,
+                            { cause: error },
                         );
                     }
                 }
-
-                // --- 4. Type-Specific Validation ---
-                // Now branch based on the parameter type for type-specific validation
-                if (paramType === 'select' || paramType === 'radio') {
-                    // SELECT or RADIO parameter validation
-                    this.validateSelectionParameter(
-                        userParam as SelectParameter | RadioParameter,
-                        abiType,
-                    );
-                } else {
-                    // STANDARD parameter validation (includes all standard types like text, number, etc)
-                    // We also determine the effective type to use for validation if none was specified
-                    const effectiveType = paramType || this.getInputTypeFromAbiType(abiType);
-                    this.validateStandardParameter(
-                        userParam as StandardParameter,
-                        abiType,
-                        effectiveType,
-                    );
-                }
-            } catch (error) {
-                if (error instanceof ActionValidationError) {
-                    throw error; // Re-throw validation errors as is
-                } else {
-                    // Wrap unexpected errors with more context
-                    throw new ActionValidationError(
-                        `Error validating parameter '${userParam.name}': ${
-                            error instanceof Error ? error.message : String(error)
-                        }`,
-                    );
-                }
-            }
+            });
         }
     }
 
@@ -295,10 +320,13 @@ export class BlockchainActionValidator {
         if (typeof param.name !== 'string' || !param.name) {
             throw new ActionValidationError(
                 `Parameter at index ${index} for function ${functionName} must have a valid name.`,
+                { path: 'name' },
             );
         }
         if (typeof param.label !== 'string' || !param.label) {
-            throw new ActionValidationError(`Parameter "${param.name}" must have a valid label.`);
+            throw new ActionValidationError(`Parameter "${param.name}" must have a valid label.`, {
+                path: 'label',
+            });
         }
     }
 
@@ -309,16 +337,19 @@ export class BlockchainActionValidator {
         if (param.required !== undefined && typeof param.required !== 'boolean') {
             throw new ActionValidationError(
                 `Parameter "${param.name}" has an invalid 'required' value (must be boolean).`,
+                { path: 'required' },
             );
         }
         if (param.description !== undefined && typeof param.description !== 'string') {
             throw new ActionValidationError(
                 `Parameter "${param.name}" has an invalid 'description' value (must be string).`,
+                { path: 'description' },
             );
         }
         if (param.fixed !== undefined && typeof param.fixed !== 'boolean') {
             throw new ActionValidationError(
                 `Parameter "${param.name}" has an invalid 'fixed' value (must be boolean).`,
+                { path: 'fixed' },
             );
         }
     }
@@ -335,11 +366,13 @@ export class BlockchainActionValidator {
         if (this.isAbiType(effectiveType) && effectiveType !== abiType) {
             throw new ActionValidationError(
                 `Type mismatch for parameter '${param.name}'. ABI expects '${abiType}', but received direct type '${effectiveType}'.`,
+                { path: 'type' },
             );
         }
         if (this.isUIType(effectiveType) && !this.isUITypeCompatible(effectiveType, abiType)) {
             throw new ActionValidationError(
                 `UI type '${effectiveType}' for parameter '${param.name}' is not compatible with ABI type '${abiType}'.`,
+                { path: 'type' },
             );
         }
 
@@ -349,6 +382,7 @@ export class BlockchainActionValidator {
                 throw new ActionValidationError(
                     `Default 'value' for parameter '${param.name}' is not compatible with ABI type '${abiType}'. ` +
                         `Value: ${JSON.stringify(param.value)}`,
+                    { path: 'value' },
                 );
             }
         }
@@ -371,19 +405,22 @@ export class BlockchainActionValidator {
         if (!param.options || !Array.isArray(param.options) || param.options.length === 0) {
             throw new ActionValidationError(
                 `Parameter '${param.name}' of type '${param.type}' must have a non-empty 'options' array.`,
+                { path: 'options' },
             );
         }
 
         // Validate each option
-        for (const option of param.options) {
+        for (const [index, option] of param.options.entries()) {
             if (typeof option.label !== 'string' || !option.label) {
                 throw new ActionValidationError(
                     `Parameter '${param.name}' has an option with an invalid label.`,
+                    { path: `options[${index}].label` },
                 );
             }
             if (option.value === undefined) {
                 throw new ActionValidationError(
                     `Parameter '${param.name}' has an option (label: "${option.label}") without a value.`,
+                    { path: `options[${index}].value` },
                 );
             }
             if (!this.isValueCompatible(option.value, abiType)) {
@@ -391,6 +428,7 @@ export class BlockchainActionValidator {
                     `Invalid option value '${typeof option.value === 'object' ? JSON.stringify(option.value) : option.value}' ` +
                         `(label: "${option.label}") for parameter '${param.name}'. ` +
                         `Expected value compatible with ABI type '${abiType}'.`,
+                    { path: `options[${index}].value` },
                 );
             }
         }
@@ -403,6 +441,7 @@ export class BlockchainActionValidator {
                 throw new ActionValidationError(
                     `Default 'value' for parameter '${param.name}' is not compatible with ABI type '${abiType}'. ` +
                         `Value: ${JSON.stringify(param.value)}`,
+                    { path: 'value' },
                 );
             }
 
@@ -419,6 +458,7 @@ export class BlockchainActionValidator {
                 throw new ActionValidationError(
                     `Default 'value' for parameter '${param.name}' does not match any option. ` +
                         `Value: ${JSON.stringify(param.value)}`,
+                    { path: 'value' },
                 );
             }
         }
@@ -442,6 +482,7 @@ export class BlockchainActionValidator {
             ) {
                 throw new ActionValidationError(
                     `Parameter "${param.name}" has an invalid 'minLength'.`,
+                    { path: 'minLength' },
                 );
             }
             if (
@@ -450,6 +491,7 @@ export class BlockchainActionValidator {
             ) {
                 throw new ActionValidationError(
                     `Parameter "${param.name}" has an invalid 'maxLength'.`,
+                    { path: 'maxLength' },
                 );
             }
             if (
@@ -459,6 +501,7 @@ export class BlockchainActionValidator {
             ) {
                 throw new ActionValidationError(
                     `Parameter "${param.name}" has minLength > maxLength.`,
+                    { path: 'minLength' },
                 );
             }
         }
@@ -468,15 +511,19 @@ export class BlockchainActionValidator {
             if (param.min !== undefined && typeof param.min !== 'number') {
                 throw new ActionValidationError(
                     `Parameter "${param.name}" has an invalid 'min' value.`,
+                    { path: 'min' },
                 );
             }
             if (param.max !== undefined && typeof param.max !== 'number') {
                 throw new ActionValidationError(
                     `Parameter "${param.name}" has an invalid 'max' value.`,
+                    { path: 'max' },
                 );
             }
             if (param.min !== undefined && param.max !== undefined && param.min > param.max) {
-                throw new ActionValidationError(`Parameter "${param.name}" has min > max.`);
+                throw new ActionValidationError(`Parameter "${param.name}" has min > max.`, {
+                    path: 'min',
+                });
             }
         }
 
@@ -491,6 +538,7 @@ export class BlockchainActionValidator {
             if (typeof param.pattern !== 'string') {
                 throw new ActionValidationError(
                     `Parameter "${param.name}" has an invalid 'pattern' (must be string).`,
+                    { path: 'pattern' },
                 );
             }
             try {
@@ -498,6 +546,7 @@ export class BlockchainActionValidator {
             } catch (e) {
                 throw new ActionValidationError(
                     `Parameter "${param.name}" has an invalid regex pattern: ${e instanceof Error ? e.message : e}`,
+                    { path: 'pattern' },
                 );
             }
         }
@@ -509,7 +558,7 @@ export class BlockchainActionValidator {
     private static validateSelectionOptions(param: SelectParameter | RadioParameter): void {
         // Check for duplicate values
         const uniqueValues = new Set();
-        for (const option of param.options) {
+        for (const [index, option] of param.options.entries()) {
             const valueStr =
                 typeof option.value === 'object' && option.value !== null
                     ? JSON.stringify(option.value)
@@ -518,6 +567,7 @@ export class BlockchainActionValidator {
             if (uniqueValues.has(valueStr)) {
                 throw new ActionValidationError(
                     `Parameter "${param.name}" has options with duplicate values.`,
+                    { path: `options[${index}].value` },
                 );
             }
             uniqueValues.add(valueStr);
@@ -528,6 +578,7 @@ export class BlockchainActionValidator {
         if (new Set(labels).size !== labels.length) {
             throw new ActionValidationError(
                 `Parameter "${param.name}" has options with duplicate labels.`,
+                { path: 'options' },
             );
         }
 
@@ -535,6 +586,7 @@ export class BlockchainActionValidator {
         if (param.type === 'radio' && param.options.length < 2) {
             throw new ActionValidationError(
                 `Radio parameter "${param.name}" must have at least 2 options.`,
+                { path: 'options' },
             );
         }
     }
@@ -709,7 +761,9 @@ export class BlockchainActionValidator {
             (item): item is AbiFunction => item.type === 'function' && item.name === functionName,
         );
         if (!abiFunction) {
-            throw new ActionValidationError(`Function "${functionName}" not found in the ABI`);
+            throw new ActionValidationError(`Function "${functionName}" not found in the ABI`, {
+                path: 'functionName',
+            });
         }
         return abiFunction;
     }
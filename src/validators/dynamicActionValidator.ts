@@ -1,5 +1,6 @@
 import { DynamicAction } from '../interface/actions/dynamicAction';
-import { DynamicActionValidationError } from '../errors/customErrors';
+import { DynamicActionValidationError, SherryError } from '../errors/customErrors';
+import { tryValidate, withErrorPath } from '../errors/errorCollector';
 import { ParameterValidator } from './parameterValidator';
 
 /**
@@ -18,17 +19,22 @@ export class DynamicActionValidator {
         DynamicActionValidator.validateBasicFields(action);
 
         // Validate path with baseUrl consideration
-        DynamicActionValidator.validatePath(action.path, baseUrl);
+        tryValidate(() => DynamicActionValidator.validatePath(action, baseUrl));
 
         // Validate parameters if present
         if (action.params && action.params.length > 0) {
-            DynamicActionValidator.validateParameters(action.params);
+            tryValidate(() => DynamicActionValidator.validateParameters(action.params!));
         }
 
         // Validate chains
-        if (!action.chains || !action.chains.source) {
-            throw new DynamicActionValidationError('Dynamic action must specify a source chain');
-        }
+        tryValidate(() => {
+            if (!action.chains || !action.chains.source) {
+                throw new DynamicActionValidationError(
+                    'Dynamic action must specify a source chain',
+                    { path: 'chains.source' },
+                );
+            }
+        });
 
         return action;
     }
@@ -38,40 +44,52 @@ export class DynamicActionValidator {
      */
     private static validateBasicFields(action: DynamicAction): void {
         if (!action.label || typeof action.label !== 'string') {
-            throw new DynamicActionValidationError('Dynamic action must have a valid label');
+            throw new DynamicActionValidationError('Dynamic action must have a valid label', {
+                path: 'label',
+            });
         }
 
         if (!action.type || action.type !== 'dynamic') {
-            throw new DynamicActionValidationError('Action type must be "dynamic"');
+            throw new DynamicActionValidationError('Action type must be "dynamic"', {
+                path: 'type',
+            });
         }
 
         if (action.description && typeof action.description !== 'string') {
-            throw new DynamicActionValidationError('Description must be a string if provided');
+            throw new DynamicActionValidationError('Description must be a string if provided', {
+                path: 'description',
+            });
         }
 
         if (!action.path || typeof action.path !== 'string') {
-            throw new DynamicActionValidationError('Dynamic action must have a valid path');
+            throw new DynamicActionValidationError('Dynamic action must have a valid path', {
+                path: 'path',
+            });
         }
     }
 
     /**
      * Validates the path, checking for required baseUrl with relative paths.
-     * @param path The path string from the action.
+     * @param action The action whose path is validated.
      * @param baseUrl Optional base URL from metadata.
      */
-    private static validatePath(path: string, baseUrl?: string): void {
+    private static validatePath(action: DynamicAction, baseUrl?: string): void {
+        const { path } = action;
         if (path.startsWith('http')) {
             // If it's a full URL, validate its format
             try {
                 new URL(path);
             } catch (error) {
-                throw new DynamicActionValidationError(`[ValidatePath]Invalid path URL: ${path}`);
+                throw new DynamicActionValidationError(`[ValidatePath]Invalid path URL: ${path}`, {
+                    path: 'path',
+                });
             }
         } else if (path.startsWith('/')) {
             // If it's a relative path, baseUrl MUST be present and valid
             if (!baseUrl) {
                 throw new DynamicActionValidationError(
-                    `Dynamic action has a relative path '${path}' but no baseUrl is provided in metadata.`,
+                    `Dynamic action '${action.label}' has a relative path '${path}' but no baseUrl is provided in metadata`,
+                    { path: 'path' },
                 );
             }
 
@@ -80,12 +98,14 @@ export class DynamicActionValidator {
             } catch (error) {
                 throw new DynamicActionValidationError(
                     `Invalid combination of baseUrl ('${baseUrl}') and relative path ('${path}')`,
+                    { path: 'path' },
                 );
             }
         } else {
             // Path is not a full URL and not a valid relative path
             throw new DynamicActionValidationError(
                 `Invalid path format: '${path}'. Must be a full URL or start with '/'.`,
+                { path: 'path' },
             );
         }
     }
@@ -95,17 +115,24 @@ export class DynamicActionValidator {
      */
     private static validateParameters(params: any[]): void {
         if (!Array.isArray(params)) {
-            throw new DynamicActionValidationError('Parameters must be an array');
+            throw new DynamicActionValidationError('Parameters must be an array', {
+                path: 'params',
+            });
         }
 
         // Use the existing parameter validator to validate each parameter
-        params.forEach(param => {
-            try {
-                ParameterValidator.validateParameter(param);
-            } catch (error) {
-                const message = error instanceof Error ? error.message : String(error);
-                throw new DynamicActionValidationError(`Invalid parameter: ${message}`);
-            }
+        params.forEach((param, index) => {
+            withErrorPath(`params[${index}]`, () => {
+                try {
+                    ParameterValidator.validateParameter(param);
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : String(error);
+                    throw new DynamicActionValidationError(`Invalid parameter: ${message}`, {
+                        path: error instanceof SherryError ? error.path : undefined,
+                        cause: error,
+                    });
+                }
+            });
         });
     }
 
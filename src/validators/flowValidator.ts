@@ -4,14 +4,20 @@ import {
     NestedBlockchainAction,
     NestedTransferAction,
     NestedHttpAction,
+    NestedHtmlAction,
+    NestedDynamicAction,
     DecisionAction,
     CompletionAction,
     NextActionDefinition,
 } from '../interface/actions/flowAction';
-import { InvalidMetadataError } from '../errors/customErrors';
+import { InvalidMetadataError, SherryError } from '../errors/customErrors';
+import { tryValidate, withErrorPath } from '../errors/errorCollector';
 import { HttpActionValidator } from './httpActionValidator';
+import { DynamicActionValidator } from './dynamicActionValidator';
+import { HTMLActionValidator } from './htmlActionValidator';
 import { isAddress } from 'viem';
 import { HttpAction } from '../interface';
+import { DynamicAction } from '../interface/actions/dynamicAction';
 
 /**
  * Class for validating nested action flows.
@@ -21,41 +27,58 @@ export class FlowValidator {
     /**
      * Validates a complete action flow.
      * @param flow Flow to validate
+     * @param baseUrl Optional base URL from the parent Metadata, used by dynamic steps
      * @returns Validated flow
      * @throws InvalidMetadataError if there are errors
      */
-    static validateFlow(flow: ActionFlow): ActionFlow {
-        if (!flow.label) {
-            throw new InvalidMetadataError('Flow must have a label');
-        }
+    static validateFlow(flow: ActionFlow, baseUrl?: string): ActionFlow {
+        tryValidate(() => {
+            if (!flow.label) {
+                throw new InvalidMetadataError('Flow must have a label', { path: 'label' });
+            }
+        });
 
         if (!flow.initialActionId) {
-            throw new InvalidMetadataError('Flow must have an initialActionId');
+            throw new InvalidMetadataError('Flow must have an initialActionId', {
+                path: 'initialActionId',
+            });
         }
 
         if (!Array.isArray(flow.actions) || flow.actions.length === 0) {
-            throw new InvalidMetadataError('Flow must have at least one action');
+            throw new InvalidMetadataError('Flow must have at least one action', {
+                path: 'actions',
+            });
+        }
+
+        // Steps that are not objects would break every check below
+        if (!this.validateStepShapes(flow.actions)) {
+            return flow;
         }
 
         // Verify that the initial action exists
         const initialAction = flow.actions.find(action => action.id === flow.initialActionId);
         if (!initialAction) {
-            throw new InvalidMetadataError(`Initial action '${flow.initialActionId}' not found`);
+            throw new InvalidMetadataError(`Initial action '${flow.initialActionId}' not found`, {
+                path: 'initialActionId',
+            });
         }
 
         // Check for duplicate action IDs
         const actionIds = new Set<string>();
-        for (const action of flow.actions) {
+        for (const [index, action] of flow.actions.entries()) {
             if (actionIds.has(action.id)) {
                 throw new InvalidMetadataError(
                     `Flow contains actions with duplicate ID: ${action.id}`,
+                    { path: `actions[${index}].id` },
                 );
             }
             actionIds.add(action.id);
         }
 
         // Validate each action
-        const validatedActions = flow.actions.map(action => this.validateAction(action, flow));
+        const validatedActions = flow.actions.map((action, index) =>
+            withErrorPath(`actions[${index}]`, () => this.validateAction(action, flow, baseUrl)),
+        );
 
         // Verify the integrity of the action graph
         this.validateActionGraph(flow);
@@ -66,20 +89,46 @@ export class FlowValidator {
         };
     }
 
+    /**
+     * Checks that every step of the flow is an object, reporting each one that is not.
+     * @returns Whether every step is an object
+     */
+    private static validateStepShapes(actions: unknown[]): boolean {
+        let valid = true;
+        actions.forEach((action, index) =>
+            withErrorPath(`actions[${index}]`, () => {
+                if (!action || typeof action !== 'object' || Array.isArray(action)) {
+                    valid = false;
+                    throw new InvalidMetadataError(
+                        `Flow action at index ${index} must be an object`,
+                    );
+                }
+            }),
+        );
+        return valid;
+    }
+
     /**
      * Validates a specific action within the flow.
      * @param action Action to validate
      * @param flow Complete flow (to validate references)
+     * @param baseUrl Optional base URL from the parent Metadata
      * @returns Validated action
      * @throws InvalidMetadataError if there are errors
      */
-    private static validateAction(action: NestedAction, flow: ActionFlow): NestedAction {
+    private static validateAction(
+        action: NestedAction,
+        flow: ActionFlow,
+        baseUrl?: string,
+    ): NestedAction {
         if (!action.id) {
-            throw new InvalidMetadataError('Action must have an id');
+            throw new InvalidMetadataError('Action must have an id', { path: 'id' });
         }
 
         if (!action.label) {
-            throw new InvalidMetadataError(`Action '${action.id}' must have a label`);
+            throw new InvalidMetadataError(`Action '${action.id}' must have a label`, {
+                path: 'label',
+            });
         }
 
         // Validate according to the type of action
@@ -90,6 +139,10 @@ export class FlowValidator {
                 return this.validateTransferAction(action as NestedTransferAction, flow);
             case 'http':
                 return this.validateHttpAction(action as NestedHttpAction, flow);
+            case 'html':
+                return this.validateHtmlAction(action as NestedHtmlAction, flow);
+            case 'dynamic':
+                return this.validateDynamicAction(action as NestedDynamicAction, flow, baseUrl);
             case 'decision':
                 return this.validateDecisionAction(action as DecisionAction, flow);
             case 'completion':
@@ -97,6 +150,7 @@ export class FlowValidator {
             default:
                 throw new InvalidMetadataError(
                     `Unknown action type for action '${(action as NestedAction).id}'`,
+                    { path: 'type' },
                 );
         }
     }
@@ -110,30 +164,39 @@ export class FlowValidator {
     ): NestedBlockchainAction {
         // Validate basic properties of a blockchain action
         if (!action.address) {
-            throw new InvalidMetadataError(`Blockchain action '${action.id}' must have an address`);
+            throw new InvalidMetadataError(
+                `Blockchain action '${action.id}' must have an address`,
+                {
+                    path: 'address',
+                },
+            );
         }
 
         if (!isAddress(action.address)) {
             throw new InvalidMetadataError(
                 `Blockchain action '${action.id}' has invalid address: ${action.address}`,
+                { path: 'address' },
             );
         }
 
         if (!action.functionName) {
             throw new InvalidMetadataError(
                 `Blockchain action '${action.id}' must have a functionName`,
+                { path: 'functionName' },
             );
         }
 
         if (!action.abi || !Array.isArray(action.abi) || action.abi.length === 0) {
             throw new InvalidMetadataError(
                 `Blockchain action '${action.id}' must have a valid ABI`,
+                { path: 'abi' },
             );
         }
 
         if (!action.chains || !action.chains.source) {
             throw new InvalidMetadataError(
                 `Blockchain action '${action.id}' must have a source chain`,
+                { path: 'chains.source' },
             );
         }
 
@@ -156,18 +219,21 @@ export class FlowValidator {
         if (action.to && !action.to.includes('{{') && !isAddress(action.to)) {
             throw new InvalidMetadataError(
                 `Transfer action '${action.id}' has invalid address: ${action.to}`,
+                { path: 'to' },
             );
         }
 
         if (action.amount === undefined || action.amount <= 0) {
             throw new InvalidMetadataError(
                 `Transfer action '${action.id}' must have a positive amount`,
+                { path: 'amount' },
             );
         }
 
         if (!action.chains || !action.chains.source) {
             throw new InvalidMetadataError(
                 `Transfer action '${action.id}' must have a source chain`,
+                { path: 'chains.source' },
             );
         }
 
@@ -197,23 +263,98 @@ export class FlowValidator {
 
             const validatedHttpAction = HttpActionValidator.validateHttpAction(httpAction);
 
-            // Update the validated parameters
-            action.params = validatedHttpAction.params;
-
             // Validate the next actions
             if (action.nextActions) {
                 this.validateNextActions(action.nextActions, action.id, flow);
             }
 
-            return action;
+            // Return the validated parameters without modifying the flow
+            return { ...action, params: validatedHttpAction.params };
         } catch (error) {
             if (error instanceof Error) {
                 throw new InvalidMetadataError(
                     `HTTP action '${action.id}' validation failed: ${error.message}`,
+                    {
+                        path: error instanceof SherryError ? error.path : undefined,
+                        cause: error,
+                    },
+                );
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Validates an HTML type action.
+     */
+    private static validateHtmlAction(
+        action: NestedHtmlAction,
+        flow: ActionFlow,
+    ): NestedHtmlAction {
+        try {
+            HTMLActionValidator.validateHTMLAction(action);
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new InvalidMetadataError(
+                    `HTML action '${action.id}' validation failed: ${error.message}`,
+                    {
+                        path: error instanceof SherryError ? error.path : undefined,
+                        cause: error,
+                    },
+                );
+            }
+            throw error;
+        }
+
+        // Validate the next actions
+        if (action.nextActions) {
+            this.validateNextActions(action.nextActions, action.id, flow);
+        }
+
+        return action;
+    }
+
+    /**
+     * Validates a dynamic type action.
+     * The action's own baseUrl takes precedence over the one from the metadata;
+     * otherwise the metadata baseUrl is kept on the returned action, so the step
+     * can resolve a relative path when the flow is executed.
+     */
+    private static validateDynamicAction(
+        action: NestedDynamicAction,
+        flow: ActionFlow,
+        baseUrl?: string,
+    ): NestedDynamicAction {
+        try {
+            // Use the existing dynamic validator
+            const dynamicAction: DynamicAction = {
+                type: 'dynamic',
+                label: action.label,
+                path: action.path,
+                params: action.params,
+                chains: action.chains,
+            };
+
+            DynamicActionValidator.validateDynamicAction(dynamicAction, action.baseUrl ?? baseUrl);
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new InvalidMetadataError(
+                    `Dynamic action '${action.id}' validation failed: ${error.message}`,
+                    {
+                        path: error instanceof SherryError ? error.path : undefined,
+                        cause: error,
+                    },
                 );
             }
             throw error;
         }
+
+        // Validate the next actions
+        if (action.nextActions) {
+            this.validateNextActions(action.nextActions, action.id, flow);
+        }
+
+        return action.baseUrl || !baseUrl ? action : { ...action, baseUrl };
     }
 
     /**
@@ -224,30 +365,37 @@ export class FlowValidator {
         flow: ActionFlow,
     ): DecisionAction {
         if (!action.title) {
-            throw new InvalidMetadataError(`Decision action '${action.id}' must have a title`);
+            throw new InvalidMetadataError(`Decision action '${action.id}' must have a title`, {
+                path: 'title',
+            });
         }
 
         if (!action.options || !Array.isArray(action.options) || action.options.length === 0) {
-            throw new InvalidMetadataError(`Decision action '${action.id}' must have options`);
+            throw new InvalidMetadataError(`Decision action '${action.id}' must have options`, {
+                path: 'options',
+            });
         }
 
         // Validate each option
-        action.options.forEach(option => {
+        action.options.forEach((option, index) => {
             if (!option.label) {
                 throw new InvalidMetadataError(
                     `Option in decision action '${action.id}' must have a label`,
+                    { path: `options[${index}].label` },
                 );
             }
 
             if (option.value === undefined) {
                 throw new InvalidMetadataError(
                     `Option '${option.label}' in decision action '${action.id}' must have a value`,
+                    { path: `options[${index}].value` },
                 );
             }
 
             if (!option.nextActionId) {
                 throw new InvalidMetadataError(
                     `Option '${option.label}' in decision action '${action.id}' must have a nextActionId`,
+                    { path: `options[${index}].nextActionId` },
                 );
             }
 
@@ -256,6 +404,7 @@ export class FlowValidator {
             if (!nextAction) {
                 throw new InvalidMetadataError(
                     `Next action '${option.nextActionId}' from option '${option.label}' in decision action '${action.id}' not found`,
+                    { path: `options[${index}].nextActionId` },
                 );
             }
         });
@@ -271,12 +420,15 @@ export class FlowValidator {
         _flow: ActionFlow,
     ): CompletionAction {
         if (!action.message) {
-            throw new InvalidMetadataError(`Completion action '${action.id}' must have a message`);
+            throw new InvalidMetadataError(`Completion action '${action.id}' must have a message`, {
+                path: 'message',
+            });
         }
 
         if (!['success', 'error', 'info'].includes(action.status)) {
             throw new InvalidMetadataError(
                 `Completion action '${action.id}' must have a valid status (success, error, or info)`,
+                { path: 'status' },
             );
         }
 
@@ -284,6 +436,7 @@ export class FlowValidator {
         if (action.nextActions && action.nextActions.length > 0) {
             throw new InvalidMetadataError(
                 `Completion action '${action.id}' should not have nextActions`,
+                { path: 'nextActions' },
             );
         }
 
@@ -298,10 +451,11 @@ export class FlowValidator {
         actionId: string,
         flow: ActionFlow,
     ): void {
-        nextActions.forEach(nextAction => {
+        nextActions.forEach((nextAction, index) => {
             if (!nextAction.actionId) {
                 throw new InvalidMetadataError(
                     `NextAction in action '${actionId}' must have an actionId`,
+                    { path: `nextActions[${index}].actionId` },
                 );
             }
 
@@ -310,15 +464,17 @@ export class FlowValidator {
             if (!targetAction) {
                 throw new InvalidMetadataError(
                     `Next action '${nextAction.actionId}' from action '${actionId}' not found`,
+                    { path: `nextActions[${index}].actionId` },
                 );
             }
 
             // Validate conditions if they exist
             if (nextAction.conditions) {
-                nextAction.conditions.forEach(condition => {
+                nextAction.conditions.forEach((condition, conditionIndex) => {
                     if (!condition.field) {
                         throw new InvalidMetadataError(
                             `Condition in nextAction '${nextAction.actionId}' from action '${actionId}' must have a field`,
+                            { path: `nextActions[${index}].conditions[${conditionIndex}].field` },
                         );
                     }
 
@@ -329,12 +485,16 @@ export class FlowValidator {
                     ) {
                         throw new InvalidMetadataError(
                             `Condition in nextAction '${nextAction.actionId}' from action '${actionId}' has invalid operator: ${condition.operator}`,
+                            {
+                                path: `nextActions[${index}].conditions[${conditionIndex}].operator`,
+                            },
                         );
                     }
 
                     if (condition.value === undefined) {
                         throw new InvalidMetadataError(
                             `Condition in nextAction '${nextAction.actionId}' from action '${actionId}' must have a value`,
+                            { path: `nextActions[${index}].conditions[${conditionIndex}].value` },
                         );
                     }
                 });
@@ -381,6 +541,7 @@ export class FlowValidator {
             const unreachableIds = unreachableActions.map(a => a.id).join(', ');
             throw new InvalidMetadataError(
                 `The following actions are unreachable: ${unreachableIds}`,
+                { path: 'actions' },
             );
         }
     }
@@ -1,7 +1,122 @@
 import { HTMLAction } from '../interface/actions/htmlAction';
+import { ChainContext, chainUtils } from '../interface/chains';
+import { InvalidMetadataError } from '../errors/customErrors';
+import { tryValidate } from '../errors/errorCollector';
 
+/**
+ * Size limits, in pixels, of an embedded HTML action
+ */
+export const HTML_ACTION_LIMITS = {
+    MIN_DIMENSION: 1,
+    MAX_DIMENSION: 4096,
+} as const;
+
+/**
+ * Validator class for HTML Actions
+ */
 export class HTMLActionValidator {
+    /**
+     * Validates an HTML action and returns it if valid
+     */
+    static validateHTMLAction(action: HTMLAction): HTMLAction {
+        tryValidate(() => {
+            if (!action.label || typeof action.label !== 'string') {
+                throw new InvalidMetadataError('HTML action must have a valid label', {
+                    path: 'label',
+                });
+            }
+        });
+
+        tryValidate(() => HTMLActionValidator.validateChains(action.chains));
+        tryValidate(() => HTMLActionValidator.validateUrl(action.url));
+        tryValidate(() => HTMLActionValidator.validateDimension(action.width, 'width'));
+        tryValidate(() => HTMLActionValidator.validateDimension(action.height, 'height'));
+
+        tryValidate(() => {
+            if (action.fullscreen !== undefined && typeof action.fullscreen !== 'boolean') {
+                throw new InvalidMetadataError('HTML action fullscreen must be a boolean', {
+                    path: 'fullscreen',
+                });
+            }
+        });
+
+        return action;
+    }
+
+    /**
+     * Validates the chains configuration
+     */
+    private static validateChains(chains: ChainContext): void {
+        if (!chains || typeof chains !== 'object') {
+            throw new InvalidMetadataError('Chains configuration is required', { path: 'chains' });
+        }
+
+        if (typeof chains.source !== 'number' || !chainUtils.isValidChainId(chains.source)) {
+            throw new InvalidMetadataError(`Invalid source chain: ${chains.source}`, {
+                path: 'chains.source',
+            });
+        }
+
+        if (
+            chains.destination !== undefined &&
+            (typeof chains.destination !== 'number' ||
+                !chainUtils.isValidChainId(chains.destination))
+        ) {
+            throw new InvalidMetadataError(`Invalid destination chain: ${chains.destination}`, {
+                path: 'chains.destination',
+            });
+        }
+    }
+
+    /**
+     * Validates that the URL is an absolute HTTPS URL
+     */
+    private static validateUrl(url: string): void {
+        if (!url || typeof url !== 'string') {
+            throw new InvalidMetadataError('HTML action must have a url', { path: 'url' });
+        }
+
+        let parsed: URL;
+        try {
+            parsed = new URL(url);
+        } catch {
+            throw new InvalidMetadataError(`Invalid HTML action url: ${url}`, { path: 'url' });
+        }
+
+        if (parsed.protocol !== 'https:') {
+            throw new InvalidMetadataError(`HTML action url must use HTTPS: ${url}`, {
+                path: 'url',
+            });
+        }
+    }
+
+    /**
+     * Validates that a width or height, if present, is an integer within the limits
+     */
+    private static validateDimension(value: unknown, field: 'width' | 'height'): void {
+        if (value === undefined) {
+            return;
+        }
+
+        const { MIN_DIMENSION, MAX_DIMENSION } = HTML_ACTION_LIMITS;
+        if (
+            typeof value !== 'number' ||
+            !Number.isInteger(value) ||
+            value < MIN_DIMENSION ||
+            value > MAX_DIMENSION
+        ) {
+            throw new InvalidMetadataError(
+                `HTML action ${field} must be an integer between ${MIN_DIMENSION} and ${MAX_DIMENSION}, got ${value}`,
+                { path: field },
+            );
+        }
+    }
+
+    /**
+     * Checks if an object is an HTML action. Only the type is checked, so that
+     * `validateHTMLAction` reports what is wrong with the other fields.
+     */
     static isHTMLAction(action: any): action is HTMLAction {
-        return action && action.type === 'html' && typeof action.url === 'string';
+        return !!action && typeof action === 'object' && action.type === 'html';
     }
 }
@@ -1,5 +1,6 @@
 import { HttpAction, HttpParameter } from '../interface/actions/httpAction';
 import { InvalidMetadataError } from '../errors/customErrors';
+import { withErrorPath } from '../errors/errorCollector';
 import { SelectParameter, RadioParameter, StandardParameter } from '../interface/inputs';
 
 export class HttpActionValidator {
@@ -18,60 +19,74 @@ export class HttpActionValidator {
         try {
             new URL(path);
         } catch {
-            throw new InvalidMetadataError('[HttpAction-validatepath]Invalid path URL');
+            throw new InvalidMetadataError('[HttpAction-validatepath]Invalid path URL', {
+                path: 'path',
+            });
         }
     }
 
     private static validateParameters(parameters?: HttpParameter[]): HttpParameter[] {
         if (!parameters) return [];
 
-        return parameters.map(param => {
-            // Validate basic parameter structure
-            if (!param.name || typeof param.name !== 'string') {
-                throw new InvalidMetadataError(`Invalid parameter name: ${param.name}`);
-            }
+        return parameters.map((param, index) =>
+            withErrorPath(`params[${index}]`, () => HttpActionValidator.validateParameter(param)),
+        );
+    }
 
-            // Validate label
-            if (!param.label || typeof param.label !== 'string') {
-                throw new InvalidMetadataError(`Invalid parameter label for ${param.name}`);
-            }
+    private static validateParameter(param: HttpParameter): HttpParameter {
+        // Validate basic parameter structure
+        if (!param.name || typeof param.name !== 'string') {
+            throw new InvalidMetadataError(`Invalid parameter name: ${param.name}`, {
+                path: 'name',
+            });
+        }
 
-            // Validate by parameter type
-            switch (param.type) {
-                case 'select':
-                    return HttpActionValidator.validateSelectParameter(param as SelectParameter);
-                case 'radio':
-                    return HttpActionValidator.validateRadioParameter(param as RadioParameter);
-                case 'text':
-                case 'email':
-                case 'number':
-                case 'boolean':
-                case 'url':
-                case 'datetime':
-                case 'textarea':
-                    return HttpActionValidator.validateStandardParameter(
-                        param as StandardParameter,
-                    );
-                default:
-                    throw new InvalidMetadataError(
-                        `Invalid parameter type: ${(param as any).type}`,
-                    );
-            }
-        });
+        // Validate label
+        if (!param.label || typeof param.label !== 'string') {
+            throw new InvalidMetadataError(`Invalid parameter label for ${param.name}`, {
+                path: 'label',
+            });
+        }
+
+        // Validate by parameter type
+        switch (param.type) {
+            case 'select':
+                return HttpActionValidator.validateSelectParameter(param as SelectParameter);
+            case 'radio':
+                return HttpActionValidator.validateRadioParameter(param as RadioParameter);
+            case 'text':
+            case 'email':
+            case 'number':
+            case 'boolean':
+            case 'url':
+            case 'datetime':
+            case 'textarea':
+                return HttpActionValidator.validateStandardParameter(param as StandardParameter);
+            default:
+                throw new InvalidMetadataError(`Invalid parameter type: ${(param as any).type}`, {
+                    path: 'type',
+                });
+        }
     }
 
     private static validateSelectParameter(param: SelectParameter): SelectParameter {
         if (!Array.isArray(param.options) || param.options.length === 0) {
-            throw new InvalidMetadataError(`Select parameter ${param.name} must have options`);
+            throw new InvalidMetadataError(`Select parameter ${param.name} must have options`, {
+                path: 'options',
+            });
         }
 
         // Validate each option
-        param.options.forEach(option => {
+        param.options.forEach((option, index) => {
             if (!option.label || typeof option.label !== 'string') {
-                throw new InvalidMetadataError(`Invalid option label in parameter ${param.name}`);
+                throw new InvalidMetadataError(`Invalid option label in parameter ${param.name}`, {
+                    path: `options[${index}].label`,
+                });
             }
             if (option.value === undefined || option.value === null) {
-                throw new InvalidMetadataError(`Invalid option value in parameter ${param.name}`);
+                throw new InvalidMetadataError(`Invalid option value in parameter ${param.name}`, {
+                    path: `options[${index}].value`,
+                });
             }
         });
 
@@ -80,16 +95,22 @@ export class HttpActionValidator {
 
     private static validateRadioParameter(param: RadioParameter): RadioParameter {
         if (!Array.isArray(param.options) || param.options.length === 0) {
-            throw new InvalidMetadataError(`Radio parameter ${param.name} must have options`);
+            throw new InvalidMetadataError(`Radio parameter ${param.name} must have options`, {
+                path: 'options',
+            });
         }
 
         // Validate each option
-        param.options.forEach(option => {
+        param.options.forEach((option, index) => {
             if (!option.label || typeof option.label !== 'string') {
-                throw new InvalidMetadataError(`Invalid option label in parameter ${param.name}`);
+                throw new InvalidMetadataError(`Invalid option label in parameter ${param.name}`, {
+                    path: `options[${index}].label`,
+                });
             }
             if (option.value === undefined || option.value === null) {
-                throw new InvalidMetadataError(`Invalid option value in parameter ${param.name}`);
+                throw new InvalidMetadataError(`Invalid option value in parameter ${param.name}`, {
+                    path: `options[${index}].value`,
+                });
             }
         });
 
@@ -104,6 +125,7 @@ export class HttpActionValidator {
                     if (!HttpActionValidator.isValidEmail(param.value)) {
                         throw new InvalidMetadataError(
                             `Invalid email format for default value in parameter ${param.name}`,
+                            { path: 'value' },
                         );
                     }
                     break;
@@ -111,6 +133,7 @@ export class HttpActionValidator {
                     if (!HttpActionValidator.isValidUrl(param.value)) {
                         throw new InvalidMetadataError(
                             `Invalid URL format for default value in parameter ${param.name}`,
+                            { path: 'value' },
                         );
                     }
                     break;
@@ -118,6 +141,7 @@ export class HttpActionValidator {
                     if (!HttpActionValidator.isValidDateTime(param.value)) {
                         throw new InvalidMetadataError(
                             `Invalid datetime format for default value in parameter ${param.name}`,
+                            { path: 'value' },
                         );
                     }
                     break;
@@ -130,7 +154,12 @@ export class HttpActionValidator {
             try {
                 new RegExp(param.pattern);
             } catch {
-                throw new InvalidMetadataError(`Invalid regex pattern for parameter ${param.name}`);
+                throw new InvalidMetadataError(
+                    `Invalid regex pattern for parameter ${param.name}`,
+                    {
+                        path: 'pattern',
+                    },
+                );
             }
         }
 
@@ -3,8 +3,10 @@ export { TransferActionValidator } from './transferActionValidator';
 export { HttpActionValidator } from './httpActionValidator';
 export { FlowValidator } from './flowValidator';
 export { DynamicActionValidator } from './dynamicActionValidator';
+export { HTMLActionValidator, HTML_ACTION_LIMITS } from './htmlActionValidator';
 export { MetadataValidator } from './metadataValidator';
 export { validateFileParameter, validateImageDimensions } from './fileValidator';
+export { validateInputs, assertValidInputs, type InputValidationResult } from './inputValidator';
 export {
     ParameterValidator,
     isFileParameter,
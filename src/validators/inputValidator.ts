@@ -0,0 +1,262 @@
+import { isAddress } from 'viem';
+import { InputValidationError } from '../errors/customErrors';
+import {
+    FileParameter,
+    ImageParameter,
+    NumberBasedParameter,
+    Parameter,
+    TextBasedParameter,
+} from '../interface/inputs';
+import { validateFileParameter } from './fileValidator';
+import {
+    isAddressParameter,
+    isBooleanParameter,
+    isFileParameter,
+    isImageParameter,
+    isNumberBasedParameter,
+    isRadioParameter,
+    isSelectParameter,
+    isTextBasedParameter,
+} from './parameterValidator';
+
+/**
+ * Result of validating user inputs against the parameters of an action.
+ */
+export interface InputValidationResult {
+    /** Whether every input matches its parameter */
+    isValid: boolean;
+    /**
+     * Message of each invalid input, keyed by parameter name, to display next
+     * to the field (e.g. `{ email: 'must be a valid email address' }`)
+     */
+    errors: Record<string, string>;
+}
+
+const REQUIRED_MESSAGE = 'is required';
+const EMAIL_PATTERN = /^[\w-.]+@([\w-]+\.)+[\w-]{2,}$/;
+
+/**
+ * Validates the values entered by a user against the parameter definitions of
+ * an action: required fields, lengths, patterns, numeric ranges, select and
+ * radio options, address, email and URL formats, and file types and sizes.
+ *
+ * Parameters without an input are checked with their default `value`; `fixed`
+ * parameters always use their default `value`.
+ *
+ * @param params - Parameters of the action
+ * @param inputs - Values entered by the user, keyed by parameter name
+ * @returns Whether the inputs are valid and the error of each invalid field
+ *
+ * @example
+ * ```typescript
+ * const { isValid, errors } = validateInputs(action.params, formValues);
+ *
+ * if (!isValid) {
+ *   setFieldErrors(errors); // { amount: 'must be at least 1' }
+ * }
+ * ```
+ */
+export function validateInputs(
+    params: readonly Parameter[],
+    inputs: Record<string, any> = {},
+): InputValidationResult {
+    const errors: Record<string, string> = {};
+
+    params.forEach(param => {
+        const value = param.fixed ? param.value : (inputs[param.name] ?? param.value);
+
+        const error = isEmpty(value)
+            ? param.required
+                ? REQUIRED_MESSAGE
+                : null
+            : validateValue(param, value);
+
+        if (error) {
+            errors[param.name] = error;
+        }
+    });
+
+    return { isValid: Object.keys(errors).length === 0, errors };
+}
+
+/**
+ * Validates user inputs like `validateInputs`, throwing when any is invalid.
+ * Used by the executors before sending a request.
+ *
+ * @throws {InputValidationError} With the error of each invalid field
+ */
+export function assertValidInputs(
+    params: readonly Parameter[],
+    inputs: Record<string, any> = {},
+): void {
+    const { isValid, errors } = validateInputs(params, inputs);
+    if (isValid) {
+        return;
+    }
+
+    const message = Object.entries(errors)
+        .map(([name, error]) =>
+            error === REQUIRED_MESSAGE
+                ? `Required parameter '${name}' is missing`
+                : `Invalid value for parameter '${name}': ${error}`,
+        )
+        .join('; ');
+
+    throw new InputValidationError(message, errors);
+}
+
+function isEmpty(value: unknown): boolean {
+    return (
+        value === undefined ||
+        value === null ||
+        value === '' ||
+        (Array.isArray(value) && value.length === 0)
+    );
+}
+
+function validateValue(param: Parameter, value: any): string | null {
+    if (isSelectParameter(param) || isRadioParameter(param)) {
+        return param.options.some(option => String(option.value) === String(value))
+            ? null
+            : 'must be one of the allowed options';
+    }
+
+    if (isFileParameter(param) || isImageParameter(param)) {
+        return validateFiles(param, value);
+    }
+
+    if (isBooleanParameter(param)) {
+        return typeof value === 'boolean' || value === 'true' || value === 'false'
+            ? null
+            : 'must be a boolean';
+    }
+
+    if (isAddressParameter(param)) {
+        // 'sender' is replaced by the user's address when the transaction is built
+        if (typeof value !== 'string' || (!isAddress(value) && value.toLowerCase() !== 'sender')) {
+            return 'must be a valid address';
+        }
+        return matchPattern(param.pattern, value);
+    }
+
+    if (isNumberBasedParameter(param)) {
+        return validateNumber(param, value);
+    }
+
+    if (isTextBasedParameter(param)) {
+        return validateText(param, value);
+    }
+
+    return null;
+}
+
+function validateNumber(param: NumberBasedParameter, value: any): string | null {
+    if (param.type === 'datetime') {
+        return Number.isNaN(new Date(value).getTime()) ? 'must be a valid date' : null;
+    }
+
+    const number = Number(value);
+    if (typeof value === 'boolean' || String(value).trim() === '' || !Number.isFinite(number)) {
+        return 'must be a number';
+    }
+
+    if (/^u?int/.test(param.type)) {
+        const isInteger =
+            typeof value === 'bigint' ||
+            (typeof value === 'number' && Number.isInteger(value)) ||
+            (typeof value === 'string' && /^-?\d+$/.test(value.trim()));
+        if (!isInteger) {
+            return 'must be an integer';
+        }
+        if (param.type.startsWith('uint') && number < 0) {
+            return 'must not be negative';
+        }
+    }
+
+    if (param.min !== undefined && number < param.min) {
+        return `must be at least ${param.min}`;
+    }
+    if (param.max !== undefined && number > param.max) {
+        return `must be at most ${param.max}`;
+    }
+
+    return matchPattern(param.pattern, String(value));
+}
+
+function validateText(param: TextBasedParameter, value: any): string | null {
+    const text = String(value);
+
+    if (param.type === 'email' && !EMAIL_PATTERN.test(text)) {
+        return 'must be a valid email address';
+    }
+
+    if (param.type === 'url') {
+        try {
+            new URL(text);
+        } catch {
+            return 'must be a valid URL';
+        }
+    }
+
+    if (param.minLength !== undefined && text.length < param.minLength) {
+        return `must be at least ${param.minLength} characters`;
+    }
+    if (param.maxLength !== undefined && text.length > param.maxLength) {
+        return `must be at most ${param.maxLength} characters`;
+    }
+
+    return matchPattern(param.pattern, text);
+}
+
+function validateFiles(param: FileParameter | ImageParameter, value: any): string | null {
+    const files = toFiles(value);
+    if (!files) {
+        return 'must be a file';
+    }
+
+    if (files.length > 1 && !param.multiple) {
+        return 'only one file is allowed';
+    }
+
+    for (const file of files) {
+        const error = validateFileParameter(file, param);
+        if (error) {
+            return error;
+        }
+    }
+
+    return null;
+}
+
+function toFiles(value: unknown): File[] | null {
+    if (isFile(value)) {
+        return [value];
+    }
+    if (typeof FileList !== 'undefined' && value instanceof FileList) {
+        return Array.from(value);
+    }
+    if (Array.isArray(value) && value.every(isFile)) {
+        return value;
+    }
+    return null;
+}
+
+function isFile(value: unknown): value is File {
+    return typeof File !== 'undefined' && value instanceof File;
+}
+
+function matchPattern(pattern: string | undefined, text: string): string | null {
+    if (!pattern) {
+        return null;
+    }
+
+    let regex: RegExp;
+    try {
+        regex = new RegExp(pattern);
+    } catch {
+        // Parameters that skipped metadata validation may carry a malformed pattern
+        return 'cannot be checked: the expected format is invalid';
+    }
+
+    return regex.test(text) ? null : 'does not match the expected format';
+}
@@ -1,5 +1,11 @@
 import { Metadata, ValidatedMetadata } from '../interface/metadata';
-import { SherryValidationError, DynamicActionValidationError } from '../errors/customErrors';
+import {
+    SherryError,
+    SherryErrorCode,
+    SherryValidationError,
+    DynamicActionValidationError,
+} from '../errors/customErrors';
+import { collectErrors, tryValidate, withErrorPath } from '../errors/errorCollector';
 import { Action, ValidatedAction } from '../interface/actions/action';
 import { FlowValidator } from './flowValidator';
 import { BlockchainActionValidator } from './blockchainActionValidator';
@@ -11,6 +17,8 @@ import { TransferAction } from '../interface/actions/transferAction';
 import { HttpAction } from '../interface/actions/httpAction';
 import { DynamicActionValidator } from './dynamicActionValidator';
 import { DynamicAction } from '../interface/actions/dynamicAction';
+import { HTMLActionValidator } from './htmlActionValidator';
+import { HTMLAction } from '../interface/actions/htmlAction';
 
 // Define the structure for our validator mapping
 interface ActionValidatorConfig {
@@ -50,6 +58,10 @@ const actionValidators: ActionValidatorConfig[] = [
             action: DynamicAction,
         ) => ValidatedAction,
     },
+    {
+        guard: HTMLActionValidator.isHTMLAction,
+        validate: HTMLActionValidator.validateHTMLAction as (action: HTMLAction) => ValidatedAction,
+    },
     // --- Add new action types here ---
     // { guard: NewActionValidator.isNewAction, validate: NewActionValidator.validateNewAction },
 ];
@@ -95,12 +107,15 @@ class SecurityUtils {
      */
     static validateSafeString(value: unknown, fieldName: string, maxLength: number): string {
         if (typeof value !== 'string' || value.length === 0) {
-            throw new SherryValidationError(`Metadata missing required '${fieldName}' field`);
+            throw new SherryValidationError(`Metadata missing required '${fieldName}' field`, {
+                path: fieldName,
+            });
         }
 
         if (value.length > maxLength) {
             throw new SherryValidationError(
                 `${fieldName} exceeds maximum length of ${maxLength} characters`,
+                { path: fieldName },
             );
         }
 
@@ -115,12 +130,13 @@ class SecurityUtils {
         try {
             url = new URL(urlString);
         } catch (error) {
-            throw new SherryValidationError(`Invalid ${fieldName} format`);
+            throw new SherryValidationError(`Invalid ${fieldName} format`, { path: fieldName });
         }
 
         if (!SECURITY_LIMITS.ALLOWED_PROTOCOLS.includes(url.protocol as 'https:' | 'http:')) {
             throw new SherryValidationError(
                 `${fieldName} must use HTTP or HTTPS protocol, got: ${url.protocol}`,
+                { path: fieldName },
             );
         }
 
@@ -128,6 +144,50 @@ class SecurityUtils {
     }
 }
 
+/**
+ * Codes of the warnings and notes reported by `analyzeMetadata`.
+ */
+export const VALIDATION_NOTICE_CODES = {
+    /** A URL uses HTTP instead of HTTPS */
+    INSECURE_URL: 'INSECURE_URL',
+    /** `baseUrl` is set but no dynamic action has a relative path */
+    UNUSED_BASE_URL: 'UNUSED_BASE_URL',
+} as const;
+
+export type ValidationNoticeCode =
+    (typeof VALIDATION_NOTICE_CODES)[keyof typeof VALIDATION_NOTICE_CODES];
+
+/**
+ * How serious a validation issue is. Only `error` makes the metadata invalid.
+ */
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * A problem found by `analyzeMetadata`.
+ */
+export interface ValidationIssue {
+    severity: ValidationSeverity;
+    /** Error code for errors, notice code for warnings and notes */
+    code: SherryErrorCode | ValidationNoticeCode;
+    /** JSON path of the offending value, e.g. `actions[2].params[1].options` */
+    path?: string;
+    message: string;
+}
+
+/**
+ * Result of `analyzeMetadata`.
+ */
+export interface ValidationReport {
+    /** Whether the metadata has no errors; warnings and notes are allowed */
+    isValid: boolean;
+    /** Every issue found, errors first */
+    issues: ValidationIssue[];
+    /** Errors behind the `error` issues, in the same order */
+    errors: SherryError[];
+    /** Validated metadata, present when `isValid` is true */
+    metadata?: ValidatedMetadata;
+}
+
 /**
  * Metadata validator class
  */
@@ -136,186 +196,359 @@ export class MetadataValidator {
      * Validates the basic metadata of a mini app with enhanced security
      */
     static validateBasicMetadata(metadata: unknown): boolean {
-        // First, ensure we have a safe plain object
-        if (!SecurityUtils.isPlainObject(metadata)) {
-            throw new SherryValidationError('Metadata must be a valid object');
-        }
+        this.validateTopLevelFields(metadata);
 
-        // Validate required string fields with length limits
-        const url = SecurityUtils.validateSafeString(
-            metadata.url,
-            'url',
-            SECURITY_LIMITS.MAX_URL_LENGTH,
+        (metadata as Metadata).actions.forEach((action, index) =>
+            withErrorPath(`actions[${index}]`, () => this.validateActionShape(action, index)),
         );
-        SecurityUtils.validateSafeURL(url, 'url');
 
-        SecurityUtils.validateSafeString(metadata.icon, 'icon', SECURITY_LIMITS.MAX_URL_LENGTH);
-        SecurityUtils.validateSafeURL(metadata.icon as string, 'icon');
+        return true;
+    }
 
-        SecurityUtils.validateSafeString(
-            metadata.title,
-            'title',
-            SECURITY_LIMITS.MAX_STRING_LENGTH,
-        );
+    /**
+     * Validates the relationship between baseUrl and dynamic actions
+     * Ensures that dynamic actions with relative paths have a baseUrl available
+     */
+    static validateBaseUrlAndDynamicActions(metadata: Metadata): void {
+        // Enhanced baseUrl validation with security checks
+        if (metadata.baseUrl) {
+            SecurityUtils.validateSafeURL(metadata.baseUrl, 'baseUrl');
+        }
 
-        SecurityUtils.validateSafeString(
-            metadata.description,
-            'description',
-            SECURITY_LIMITS.MAX_DESCRIPTION_LENGTH,
+        metadata.actions.forEach((action, index) =>
+            withErrorPath(`actions[${index}]`, () =>
+                this.validateDynamicBaseUrl(action, metadata.baseUrl),
+            ),
         );
+    }
 
-        // Validate actions array with enhanced security
-        if (!SecurityUtils.isRealArray(metadata.actions)) {
-            throw new SherryValidationError('Metadata must have a valid actions array');
+    /**
+     * Validates a complete Metadata object without stopping at the first problem.
+     * Every action, parameter and flow step is checked with its validator, and
+     * every issue found is reported with its severity, code and JSON path.
+     *
+     * @param metadata The unprocessed metadata (unknown type for security)
+     * @returns The report of the issues found, with the validated metadata when valid
+     */
+    static analyzeMetadata(metadata: unknown): ValidationReport {
+        const { result, errors } = collectErrors(() => this.processMetadata(metadata));
+
+        const issues: ValidationIssue[] = errors.map(error => ({
+            severity: 'error',
+            code: error.code,
+            path: error.path,
+            message: error.message,
+        }));
+        if (SecurityUtils.isPlainObject(metadata)) {
+            issues.push(...this.findNotices(metadata));
         }
 
-        const actions = metadata.actions;
-        if (actions.length === 0) {
-            throw new SherryValidationError('Metadata must include at least one action');
-        }
+        const isValid = errors.length === 0;
+        return { isValid, issues, errors, metadata: isValid ? result : undefined };
+    }
 
-        if (actions.length > SECURITY_LIMITS.MAX_ACTIONS) {
+    /**
+     * Creates and validates a complete Metadata object with enhanced security
+     * This function centralizes the validation and creation of metadata
+     *
+     * @param metadata The unprocessed metadata (unknown type for security)
+     * @returns The processed and validated metadata
+     * @throws SherryValidationError if there is any validation error, with the code
+     * and path of the first issue found and that issue's error as `cause`
+     */
+    static createMetadata(metadata: unknown): ValidatedMetadata {
+        let report: ValidationReport;
+        try {
+            report = this.analyzeMetadata(metadata);
+        } catch (error) {
             throw new SherryValidationError(
-                `Maximum ${SECURITY_LIMITS.MAX_ACTIONS} actions allowed, got ${actions.length}`,
+                error instanceof Error
+                    ? `Error processing metadata: ${error.message}`
+                    : 'Unknown error processing metadata',
+                { cause: error },
             );
         }
 
-        // Validate baseUrl if present
-        if (metadata.baseUrl !== undefined) {
-            const baseUrl = SecurityUtils.validateSafeString(
-                metadata.baseUrl,
-                'baseUrl',
+        if (report.metadata) {
+            return report.metadata;
+        }
+
+        // Re-throw the first error, keeping the specific error types
+        const [error] = report.errors;
+        if (
+            error instanceof SherryValidationError ||
+            error instanceof DynamicActionValidationError
+        ) {
+            throw error;
+        }
+        const wrapped = new SherryValidationError(`Error processing metadata: ${error.message}`, {
+            path: error.path,
+            cause: error,
+        });
+        wrapped.code = error.code;
+        throw wrapped;
+    }
+
+    /**
+     * Validates the metadata and its actions. Each top-level field and each
+     * action is a separate step, so `analyzeMetadata` can report all of them.
+     */
+    private static processMetadata(metadata: unknown): ValidatedMetadata {
+        // 1. Enhanced security validation of metadata structure
+        this.validateTopLevelFields(metadata);
+
+        // Cast to Metadata after security validation
+        const safeMetadata = metadata as Metadata;
+
+        // 2. Process each action with its appropriate validator
+        const processedActions = safeMetadata.actions.map(
+            (action, index): ValidatedAction =>
+                withErrorPath(`actions[${index}]`, () => {
+                    try {
+                        this.validateActionShape(action, index);
+                        // Dynamic actions check their relative path against the baseUrl
+                        // themselves, next to their other fields
+                        return this.validateAction(action, safeMetadata.baseUrl);
+                    } catch (error) {
+                        if (error instanceof SherryError) {
+                            throw error;
+                        }
+                        throw new SherryValidationError(
+                            error instanceof Error
+                                ? `Error processing metadata: ${error.message}`
+                                : 'Unknown error processing metadata',
+                            { cause: error },
+                        );
+                    }
+                }),
+        );
+
+        // 3. Return the processed metadata with validated actions
+        return {
+            url: safeMetadata.url,
+            icon: safeMetadata.icon,
+            title: safeMetadata.title,
+            description: safeMetadata.description,
+            baseUrl: safeMetadata.baseUrl,
+            actions: processedActions,
+        };
+    }
+
+    /**
+     * Validates the fields of the metadata other than the actions themselves.
+     */
+    private static validateTopLevelFields(metadata: unknown): void {
+        // First, ensure we have a safe plain object
+        if (!SecurityUtils.isPlainObject(metadata)) {
+            throw new SherryValidationError('Metadata must be a valid object');
+        }
+
+        // Validate required string fields with length limits
+        tryValidate(() => {
+            const url = SecurityUtils.validateSafeString(
+                metadata.url,
+                'url',
+                SECURITY_LIMITS.MAX_URL_LENGTH,
+            );
+            SecurityUtils.validateSafeURL(url, 'url');
+        });
+
+        tryValidate(() => {
+            const icon = SecurityUtils.validateSafeString(
+                metadata.icon,
+                'icon',
                 SECURITY_LIMITS.MAX_URL_LENGTH,
             );
-            SecurityUtils.validateSafeURL(baseUrl, 'baseUrl');
+            SecurityUtils.validateSafeURL(icon, 'icon');
+        });
+
+        tryValidate(() =>
+            SecurityUtils.validateSafeString(
+                metadata.title,
+                'title',
+                SECURITY_LIMITS.MAX_STRING_LENGTH,
+            ),
+        );
+
+        tryValidate(() =>
+            SecurityUtils.validateSafeString(
+                metadata.description,
+                'description',
+                SECURITY_LIMITS.MAX_DESCRIPTION_LENGTH,
+            ),
+        );
+
+        // Validate actions array with enhanced security
+        if (!SecurityUtils.isRealArray(metadata.actions)) {
+            throw new SherryValidationError('Metadata must have a valid actions array', {
+                path: 'actions',
+            });
         }
 
-        // Validate each action with enhanced security
-        actions.forEach((action, index) => {
-            if (!SecurityUtils.isPlainObject(action)) {
-                throw new SherryValidationError(`Action at index ${index} must be a valid object`);
+        const actions = metadata.actions;
+        tryValidate(() => {
+            if (actions.length === 0) {
+                throw new SherryValidationError('Metadata must include at least one action', {
+                    path: 'actions',
+                });
             }
 
-            if (typeof action.type !== 'string') {
+            if (actions.length > SECURITY_LIMITS.MAX_ACTIONS) {
                 throw new SherryValidationError(
-                    `Action at index ${index} is missing required 'type' property`,
+                    `Maximum ${SECURITY_LIMITS.MAX_ACTIONS} actions allowed, got ${actions.length}`,
+                    { path: 'actions' },
                 );
             }
+        });
 
-            const validTypes = ['blockchain', 'transfer', 'http', 'dynamic', 'flow'];
-            if (!validTypes.includes(action.type)) {
-                throw new SherryValidationError(
-                    `Action at index ${index} has invalid type: '${action.type}'. Must be one of: ${validTypes.join(', ')}`,
+        // Validate baseUrl if present
+        if (metadata.baseUrl !== undefined) {
+            tryValidate(() => {
+                const baseUrl = SecurityUtils.validateSafeString(
+                    metadata.baseUrl,
+                    'baseUrl',
+                    SECURITY_LIMITS.MAX_URL_LENGTH,
                 );
-            }
-        });
+                SecurityUtils.validateSafeURL(baseUrl, 'baseUrl');
+            });
+        }
+    }
 
-        return true;
+    /**
+     * Validates that an action is an object with a known type.
+     */
+    private static validateActionShape(action: unknown, index: number): void {
+        if (!SecurityUtils.isPlainObject(action)) {
+            throw new SherryValidationError(`Action at index ${index} must be a valid object`);
+        }
+
+        if (typeof action.type !== 'string') {
+            throw new SherryValidationError(
+                `Action at index ${index} is missing required 'type' property`,
+                { path: 'type' },
+            );
+        }
+
+        const validTypes = ['blockchain', 'transfer', 'http', 'dynamic', 'flow', 'html'];
+        if (!validTypes.includes(action.type)) {
+            throw new SherryValidationError(
+                `Action at index ${index} has invalid type: '${action.type}'. Must be one of: ${validTypes.join(', ')}`,
+                { path: 'type' },
+            );
+        }
     }
 
     /**
-     * Validates the relationship between baseUrl and dynamic actions
-     * Ensures that dynamic actions with relative paths have a baseUrl available
+     * Validates that a dynamic action with a relative path has a baseUrl available.
      */
-    static validateBaseUrlAndDynamicActions(metadata: Metadata): void {
-        // Enhanced baseUrl validation with security checks
-        if (metadata.baseUrl) {
-            SecurityUtils.validateSafeURL(metadata.baseUrl, 'baseUrl');
+    private static validateDynamicBaseUrl(action: Action, baseUrl?: string): void {
+        if (action.type !== 'dynamic') {
+            return;
+        }
+
+        // Si el path es relativo pero no hay baseUrl, es un error
+        if (action.path && action.path.startsWith('/') && !baseUrl) {
+            throw new DynamicActionValidationError(
+                `Dynamic action '${action.label}' has a relative path '${action.path}' but no baseUrl is provided in metadata`,
+                { path: 'path' },
+            );
         }
+    }
 
-        // Comprueba si hay DynamicActions que requieran una baseUrl
-        const dynamicActions = metadata.actions.filter(
-            action => action.type === 'dynamic',
-        ) as DynamicAction[];
+    /**
+     * Finds the warnings and notes of a metadata object: URLs that do not use
+     * HTTPS and a baseUrl that no action needs.
+     */
+    private static findNotices(metadata: Record<string, unknown>): ValidationIssue[] {
+        const notices: ValidationIssue[] = [];
+        const actions = SecurityUtils.isRealArray(metadata.actions) ? metadata.actions : [];
+
+        const checkProtocol = (value: unknown, path: string) => {
+            if (typeof value === 'string' && value.startsWith('http://')) {
+                notices.push({
+                    severity: 'warning',
+                    code: VALIDATION_NOTICE_CODES.INSECURE_URL,
+                    path,
+                    message: `${path} uses HTTP instead of HTTPS`,
+                });
+            }
+        };
 
-        if (dynamicActions.length > 0) {
-            // Para cada DynamicAction, verifica que tenga acceso a una URL completa
-            dynamicActions.forEach(action => {
-                // Si el path es relativo pero no hay baseUrl, es un error
-                if (action.path && action.path.startsWith('/') && !metadata.baseUrl) {
-                    throw new DynamicActionValidationError(
-                        `Dynamic action '${action.label}' has a relative path '${action.path}' but no baseUrl is provided in metadata`,
-                    );
-                }
+        checkProtocol(metadata.url, 'url');
+        checkProtocol(metadata.icon, 'icon');
+        checkProtocol(metadata.baseUrl, 'baseUrl');
+        actions.forEach((action, index) => {
+            if (SecurityUtils.isPlainObject(action)) {
+                checkProtocol(action.path, `actions[${index}].path`);
+            }
+        });
+
+        const isRelativeDynamic = (action: unknown): boolean =>
+            SecurityUtils.isPlainObject(action) &&
+            action.type === 'dynamic' &&
+            typeof action.path === 'string' &&
+            action.path.startsWith('/') &&
+            action.baseUrl === undefined;
+        const usesBaseUrl = actions.some(
+            action =>
+                isRelativeDynamic(action) ||
+                (SecurityUtils.isPlainObject(action) &&
+                    action.type === 'flow' &&
+                    SecurityUtils.isRealArray(action.actions) &&
+                    action.actions.some(isRelativeDynamic)),
+        );
+        if (typeof metadata.baseUrl === 'string' && !usesBaseUrl) {
+            notices.push({
+                severity: 'info',
+                code: VALIDATION_NOTICE_CODES.UNUSED_BASE_URL,
+                path: 'baseUrl',
+                message: 'baseUrl is set but no dynamic action has a relative path',
             });
         }
+
+        return notices;
     }
 
     /**
-     * Creates and validates a complete Metadata object with enhanced security
-     * This function centralizes the validation and creation of metadata
-     *
-     * @param metadata The unprocessed metadata (unknown type for security)
-     * @returns The processed and validated metadata
-     * @throws SherryValidationError if there is any validation error
+     * Validates a single action of the metadata with the validator of its type.
      */
-    static createMetadata(metadata: unknown): ValidatedMetadata {
-        try {
-            // 1. Enhanced security validation of metadata structure
-            this.validateBasicMetadata(metadata);
-
-            // Cast to Metadata after security validation
-            const safeMetadata = metadata as Metadata;
-
-            // 2. Validate baseUrl and dynamic actions relationship
-            // This ensures dynamic actions with relative paths have a baseUrl
-            this.validateBaseUrlAndDynamicActions(safeMetadata);
-
-            // 3. Process each action with its appropriate validator
-            const processedActions = safeMetadata.actions.map((action): ValidatedAction => {
-                const validatorConfig = actionValidators.find(v => v.guard(action));
-
-                if (validatorConfig) {
-                    // Check if it's the dynamic action validator and pass baseUrl
-                    if (validatorConfig.guard === DynamicActionValidator.isDynamicAction) {
-                        try {
-                            return (validatorConfig.validate as DynamicActionValidateFn)(
-                                action as DynamicAction,
-                                safeMetadata.baseUrl,
-                            );
-                        } catch (error) {
-                            if (error instanceof Error) {
-                                throw new DynamicActionValidationError(
-                                    `Dynamic action '${action.label}' validation failed: ${error.message}`,
-                                );
-                            }
-                            throw error;
-                        }
-                    } else {
-                        // For other validators, call normally
-                        return (validatorConfig.validate as (action: Action) => ValidatedAction)(
-                            action,
-                        );
-                    }
-                } else {
-                    throw new SherryValidationError(
-                        `Invalid Action: Unknown action type for action with label "${action.label ?? 'N/A'}"`,
+    private static validateAction(action: Action, baseUrl?: string): ValidatedAction {
+        const validatorConfig = actionValidators.find(v => v.guard(action));
+
+        if (!validatorConfig) {
+            throw new SherryValidationError(
+                `Invalid Action: Unknown action type for action with label "${action.label ?? 'N/A'}"`,
+            );
+        }
+
+        // Check if it's the dynamic action validator and pass baseUrl
+        if (validatorConfig.guard === DynamicActionValidator.isDynamicAction) {
+            try {
+                return (validatorConfig.validate as DynamicActionValidateFn)(
+                    action as DynamicAction,
+                    baseUrl,
+                );
+            } catch (error) {
+                if (error instanceof Error) {
+                    throw new DynamicActionValidationError(
+                        `Dynamic action '${action.label}' validation failed: ${error.message}`,
+                        {
+                            path: error instanceof SherryError ? error.path : undefined,
+                            cause: error,
+                        },
                     );
                 }
-            });
-
-            // 4. Return the processed metadata with validated actions
-            return {
-                url: safeMetadata.url,
-                icon: safeMetadata.icon,
-                title: safeMetadata.title,
-                description: safeMetadata.description,
-                baseUrl: safeMetadata.baseUrl,
-                actions: processedActions as ValidatedAction[],
-            };
-        } catch (error) {
-            // Re-throw specific error types
-            if (
-                error instanceof SherryValidationError ||
-                error instanceof DynamicActionValidationError
-            ) {
                 throw error;
-            } else if (error instanceof Error) {
-                throw new SherryValidationError(`Error processing metadata: ${error.message}`);
-            } else {
-                throw new SherryValidationError(`Unknown error processing metadata`);
             }
         }
+
+        if (validatorConfig.guard === FlowValidator.isActionFlow) {
+            // Flows may contain dynamic steps with relative paths
+            return FlowValidator.validateFlow(action as ActionFlow, baseUrl);
+        }
+
+        // For other validators, call normally
+        return (validatorConfig.validate as (action: Action) => ValidatedAction)(action);
     }
 }
 
@@ -323,3 +556,20 @@ export class MetadataValidator {
 export function createMetadata(metadata: unknown): ValidatedMetadata {
     return MetadataValidator.createMetadata(metadata);
 }
+
+/**
+ * Validates a complete Metadata object and reports every issue found instead of
+ * throwing on the first one.
+ *
+ * @example
+ * ```typescript
+ * const report = analyzeMetadata(metadata);
+ *
+ * for (const issue of report.issues) {
+ *   console.log(`${issue.severity} ${issue.code} at ${issue.path}: ${issue.message}`);
+ * }
+ * ```
+ */
+export function analyzeMetadata(metadata: unknown): ValidationReport {
+    return MetadataValidator.analyzeMetadata(metadata);
+}
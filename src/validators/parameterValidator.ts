@@ -61,12 +61,15 @@ export class ParameterValidator {
     static validateBaseParameter(param: BaseParameter): void {
         // Verify required fields
         if (!param.name) {
-            throw new SherryValidationError(`Parameter missing required 'name' field`);
+            throw new SherryValidationError(`Parameter missing required 'name' field`, {
+                path: 'name',
+            });
         }
 
         if (!param.label) {
             throw new SherryValidationError(
                 `Parameter '${param.name}' missing required 'label' field`,
+                { path: 'label' },
             );
         }
 
@@ -74,6 +77,7 @@ export class ParameterValidator {
         if (!param.type) {
             throw new SherryValidationError(
                 `Parameter '${param.name}' missing required 'type' field`,
+                { path: 'type' },
             );
         }
     }
@@ -87,21 +91,24 @@ export class ParameterValidator {
         if (!param.options || !Array.isArray(param.options) || param.options.length === 0) {
             throw new SherryValidationError(
                 `${param.type} parameter '${param.name}' must have at least one option`,
+                { path: 'options' },
             );
         }
 
         // Check for duplicate options
         const values = new Set();
-        param.options.forEach(opt => {
+        param.options.forEach((opt, index) => {
             if (!opt.label) {
                 throw new SherryValidationError(
                     `Option missing required 'label' in parameter '${param.name}'`,
+                    { path: `options[${index}].label` },
                 );
             }
 
             if (opt.value === undefined) {
                 throw new SherryValidationError(
                     `Option missing required 'value' in parameter '${param.name}'`,
+                    { path: `options[${index}].value` },
                 );
             }
 
@@ -114,6 +121,7 @@ export class ParameterValidator {
             if (values.has(valueKey)) {
                 throw new SherryValidationError(
                     `Duplicate value '${opt.value}' in ${param.type} parameter '${param.name}'`,
+                    { path: `options[${index}].value` },
                 );
             }
             values.add(valueKey);
@@ -123,6 +131,7 @@ export class ParameterValidator {
         if (param.type === 'radio' && param.options.length < 2) {
             throw new SherryValidationError(
                 `Radio parameter '${param.name}' must have at least 2 options`,
+                { path: 'options' },
             );
         }
     }
@@ -138,6 +147,7 @@ export class ParameterValidator {
             if (param.minLength > param.maxLength) {
                 throw new SherryValidationError(
                     `Parameter '${param.name}' has minLength (${param.minLength}) greater than maxLength (${param.maxLength})`,
+                    { path: 'minLength' },
                 );
             }
         }
@@ -149,6 +159,7 @@ export class ParameterValidator {
             } catch (error) {
                 throw new SherryValidationError(
                     `Invalid regex pattern for parameter '${param.name}': ${error}`,
+                    { path: 'pattern' },
                 );
             }
         }
@@ -163,6 +174,7 @@ export class ParameterValidator {
             if (!emailRegex.test(param.value)) {
                 throw new SherryValidationError(
                     `Invalid email format for parameter '${param.name}': ${param.value}`,
+                    { path: 'value' },
                 );
             }
         }
@@ -173,6 +185,7 @@ export class ParameterValidator {
             } catch {
                 throw new SherryValidationError(
                     `Invalid URL format for parameter '${param.name}': ${param.value}`,
+                    { path: 'value' },
                 );
             }
         }
@@ -189,6 +202,7 @@ export class ParameterValidator {
             if (param.min > param.max) {
                 throw new SherryValidationError(
                     `Parameter '${param.name}' has min (${param.min}) greater than max (${param.max})`,
+                    { path: 'min' },
                 );
             }
         }
@@ -200,6 +214,7 @@ export class ParameterValidator {
             } catch (error) {
                 throw new SherryValidationError(
                     `Invalid regex pattern for parameter '${param.name}': ${error}`,
+                    { path: 'pattern' },
                 );
             }
         }
@@ -211,11 +226,13 @@ export class ParameterValidator {
                     if (!/^-?\d+(\.\d+)?$/.test(param.value)) {
                         throw new SherryValidationError(
                             `Invalid number format for parameter '${param.name}': ${param.value}`,
+                            { path: 'value' },
                         );
                     }
                 } else {
                     throw new SherryValidationError(
                         `Invalid value type for number parameter '${param.name}': ${typeof param.value}`,
+                        { path: 'value' },
                     );
                 }
             }
@@ -226,6 +243,7 @@ export class ParameterValidator {
                 if (numValue < param.min) {
                     throw new SherryValidationError(
                         `Value ${numValue} is less than minimum ${param.min} for parameter '${param.name}'`,
+                        { path: 'value' },
                     );
                 }
             }
@@ -235,6 +253,7 @@ export class ParameterValidator {
                 if (numValue > param.max) {
                     throw new SherryValidationError(
                         `Value ${numValue} is greater than maximum ${param.max} for parameter '${param.name}'`,
+                        { path: 'value' },
                     );
                 }
             }
@@ -254,6 +273,7 @@ export class ParameterValidator {
             } catch (error) {
                 throw new SherryValidationError(
                     `Invalid regex pattern for parameter '${param.name}': ${error}`,
+                    { path: 'pattern' },
                 );
             }
         }
@@ -264,6 +284,7 @@ export class ParameterValidator {
             if (param.value !== 'sender' && !isAddress(param.value)) {
                 throw new SherryValidationError(
                     `Invalid address format for parameter '${param.name}': ${param.value}`,
+                    { path: 'value' },
                 );
             }
         }
@@ -279,6 +300,7 @@ export class ParameterValidator {
         if (param.value !== undefined && typeof param.value !== 'boolean') {
             throw new SherryValidationError(
                 `Invalid boolean value for parameter '${param.name}': ${param.value}`,
+                { path: 'value' },
             );
         }
     }
@@ -294,6 +316,7 @@ export class ParameterValidator {
             if (typeof param.maxSize !== 'number' || param.maxSize <= 0) {
                 throw new SherryValidationError(
                     `Parameter '${param.name}' has invalid maxSize (must be a positive number)`,
+                    { path: 'maxSize' },
                 );
             }
         }
@@ -303,6 +326,7 @@ export class ParameterValidator {
             if (typeof param.accept !== 'string' || param.accept.trim() === '') {
                 throw new SherryValidationError(
                     `Parameter '${param.name}' has invalid accept value (must be a non-empty string)`,
+                    { path: 'accept' },
                 );
             }
         }
@@ -311,6 +335,7 @@ export class ParameterValidator {
         if (param.multiple !== undefined && typeof param.multiple !== 'boolean') {
             throw new SherryValidationError(
                 `Parameter '${param.name}' has invalid multiple value (must be boolean)`,
+                { path: 'multiple' },
             );
         }
     }
@@ -326,6 +351,7 @@ export class ParameterValidator {
             if (typeof param.maxSize !== 'number' || param.maxSize <= 0) {
                 throw new SherryValidationError(
                     `Parameter '${param.name}' has invalid maxSize (must be a positive number)`,
+                    { path: 'maxSize' },
                 );
             }
         }
@@ -334,6 +360,7 @@ export class ParameterValidator {
             if (typeof param.accept !== 'string' || param.accept.trim() === '') {
                 throw new SherryValidationError(
                     `Parameter '${param.name}' has invalid accept value (must be a non-empty string)`,
+                    { path: 'accept' },
                 );
             }
         }
@@ -341,6 +368,7 @@ export class ParameterValidator {
         if (param.multiple !== undefined && typeof param.multiple !== 'boolean') {
             throw new SherryValidationError(
                 `Parameter '${param.name}' has invalid multiple value (must be boolean)`,
+                { path: 'multiple' },
             );
         }
 
@@ -349,6 +377,7 @@ export class ParameterValidator {
             if (typeof param.maxWidth !== 'number' || param.maxWidth <= 0) {
                 throw new SherryValidationError(
                     `Parameter '${param.name}' has invalid maxWidth (must be a positive number)`,
+                    { path: 'maxWidth' },
                 );
             }
         }
@@ -357,6 +386,7 @@ export class ParameterValidator {
             if (typeof param.maxHeight !== 'number' || param.maxHeight <= 0) {
                 throw new SherryValidationError(
                     `Parameter '${param.name}' has invalid maxHeight (must be a positive number)`,
+                    { path: 'maxHeight' },
                 );
             }
         }
@@ -365,6 +395,7 @@ export class ParameterValidator {
             if (typeof param.aspectRatio !== 'string') {
                 throw new SherryValidationError(
                     `Parameter '${param.name}' has invalid aspectRatio (must be a string)`,
+                    { path: 'aspectRatio' },
                 );
             }
 
@@ -373,6 +404,7 @@ export class ParameterValidator {
             if (!aspectRatioRegex.test(param.aspectRatio)) {
                 throw new SherryValidationError(
                     `Parameter '${param.name}' has invalid aspectRatio format (must be like "16:9", "4:3", etc.)`,
+                    { path: 'aspectRatio' },
                 );
             }
 
@@ -381,6 +413,7 @@ export class ParameterValidator {
             if (width <= 0 || height <= 0) {
                 throw new SherryValidationError(
                     `Parameter '${param.name}' has invalid aspectRatio (both width and height must be positive)`,
+                    { path: 'aspectRatio' },
                 );
             }
         }
@@ -410,6 +443,7 @@ export class ParameterValidator {
             // Improved error message for unknown parameter types
             throw new SherryValidationError(
                 `Unknown parameter type: ${param.type ? `"${param.type}"` : 'undefined'} for parameter "${param.name || 'unnamed'}"`,
+                { path: 'type' },
             );
         }
     }
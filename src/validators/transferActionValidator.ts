@@ -2,6 +2,7 @@ import { isAddress } from 'viem';
 import { TransferAction } from '../interface/actions/transferAction';
 import { ChainContext, chainUtils } from '../interface/chains';
 import { InvalidMetadataError } from '../errors/customErrors';
+import { tryValidate } from '../errors/errorCollector';
 
 /**
  * Validator class for Transfer Actions
@@ -11,17 +12,11 @@ export class TransferActionValidator {
      * Validates a transfer action and returns it if valid
      */
     static validateTransferAction(action: TransferAction): TransferAction {
-        // Validate basic fields
-        TransferActionValidator.validateBasicFields(action);
-
-        // Validate chains
-        TransferActionValidator.validateChains(action.chains);
-
-        // Validate recipient
-        TransferActionValidator.validateRecipient(action);
-
-        // Validate amount
-        TransferActionValidator.validateAmount(action);
+        // Each part is checked on its own, so every problem is reported
+        tryValidate(() => TransferActionValidator.validateBasicFields(action));
+        tryValidate(() => TransferActionValidator.validateChains(action.chains));
+        tryValidate(() => TransferActionValidator.validateRecipient(action));
+        tryValidate(() => TransferActionValidator.validateAmount(action));
 
         return action;
     }
@@ -31,7 +26,9 @@ export class TransferActionValidator {
      */
     private static validateBasicFields(action: TransferAction): void {
         if (!action.label || typeof action.label !== 'string') {
-            throw new InvalidMetadataError('Transfer action must have a valid label');
+            throw new InvalidMetadataError('Transfer action must have a valid label', {
+                path: 'label',
+            });
         }
     }
 
@@ -40,15 +37,19 @@ export class TransferActionValidator {
      */
     private static validateChains(chains: ChainContext): void {
         if (!chains || typeof chains !== 'object') {
-            throw new InvalidMetadataError('Chains configuration is required');
+            throw new InvalidMetadataError('Chains configuration is required', { path: 'chains' });
         }
 
         if (chains.source === undefined || typeof chains.source !== 'number') {
-            throw new InvalidMetadataError('Source chain is required and must be a number');
+            throw new InvalidMetadataError('Source chain is required and must be a number', {
+                path: 'chains.source',
+            });
         }
 
         if (!chainUtils.isValidChainId(chains.source)) {
-            throw new InvalidMetadataError(`Invalid source chain: ${chains.source}`);
+            throw new InvalidMetadataError(`Invalid source chain: ${chains.source}`, {
+                path: 'chains.source',
+            });
         }
 
         if (chains.destination !== undefined) {
@@ -56,7 +57,9 @@ export class TransferActionValidator {
                 typeof chains.destination !== 'number' ||
                 !chainUtils.isValidChainId(chains.destination)
             ) {
-                throw new InvalidMetadataError(`Invalid destination chain: ${chains.destination}`);
+                throw new InvalidMetadataError(`Invalid destination chain: ${chains.destination}`, {
+                    path: 'chains.destination',
+                });
             }
         }
     }
@@ -68,23 +71,30 @@ export class TransferActionValidator {
         // Direct recipient address
         if (action.to !== undefined) {
             if (typeof action.to !== 'string') {
-                throw new InvalidMetadataError('Recipient address must be a string');
+                throw new InvalidMetadataError('Recipient address must be a string', {
+                    path: 'to',
+                });
             }
 
             if (!isAddress(action.to)) {
-                throw new InvalidMetadataError(`Invalid recipient address: ${action.to}`);
+                throw new InvalidMetadataError(`Invalid recipient address: ${action.to}`, {
+                    path: 'to',
+                });
             }
         }
 
         // Recipient configuration object
         if (action.recipient !== undefined) {
             if (typeof action.recipient !== 'object' || action.recipient === null) {
-                throw new InvalidMetadataError('Recipient configuration must be an object');
+                throw new InvalidMetadataError('Recipient configuration must be an object', {
+                    path: 'recipient',
+                });
             }
 
             if (!['select', 'input'].includes(action.recipient.type || '')) {
                 throw new InvalidMetadataError(
                     `Invalid recipient input type: ${action.recipient.type}`,
+                    { path: 'recipient.type' },
                 );
             }
 
@@ -94,6 +104,7 @@ export class TransferActionValidator {
             ) {
                 throw new InvalidMetadataError(
                     'Recipient select options must be a non-empty array',
+                    { path: 'recipient.options' },
                 );
             }
         }
@@ -109,14 +120,18 @@ export class TransferActionValidator {
         // Direct amount
         if (action.amount !== undefined) {
             if (typeof action.amount !== 'number' || action.amount <= 0) {
-                throw new InvalidMetadataError('Amount must be a positive number');
+                throw new InvalidMetadataError('Amount must be a positive number', {
+                    path: 'amount',
+                });
             }
         }
 
         // Amount configuration object
         if (action.amountConfig !== undefined) {
             if (typeof action.amountConfig !== 'object' || action.amountConfig === null) {
-                throw new InvalidMetadataError('Amount configuration must be an object');
+                throw new InvalidMetadataError('Amount configuration must be an object', {
+                    path: 'amountConfig',
+                });
             }
 
             if (
@@ -125,6 +140,7 @@ export class TransferActionValidator {
             ) {
                 throw new InvalidMetadataError(
                     `Invalid amount input type: ${action.amountConfig.type}`,
+                    { path: 'amountConfig.type' },
                 );
             }
 
@@ -133,14 +149,18 @@ export class TransferActionValidator {
                 (!Array.isArray(action.amountConfig.options) ||
                     action.amountConfig.options.length === 0)
             ) {
-                throw new InvalidMetadataError('Amount options must be a non-empty array');
+                throw new InvalidMetadataError('Amount options must be a non-empty array', {
+                    path: 'amountConfig.options',
+                });
             }
 
             if (
                 action.amountConfig.defaultValue !== undefined &&
                 typeof action.amountConfig.defaultValue !== 'number'
             ) {
-                throw new InvalidMetadataError('Default amount must be a number');
+                throw new InvalidMetadataError('Default amount must be a number', {
+                    path: 'amountConfig.defaultValue',
+                });
             }
         }
     }
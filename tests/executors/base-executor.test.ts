@@ -0,0 +1,375 @@
+import { describe, expect, it, jest, beforeEach, afterEach } from '@jest/globals';
+import fetchMock from 'jest-fetch-mock';
+import { MiniAppExecutor } from '../../src/executors/miniAppExecutor';
+import { DynamicActionExecutor } from '../../src/executors/dynamicExecutor';
+import { DynamicAction } from '../../src/interface/actions/dynamicAction';
+import {
+    DEFAULT_RETRY_POLICY,
+    computeBackoffDelay,
+    isRetrySafe,
+    parseRetryAfter,
+} from '../../src/executors/retryPolicy';
+import { SDK_TO_PROXY_HEADERS, VALID_OPERATIONS } from '../../src/headers/headers';
+import {
+    ActionValidationError,
+    HttpRequestError,
+    InvalidResponseError,
+    NetworkError,
+    RequestAbortedError,
+    RequestTimeoutError,
+    SHERRY_ERROR_CODES,
+    SherryError,
+} from '../../src/errors/customErrors';
+
+describe('BaseExecutor', () => {
+    const baseUrl = 'https://miniapp.example.com';
+    let executor: MiniAppExecutor;
+    let wait: jest.SpiedFunction<(ms: number, signal?: AbortSignal) => Promise<void>>;
+
+    beforeEach(() => {
+        fetchMock.resetMocks();
+        executor = new MiniAppExecutor('test-client-key');
+        wait = jest.spyOn(executor as any, 'wait').mockResolvedValue(undefined) as any;
+    });
+
+    afterEach(() => {
+        wait.mockRestore();
+    });
+
+    describe('retry policy', () => {
+        it('should make a single attempt when no retry policy is given', async () => {
+            fetchMock.mockResponseOnce('Bad Gateway', { status: 502 });
+
+            await expect(executor.getMetadata(baseUrl)).rejects.toThrow(HttpRequestError);
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+        });
+
+        it('should retry retryable status codes with backoff', async () => {
+            fetchMock
+                .mockResponseOnce('Bad Gateway', { status: 502 })
+                .mockResponseOnce('Service Unavailable', { status: 503 })
+                .mockResponseOnce(JSON.stringify({ name: 'App' }));
+
+            const result = await executor.getMetadata(baseUrl, {
+                retry: { maxAttempts: 3, baseDelayMs: 100, jitter: false },
+            });
+
+            expect(result).toEqual({ name: 'App' });
+            expect(fetchMock).toHaveBeenCalledTimes(3);
+            expect(wait.mock.calls.map(([ms]) => ms)).toEqual([100, 200]);
+        });
+
+        it('should honor the Retry-After header', async () => {
+            fetchMock
+                .mockResponseOnce('Too Many Requests', {
+                    status: 429,
+                    headers: { 'Retry-After': '3' },
+                })
+                .mockResponseOnce(JSON.stringify({ ok: true }));
+
+            await executor.getMetadata(baseUrl, { retry: { baseDelayMs: 100, jitter: false } });
+
+            expect(wait).toHaveBeenCalledWith(3000, undefined);
+        });
+
+        it('should cap Retry-After delays at maxDelayMs', async () => {
+            fetchMock
+                .mockResponseOnce('Too Many Requests', {
+                    status: 429,
+                    headers: { 'Retry-After': '3600' },
+                })
+                .mockResponseOnce(JSON.stringify({ ok: true }));
+
+            await executor.getMetadata(baseUrl, { retry: { maxDelayMs: 5000 } });
+
+            expect(wait).toHaveBeenCalledWith(5000, undefined);
+        });
+
+        it('should stop after maxAttempts and throw the last error', async () => {
+            fetchMock.mockResponse('Service Unavailable', { status: 503 });
+
+            const error = await executor
+                .getMetadata(baseUrl, { retry: { maxAttempts: 2, baseDelayMs: 0 } })
+                .catch(e => e);
+
+            expect(error).toBeInstanceOf(HttpRequestError);
+            expect(error.status).toBe(503);
+            expect(error.message).toBe('HTTP 503: Service Unavailable');
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+        });
+
+        it('should not retry status codes outside the policy', async () => {
+            fetchMock.mockResponseOnce('Not Found', { status: 404 });
+
+            await expect(
+                executor.getMetadata(baseUrl, { retry: { maxAttempts: 3 } }),
+            ).rejects.toThrow('HTTP 404: Not Found');
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+        });
+
+        it('should retry network errors only when enabled', async () => {
+            fetchMock
+                .mockRejectOnce(new TypeError('fetch failed'))
+                .mockResponseOnce(JSON.stringify({ ok: true }));
+
+            await executor.getMetadata(baseUrl, { retry: { baseDelayMs: 0 } });
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+
+            fetchMock.resetMocks();
+            fetchMock.mockRejectOnce(new TypeError('fetch failed'));
+
+            await expect(
+                executor.getMetadata(baseUrl, { retry: { retryOnErrors: ['timeout'] } }),
+            ).rejects.toThrow('fetch failed');
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not retry execute operations without an idempotency key', async () => {
+            fetchMock.mockResponseOnce('Bad Gateway', { status: 502 });
+
+            await expect(
+                executor.request(baseUrl, '/orders', {
+                    method: 'POST',
+                    body: { item: 1 },
+                    retry: { maxAttempts: 3 },
+                }),
+            ).rejects.toThrow('HTTP 502');
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+        });
+
+        it('should retry execute operations that carry an idempotency key', async () => {
+            fetchMock
+                .mockResponseOnce('Bad Gateway', { status: 502 })
+                .mockResponseOnce(JSON.stringify({ id: 1 }));
+
+            const result = await executor.request(baseUrl, '/orders', {
+                method: 'POST',
+                body: { item: 1 },
+                customHeaders: { 'idempotency-key': 'order-1' },
+                retry: { maxAttempts: 3, baseDelayMs: 0 },
+            });
+
+            expect(result).toEqual({ id: 1 });
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+        });
+
+        it('should pass the retry policy through DynamicActionExecutor.execute', async () => {
+            const dynamicExecutor = new DynamicActionExecutor('test-client-key');
+            jest.spyOn(dynamicExecutor as any, 'wait').mockResolvedValue(undefined);
+            const action: DynamicAction = {
+                type: 'dynamic',
+                label: 'Quote',
+                path: '/api/quote',
+                chains: { source: 43113 },
+            };
+            fetchMock
+                .mockResponseOnce('Service Unavailable', { status: 503 })
+                .mockResponseOnce(
+                    JSON.stringify({ serializedTransaction: '0x1234', chainId: 43113 }),
+                );
+
+            const response = await dynamicExecutor.execute(
+                action,
+                {},
+                {
+                    userAddress: '0x1111111111111111111111111111111111111111',
+                    sourceChain: 43113,
+                    baseUrl,
+                },
+                {
+                    customHeaders: { 'Idempotency-Key': 'quote-1' },
+                    retry: { maxAttempts: 2 },
+                },
+            );
+
+            expect(response.serializedTransaction).toBe('0x1234');
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('timeout and cancellation', () => {
+        // Never resolves; rejects with an AbortError like fetch does when its signal fires
+        const hangingFetch = (_url: any, init?: RequestInit) =>
+            new Promise<Response>((_resolve, reject) => {
+                init?.signal?.addEventListener('abort', () => {
+                    const error = new Error('The operation was aborted');
+                    error.name = 'AbortError';
+                    reject(error);
+                });
+            });
+
+        it('should honor the per-call timeout', async () => {
+            fetchMock.mockImplementationOnce(hangingFetch);
+
+            const error = await executor.getMetadata(baseUrl, { timeout: 20 }).catch(e => e);
+
+            expect(error).toBeInstanceOf(RequestTimeoutError);
+            expect(error.message).toBe('Request timeout after 20ms');
+        });
+
+        it('should cancel an in-flight request with the caller signal', async () => {
+            fetchMock.mockImplementationOnce(hangingFetch);
+            const controller = new AbortController();
+
+            const request = executor.request(baseUrl, '/quote', { signal: controller.signal });
+            controller.abort();
+
+            await expect(request).rejects.toBeInstanceOf(RequestAbortedError);
+        });
+
+        it('should not send a request when the signal is already aborted', async () => {
+            const controller = new AbortController();
+            controller.abort();
+
+            await expect(
+                executor.getMetadata(baseUrl, { signal: controller.signal }),
+            ).rejects.toBeInstanceOf(RequestAbortedError);
+            expect(fetchMock).not.toHaveBeenCalled();
+        });
+
+        it('should not retry a cancelled request', async () => {
+            fetchMock.mockImplementation(hangingFetch);
+            const controller = new AbortController();
+
+            const request = executor.getMetadata(baseUrl, {
+                signal: controller.signal,
+                retry: { maxAttempts: 3, retryOnErrors: ['network', 'timeout'] },
+            });
+            controller.abort();
+
+            await expect(request).rejects.toBeInstanceOf(RequestAbortedError);
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+        });
+
+        it('should stop waiting for a retry as soon as the signal aborts', async () => {
+            wait.mockRestore();
+            fetchMock.mockResponse('Service Unavailable', {
+                status: 503,
+                headers: { 'Retry-After': '60' },
+            });
+            const controller = new AbortController();
+
+            const request = executor.getMetadata(baseUrl, {
+                signal: controller.signal,
+                retry: { maxAttempts: 3 },
+            });
+            setTimeout(() => controller.abort(), 20);
+
+            await expect(request).rejects.toBeInstanceOf(RequestAbortedError);
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+        });
+
+        it('should time out while reading a stalled response body', async () => {
+            fetchMock.mockImplementationOnce(
+                async () =>
+                    ({
+                        status: 200,
+                        headers: new Headers(),
+                        text: () => new Promise<string>(() => {}),
+                    }) as unknown as Response,
+            );
+
+            const error = await executor.getMetadata(baseUrl, { timeout: 20 }).catch(e => e);
+
+            expect(error).toBeInstanceOf(RequestTimeoutError);
+        });
+
+        it('should surface timeouts from DynamicActionExecutor without wrapping them', async () => {
+            const dynamicExecutor = new DynamicActionExecutor('test-client-key');
+            fetchMock.mockImplementationOnce(hangingFetch);
+
+            const error = await dynamicExecutor
+                .execute(
+                    {
+                        type: 'dynamic',
+                        label: 'Quote',
+                        path: '/api/quote',
+                        chains: { source: 43113 },
+                    },
+                    {},
+                    {
+                        userAddress: '0x1111111111111111111111111111111111111111',
+                        sourceChain: 43113,
+                        baseUrl,
+                    },
+                    { timeout: 20 },
+                )
+                .catch(e => e);
+
+            expect(error).toBeInstanceOf(RequestTimeoutError);
+            expect(error).not.toBeInstanceOf(ActionValidationError);
+        });
+    });
+
+    describe('errors', () => {
+        it('should throw an HttpRequestError with the status for non-OK responses', async () => {
+            fetchMock.mockResponseOnce('Internal error', { status: 500 });
+
+            const error = await executor.getMetadata(baseUrl).catch(e => e);
+
+            expect(error).toBeInstanceOf(HttpRequestError);
+            expect(error).toBeInstanceOf(SherryError);
+            expect(error.code).toBe(SHERRY_ERROR_CODES.HTTP_ERROR);
+            expect(error.status).toBe(500);
+        });
+
+        it('should wrap network failures in a NetworkError with the original cause', async () => {
+            const cause = new TypeError('fetch failed');
+            fetchMock.mockRejectOnce(cause);
+
+            const error = await executor.getMetadata(baseUrl).catch(e => e);
+
+            expect(error).toBeInstanceOf(NetworkError);
+            expect(error.code).toBe(SHERRY_ERROR_CODES.NETWORK_ERROR);
+            expect(error.message).toBe('fetch failed');
+            expect(error.cause).toBe(cause);
+        });
+
+        it('should throw an InvalidResponseError for responses that are not JSON', async () => {
+            fetchMock.mockResponseOnce('<html></html>');
+
+            const error = await executor.getMetadata(baseUrl).catch(e => e);
+
+            expect(error).toBeInstanceOf(InvalidResponseError);
+            expect(error.code).toBe(SHERRY_ERROR_CODES.INVALID_RESPONSE);
+            expect(error.status).toBe(200);
+            expect(error.cause).toBeInstanceOf(SyntaxError);
+        });
+    });
+
+    describe('retry helpers', () => {
+        it('should parse Retry-After seconds and HTTP dates', () => {
+            const now = Date.parse('2025-01-01T00:00:00Z');
+
+            expect(parseRetryAfter('5', now)).toBe(5000);
+            expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:10 GMT', now)).toBe(10000);
+            expect(parseRetryAfter('soon', now)).toBeUndefined();
+            expect(parseRetryAfter(null, now)).toBeUndefined();
+        });
+
+        it('should only treat idempotent methods as safe to retry', () => {
+            const headers = { [SDK_TO_PROXY_HEADERS.OPERATION]: VALID_OPERATIONS.FETCH };
+
+            expect(isRetrySafe('GET', headers, DEFAULT_RETRY_POLICY)).toBe(true);
+            expect(isRetrySafe('PUT', headers, DEFAULT_RETRY_POLICY)).toBe(true);
+            expect(isRetrySafe('PATCH', headers, DEFAULT_RETRY_POLICY)).toBe(false);
+            expect(
+                isRetrySafe(
+                    'PATCH',
+                    { ...headers, 'Idempotency-Key': 'patch-1' },
+                    DEFAULT_RETRY_POLICY,
+                ),
+            ).toBe(true);
+        });
+
+        it('should cap the backoff delay and keep jitter within bounds', () => {
+            const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 1000, maxDelayMs: 3000 };
+
+            expect(computeBackoffDelay(5, { ...policy, jitter: false })).toBe(3000);
+
+            const delay = computeBackoffDelay(2, policy);
+            expect(delay).toBeGreaterThanOrEqual(1000);
+            expect(delay).toBeLessThanOrEqual(2000);
+        });
+    });
+});
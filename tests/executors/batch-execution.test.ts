@@ -0,0 +1,180 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import {
+    BatchItemResult,
+    DynamicActionExecutor,
+    DynamicBatchItem,
+} from '../../src/executors/dynamicExecutor';
+import { createInMemoryTransport, InMemoryResponse } from '../../src/executors/transport';
+import { DynamicAction } from '../../src/interface/actions/dynamicAction';
+import {
+    ActionValidationError,
+    HttpRequestError,
+    RequestAbortedError,
+} from '../../src/errors/customErrors';
+import { SDK_TO_PROXY_HEADERS } from '../../src/headers/headers';
+
+describe('DynamicActionExecutor.executeBatch', () => {
+    const action: DynamicAction = {
+        type: 'dynamic',
+        label: 'Mint',
+        path: '/api/mint',
+        chains: { source: 43113 },
+        params: [{ name: 'id', label: 'Id', type: 'number', required: true }],
+    };
+
+    const context = {
+        userAddress: '0x1111111111111111111111111111111111111111',
+        sourceChain: 43113,
+        baseUrl: 'https://miniapp.example.com',
+    };
+
+    const item = (id: number): DynamicBatchItem => ({ action, inputs: { id }, context });
+
+    const success = (id: string): InMemoryResponse => ({
+        body: {
+            serializedTransaction: '0x1234',
+            chainId: 43113,
+            params: { functionName: `mint${id}`, args: {} },
+        },
+    });
+
+    const reasonOf = (result: BatchItemResult<unknown>) =>
+        result.status === 'rejected' ? result.reason : undefined;
+
+    const createExecutor = (
+        handler: (id: string, attempt: number) => InMemoryResponse | Promise<InMemoryResponse>,
+    ) => {
+        const attempts: Record<string, number> = {};
+        const executor = new DynamicActionExecutor('test-client-key', undefined, {
+            transport: createInMemoryTransport(request => {
+                const targetUrl = new URL(request.headers[SDK_TO_PROXY_HEADERS.TARGET_URL]);
+                const id = targetUrl.searchParams.get('id')!;
+                attempts[id] = (attempts[id] ?? 0) + 1;
+                return handler(id, attempts[id]);
+            }),
+        });
+        const wait = jest
+            .spyOn(executor as any, 'wait')
+            .mockImplementation(() => Promise.resolve()) as jest.Mock;
+        return { executor, attempts, wait };
+    };
+
+    it('should return the results in input order', async () => {
+        const { executor } = createExecutor(async id => {
+            await new Promise(resolve => setTimeout(resolve, id === '1' ? 20 : 0));
+            return success(id);
+        });
+
+        const results = await executor.executeBatch([item(1), item(2), item(3)]);
+
+        expect(results.map(result => result.status)).toEqual([
+            'fulfilled',
+            'fulfilled',
+            'fulfilled',
+        ]);
+        expect(
+            results.map(
+                result => result.status === 'fulfilled' && result.value.params?.functionName,
+            ),
+        ).toEqual(['mint1', 'mint2', 'mint3']);
+    });
+
+    it('should not exceed the concurrency limit', async () => {
+        let inFlight = 0;
+        let maxInFlight = 0;
+        const { executor } = createExecutor(async id => {
+            inFlight++;
+            maxInFlight = Math.max(maxInFlight, inFlight);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            inFlight--;
+            return success(id);
+        });
+
+        await executor.executeBatch([1, 2, 3, 4, 5, 6].map(item), { concurrency: 2 });
+
+        expect(maxInFlight).toBe(2);
+    });
+
+    it('should reject failed items with typed errors without stopping the batch', async () => {
+        const { executor } = createExecutor(id =>
+            id === '2' ? { status: 500, body: 'Internal error' } : success(id),
+        );
+
+        const results = await executor.executeBatch([
+            item(1),
+            item(2),
+            { action, inputs: {}, context },
+        ]);
+
+        expect(results[0].status).toBe('fulfilled');
+
+        const httpFailure = reasonOf(results[1]);
+        expect(httpFailure).toBeInstanceOf(HttpRequestError);
+        expect((httpFailure as HttpRequestError).status).toBe(500);
+
+        expect(reasonOf(results[2])).toBeInstanceOf(ActionValidationError);
+    });
+
+    it('should pause the whole batch when an item is rate limited', async () => {
+        const events: string[] = [];
+        const { executor, attempts, wait } = createExecutor(async (id, attempt) => {
+            events.push(`request ${id}`);
+            if (id === '1' && attempt === 1) {
+                return { status: 429, headers: { 'Retry-After': '2' }, body: 'Too many requests' };
+            }
+            await new Promise(resolve => setTimeout(resolve, 5));
+            return success(id);
+        });
+        wait.mockImplementation(async () => {
+            events.push('wait');
+        });
+
+        const results = await executor.executeBatch([item(1), item(2), item(3)], {
+            concurrency: 2,
+        });
+
+        expect(results.every(result => result.status === 'fulfilled')).toBe(true);
+        expect(attempts).toEqual({ '1': 2, '2': 1, '3': 1 });
+        expect(wait.mock.calls[0][0]).toBeGreaterThan(1900);
+        expect(events.slice(0, 2)).toEqual(['request 1', 'request 2']);
+        expect(events.indexOf('request 3')).toBeGreaterThan(events.lastIndexOf('wait'));
+        expect(events.filter(event => event === 'wait')).toHaveLength(2);
+    });
+
+    it('should stop waiting out the pause when an item is aborted', async () => {
+        const { executor, attempts, wait } = createExecutor(() => ({
+            status: 429,
+            headers: { 'Retry-After': '60' },
+            body: 'Too many requests',
+        }));
+        wait.mockRestore();
+        const controller = new AbortController();
+        const withSignal = (id: number): DynamicBatchItem => ({
+            ...item(id),
+            options: { signal: controller.signal },
+        });
+
+        setTimeout(() => controller.abort(), 20);
+        const results = await executor.executeBatch([withSignal(1), withSignal(2)], {
+            concurrency: 1,
+        });
+
+        expect(attempts).toEqual({ '1': 1 });
+        expect(results.map(reasonOf)).toEqual([
+            expect.any(RequestAbortedError),
+            expect.any(RequestAbortedError),
+        ]);
+    });
+
+    it('should give up after the configured rate-limit retries', async () => {
+        const { executor, attempts } = createExecutor(() => ({
+            status: 429,
+            body: 'Too many requests',
+        }));
+
+        const [result] = await executor.executeBatch([item(1)], { rateLimitRetries: 1 });
+
+        expect(attempts['1']).toBe(2);
+        expect(reasonOf(result)).toBeInstanceOf(HttpRequestError);
+    });
+});
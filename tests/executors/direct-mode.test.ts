@@ -0,0 +1,144 @@
+import { describe, expect, it } from '@jest/globals';
+import { DynamicActionExecutor, createDirectExecutor } from '../../src/executors/dynamicExecutor';
+import { MiniAppExecutor } from '../../src/executors/miniAppExecutor';
+import { createInMemoryTransport, TransportRequest } from '../../src/executors/transport';
+import { DynamicAction } from '../../src/interface/actions/dynamicAction';
+import {
+    PROXY_TO_DEV_HEADERS,
+    SDK_TO_PROXY_HEADERS,
+    SHERRY_VALUES,
+    buildProxyHeaders,
+    VALID_OPERATIONS,
+} from '../../src/headers/headers';
+
+describe('Direct mode', () => {
+    const baseUrl = 'https://miniapp.example.com';
+    const userAddress = '0x1111111111111111111111111111111111111111';
+
+    const action: DynamicAction = {
+        type: 'dynamic',
+        label: 'Swap',
+        path: '/api/swap',
+        chains: { source: 43113, destination: 43114 },
+    };
+
+    const createTransport = (
+        body: unknown = { serializedTransaction: '0x1234', chainId: 43113 },
+    ) => {
+        const requests: TransportRequest[] = [];
+        const transport = createInMemoryTransport(request => {
+            requests.push(request);
+            return { body };
+        });
+        return { transport, requests };
+    };
+
+    it('should call the mini app URL directly with the proxy headers', async () => {
+        const { transport, requests } = createTransport();
+        const executor = createDirectExecutor({ transport });
+
+        const result = await executor.executeForTransaction(
+            action,
+            { amount: '100' },
+            { userAddress, sourceChain: 43113, destinationChain: 43114, baseUrl },
+        );
+
+        expect(result.serializedTransaction).toBe('0x1234');
+        expect(requests).toHaveLength(1);
+
+        const [request] = requests;
+        expect(request.url).toBe(`${baseUrl}/api/swap`);
+        expect(request.method).toBe('POST');
+        expect(request.headers).toEqual(
+            expect.objectContaining({
+                [PROXY_TO_DEV_HEADERS.PROXY_MARKER]: SHERRY_VALUES.PROXY_MARKER,
+                [PROXY_TO_DEV_HEADERS.PROXY_VERSION]: SHERRY_VALUES.PROXY_VERSION,
+                [PROXY_TO_DEV_HEADERS.CHAIN_ID]: '43113',
+                [PROXY_TO_DEV_HEADERS.DESTINATION_CHAIN]: '43114',
+                [PROXY_TO_DEV_HEADERS.WALLET_ADDRESS]: userAddress,
+                [PROXY_TO_DEV_HEADERS.TIMESTAMP]: expect.any(String),
+            }),
+        );
+        expect(request.headers[SDK_TO_PROXY_HEADERS.TARGET_URL]).toBeUndefined();
+        expect(request.headers[SDK_TO_PROXY_HEADERS.OPERATION]).toBeUndefined();
+    });
+
+    it('should send the same headers a mini app receives from the proxy', async () => {
+        const { transport, requests } = createTransport();
+        const executor = new DynamicActionExecutor(undefined, undefined, {
+            transport,
+            mode: 'direct',
+        });
+
+        await executor.executeForTransaction(
+            action,
+            {},
+            { userAddress, sourceChain: 43113, baseUrl },
+        );
+
+        const fromProxy = buildProxyHeaders({
+            operation: VALID_OPERATIONS.EXECUTE,
+            chainId: '43113',
+            walletAddress: userAddress,
+        });
+        expect(Object.keys(requests[0].headers).sort()).toEqual(Object.keys(fromProxy).sort());
+    });
+
+    it('should keep custom headers and the request body', async () => {
+        const { transport, requests } = createTransport();
+        const executor = createDirectExecutor({ transport });
+
+        await executor.executeForTransaction(
+            {
+                ...action,
+                params: [{ name: 'amount', label: 'Amount', type: 'text', required: true }],
+            },
+            { amount: '100' },
+            { userAddress, sourceChain: 43113, baseUrl },
+            { customHeaders: { Authorization: 'Bearer token' } },
+        );
+
+        expect(requests[0].headers['Authorization']).toBe('Bearer token');
+        expect(JSON.parse(requests[0].body as string).params).toEqual({ amount: '100' });
+    });
+
+    it('should fetch metadata directly without blockchain context', async () => {
+        const { transport, requests } = createTransport({ name: 'Test App' });
+        const executor = new MiniAppExecutor('test-client-key', undefined, {
+            transport,
+            mode: 'direct',
+        });
+
+        const metadata = await executor.getMetadata(`${baseUrl}/metadata`);
+
+        expect(metadata).toEqual({ name: 'Test App' });
+        expect(requests[0].url).toBe(`${baseUrl}/metadata`);
+        expect(requests[0].method).toBe('GET');
+        expect(requests[0].headers[PROXY_TO_DEV_HEADERS.PROXY_MARKER]).toBe('true');
+        expect(requests[0].headers[PROXY_TO_DEV_HEADERS.CHAIN_ID]).toBeUndefined();
+        expect(requests[0].headers[SDK_TO_PROXY_HEADERS.CLIENT_KEY]).toBeUndefined();
+    });
+
+    it('should send mini app requests directly with their query string', async () => {
+        const { transport, requests } = createTransport({ ok: true });
+        const executor = new MiniAppExecutor(undefined, undefined, { transport, mode: 'direct' });
+
+        await executor.request(baseUrl, '/api/prices', { query: { token: 'AVAX' } });
+
+        expect(requests[0].url).toBe(`${baseUrl}/api/prices?token=AVAX`);
+    });
+
+    it('should route through the proxy by default', async () => {
+        const { transport, requests } = createTransport();
+        const executor = new DynamicActionExecutor(undefined, undefined, { transport });
+
+        await executor.executeForTransaction(
+            action,
+            {},
+            { userAddress, sourceChain: 43113, baseUrl },
+        );
+
+        expect(requests[0].url).toBe('https://proxy.sherry.social/proxy');
+        expect(requests[0].headers[PROXY_TO_DEV_HEADERS.CHAIN_ID]).toBeUndefined();
+    });
+});
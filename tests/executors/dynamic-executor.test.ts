@@ -8,7 +8,11 @@ import {
     createDynamicExecutor,
     createAnonymousExecutor,
 } from '../../src/executors/dynamicExecutor';
-import { ActionValidationError } from '../../src/errors/customErrors';
+import {
+    ActionValidationError,
+    InputValidationError,
+    RequestTimeoutError,
+} from '../../src/errors/customErrors';
 
 describe('DynamicActionExecutor', () => {
     // Common variables for tests
@@ -172,6 +176,21 @@ describe('DynamicActionExecutor', () => {
             expect(fetchMock).not.toHaveBeenCalled();
         });
 
+        it('should reject inputs that do not match their parameters', async () => {
+            const error = await executor
+                .execute(sampleAction, { amount: 'ten', recipient: '' }, sampleContext)
+                .catch(e => e);
+
+            expect(error).toBeInstanceOf(InputValidationError);
+            expect(error).toBeInstanceOf(ActionValidationError);
+            expect(error.fieldErrors).toEqual({
+                amount: 'must be a number',
+                recipient: 'is required',
+            });
+            expect(error.path).toBe('amount');
+            expect(fetchMock).not.toHaveBeenCalled();
+        });
+
         it('should handle network errors correctly', async () => {
             fetchMock.mockReject(new Error('Network error'));
 
@@ -204,11 +223,12 @@ describe('DynamicActionExecutor', () => {
                     }),
             );
 
-            await expect(
-                executor.execute(sampleAction, sampleInputs, sampleContext, { timeout: 30000 }),
-            ).rejects.toThrow(
-                "Error executing action 'Test Action': Request timeout after 30000ms",
-            );
+            const request = executor.execute(sampleAction, sampleInputs, sampleContext, {
+                timeout: 30000,
+            });
+
+            await expect(request).rejects.toThrow(RequestTimeoutError);
+            await expect(request).rejects.toThrow('Request timeout after 30000ms');
         });
 
         it('should throw error if response cannot be adapted', async () => {
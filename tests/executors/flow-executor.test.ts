@@ -0,0 +1,732 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import fetchMock from 'jest-fetch-mock';
+import { decodeFunctionData, erc20Abi } from 'viem';
+import { FlowExecutor } from '../../src/executors/flowExecutor';
+import {
+    createFlowHandlers,
+    createDryRunFlowHandlers,
+    createDynamicFlowHandler,
+    createHttpFlowHandler,
+} from '../../src/executors/flowHandlers';
+import { DynamicActionExecutor } from '../../src/executors/dynamicExecutor';
+import { HttpActionExecutor } from '../../src/executors/httpActionExecutor';
+import { createInMemoryTransport, TransportRequest } from '../../src/executors/transport';
+import { FLOW_SNAPSHOT_VERSION } from '../../src/executors/flowSnapshot';
+import { createMetadata } from '../../src/utils/createMetadata';
+import { FlowSnapshotError, FlowNavigationError } from '../../src/errors/customErrors';
+import {
+    ActionFlow,
+    NestedBlockchainAction,
+    NestedHttpAction,
+    NestedHtmlAction,
+    NestedTransferAction,
+    NestedDynamicAction,
+    DecisionAction,
+    CompletionAction,
+} from '../../src/interface/actions/flowAction';
+
+describe('FlowExecutor', () => {
+    const userAddress = '0x1111111111111111111111111111111111111111';
+    const recipient = '0x1234567890123456789012345678901234567890';
+
+    const flow: ActionFlow = {
+        type: 'flow',
+        label: 'Test Flow',
+        initialActionId: 'signup',
+        actions: [
+            {
+                id: 'signup',
+                type: 'http',
+                label: 'Sign Up',
+                path: 'https://api.example.com/signup',
+                params: [],
+                nextActions: [{ actionId: 'choose' }],
+            } as NestedHttpAction,
+            {
+                id: 'choose',
+                type: 'decision',
+                label: 'Choose',
+                title: 'Pay or approve?',
+                options: [
+                    { label: 'Pay', value: 'pay', nextActionId: 'pay' },
+                    { label: 'Approve', value: 'approve', nextActionId: 'approve' },
+                ],
+            } as DecisionAction,
+            {
+                id: 'pay',
+                type: 'transfer',
+                label: 'Pay',
+                to: '{{recipient}}' as `0x${string}`,
+                amount: 0.5,
+                chains: { source: 43113 },
+                nextActions: [{ actionId: 'done' }],
+            } as NestedTransferAction,
+            {
+                id: 'approve',
+                type: 'blockchain',
+                label: 'Approve',
+                address: recipient,
+                abi: erc20Abi,
+                functionName: 'approve',
+                chains: { source: 43113 },
+                params: [
+                    { name: 'spender', label: 'Spender', type: 'address', value: 'sender' },
+                    { name: 'amount', label: 'Amount', type: 'uint256', required: true },
+                ],
+                nextActions: [{ actionId: 'done' }],
+            } as NestedBlockchainAction,
+            {
+                id: 'done',
+                type: 'completion',
+                label: 'Done',
+                message: 'All done',
+                status: 'success',
+            } as CompletionAction,
+        ],
+    };
+
+    beforeEach(() => {
+        fetchMock.resetMocks();
+    });
+
+    describe('dry-run handlers', () => {
+        it('should run a complete flow without network access', async () => {
+            const executor = new FlowExecutor(flow, {}, createDryRunFlowHandlers());
+
+            const signup = await executor.executeCurrentAction({ email: 'a@b.com' });
+            expect(signup.status).toBe('success');
+            expect(signup.data.email).toBe('a@b.com');
+
+            const waiting = await executor.executeCurrentAction();
+            expect(waiting.status).toBe('waiting');
+
+            const choice = await executor.executeCurrentAction({ userChoice: 'pay' });
+            expect(choice.nextActionId).toBe('pay');
+
+            const pay = await executor.executeCurrentAction();
+            expect(pay.status).toBe('success');
+            expect(pay.data.txHash).toMatch(/^0x/);
+
+            await executor.executeCurrentAction();
+            expect(executor.isCompleted()).toBe(true);
+            expect(fetchMock).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('default handlers', () => {
+        it('should call the http endpoint through the proxy with the step data', async () => {
+            fetchMock.mockResponseOnce(JSON.stringify({ userId: 7 }));
+            const executor = new FlowExecutor(flow);
+
+            const result = await executor.executeCurrentAction({ email: 'a@b.com' });
+
+            expect(result.status).toBe('success');
+            expect(result.data).toEqual({ userId: 7 });
+            expect(fetchMock.mock.calls[0][0]).toBe('https://proxy.sherry.social/proxy');
+            expect(fetchMock.mock.calls[0][1]?.method).toBe('POST');
+            const headers = fetchMock.mock.calls[0][1]?.headers as Record<string, string>;
+            expect(headers['X-Sherry-Target-URL']).toBe('https://api.example.com/signup');
+            expect(JSON.parse(fetchMock.mock.calls[0][1]?.body as string)).toEqual({
+                email: 'a@b.com',
+            });
+        });
+
+        it('should not let the step data override fixed parameters', async () => {
+            fetchMock.mockResponseOnce(JSON.stringify({ ok: true }));
+            const fixedFlow: ActionFlow = {
+                ...flow,
+                actions: flow.actions.map(action =>
+                    action.id === 'signup'
+                        ? {
+                              ...action,
+                              params: [
+                                  {
+                                      name: 'plan',
+                                      label: 'Plan',
+                                      type: 'text',
+                                      fixed: true,
+                                      value: 'free',
+                                  },
+                              ],
+                          }
+                        : action.id === 'approve'
+                          ? {
+                                ...action,
+                                params: [
+                                    {
+                                        name: 'spender',
+                                        label: 'Spender',
+                                        type: 'address',
+                                        value: 'sender',
+                                    },
+                                    {
+                                        name: 'amount',
+                                        label: 'Amount',
+                                        type: 'uint256',
+                                        fixed: true,
+                                        value: 10,
+                                    },
+                                ],
+                            }
+                          : action,
+                ) as ActionFlow['actions'],
+            };
+
+            const signup = await new FlowExecutor(fixedFlow).executeCurrentAction({
+                plan: 'pro',
+            });
+            expect(signup.status).toBe('success');
+            expect(JSON.parse(fetchMock.mock.calls[0][1]?.body as string)).toEqual({
+                plan: 'free',
+            });
+
+            const approve = await new FlowExecutor(
+                { ...fixedFlow, initialActionId: 'approve' },
+                { userAddress },
+            ).executeCurrentAction({ amount: 1000000n });
+            expect(approve.status).toBe('success');
+            expect(
+                decodeFunctionData({ abi: erc20Abi, data: approve.data.transaction.data }).args,
+            ).toEqual([userAddress, 10n]);
+        });
+
+        it('should send http steps through the given HttpActionExecutor', async () => {
+            const requests: TransportRequest[] = [];
+            const httpExecutor = new HttpActionExecutor('client-key', undefined, {
+                transport: createInMemoryTransport(request => {
+                    requests.push(request);
+                    return { status: 204 };
+                }),
+            });
+            const executor = new FlowExecutor(
+                {
+                    ...flow,
+                    actions: flow.actions.map(action =>
+                        action.id === 'signup' ? { ...action, method: 'GET' } : action,
+                    ) as ActionFlow['actions'],
+                },
+                {},
+                createFlowHandlers({ http: createHttpFlowHandler(httpExecutor) }),
+            );
+
+            const result = await executor.executeCurrentAction({ tags: ['a', 'b'] });
+
+            expect(result.status).toBe('success');
+            expect(result.data).toEqual({ status: 204 });
+            expect(requests[0].headers['X-Sherry-Client-Key']).toBe('client-key');
+            expect(requests[0].headers['X-Sherry-Target-URL']).toBe(
+                'https://api.example.com/signup?tags=a&tags=b',
+            );
+            expect(fetchMock).not.toHaveBeenCalled();
+        });
+
+        it('should mark the step as failed when the http endpoint errors', async () => {
+            fetchMock.mockResponseOnce('boom', { status: 500 });
+            const executor = new FlowExecutor(flow);
+
+            const result = await executor.executeCurrentAction();
+
+            expect(result.status).toBe('error');
+            expect(result.error).toBe('HTTP 500: boom');
+            expect(executor.getCurrentAction()?.id).toBe('signup');
+        });
+
+        it('should build a native transfer with placeholders resolved', async () => {
+            const executor = new FlowExecutor({ ...flow, initialActionId: 'pay' }, { recipient });
+
+            const result = await executor.executeCurrentAction();
+
+            expect(result.status).toBe('success');
+            expect(result.data.transaction).toEqual({
+                to: recipient,
+                value: 500000000000000000n,
+                chainId: 43113,
+            });
+        });
+
+        it('should encode blockchain calls resolving the sender value', async () => {
+            const executor = new FlowExecutor(
+                { ...flow, initialActionId: 'approve' },
+                { userAddress },
+            );
+
+            const result = await executor.executeCurrentAction({ amount: 1000n });
+
+            expect(result.status).toBe('success');
+            const decoded = decodeFunctionData({
+                abi: erc20Abi,
+                data: result.data.transaction.data,
+            });
+            expect(decoded.functionName).toBe('approve');
+            expect(decoded.args).toEqual([userAddress, 1000n]);
+        });
+        it('should coerce form values and send no value to non-payable functions', async () => {
+            const executor = new FlowExecutor(
+                {
+                    ...flow,
+                    initialActionId: 'approve',
+                    actions: flow.actions.map(action =>
+                        action.id === 'approve' ? { ...action, amount: 1 } : action,
+                    ) as ActionFlow['actions'],
+                },
+                { userAddress },
+            );
+
+            const result = await executor.executeCurrentAction({ amount: '1000' });
+
+            expect(result.status).toBe('success');
+            expect(result.data.transaction.value).toBe(0n);
+            expect(result.data.params).toEqual([userAddress, 1000n]);
+        });
+    });
+
+    describe('dynamic steps', () => {
+        const dynamicFlow: ActionFlow = {
+            type: 'flow',
+            label: 'Dynamic Flow',
+            initialActionId: 'quote',
+            actions: [
+                {
+                    id: 'quote',
+                    type: 'dynamic',
+                    label: 'Get Quote',
+                    path: '/api/quote',
+                    chains: { source: 43113 },
+                    params: [{ name: 'amount', label: 'Amount', type: 'number', required: true }],
+                    nextActions: [
+                        {
+                            actionId: 'done',
+                            conditions: [
+                                {
+                                    field: 'executionResponses.quote.chainId',
+                                    operator: 'eq',
+                                    value: 43113,
+                                },
+                            ],
+                        },
+                    ],
+                } as NestedDynamicAction,
+                {
+                    id: 'done',
+                    type: 'completion',
+                    label: 'Done',
+                    message: 'Quote received',
+                    status: 'success',
+                } as CompletionAction,
+            ],
+        };
+
+        const executionResponse = { serializedTransaction: '0x02f870', chainId: 43113 };
+
+        it('should execute the step through the DynamicActionExecutor', async () => {
+            fetchMock.mockResponseOnce(JSON.stringify(executionResponse));
+            const handlers = createFlowHandlers({
+                dynamic: createDynamicFlowHandler(new DynamicActionExecutor('client-key')),
+            });
+            const executor = new FlowExecutor(
+                dynamicFlow,
+                { userAddress, baseUrl: 'https://miniapp.example.com' },
+                handlers,
+            );
+
+            const result = await executor.executeCurrentAction({ amount: 5 });
+
+            expect(result.status).toBe('success');
+            expect(result.data).toEqual(executionResponse);
+            expect(result.nextActionId).toBe('done');
+            expect(executor.getContext().executionResponses.quote).toEqual(executionResponse);
+
+            const headers = fetchMock.mock.calls[0][1]?.headers as Record<string, string>;
+            expect(headers['X-Sherry-Target-URL']).toBe(
+                'https://miniapp.example.com/api/quote?amount=5',
+            );
+            expect(headers['X-Sherry-Client-Key']).toBe('client-key');
+        });
+
+        it('should resolve relative paths with the metadata baseUrl', async () => {
+            fetchMock.mockResponse(JSON.stringify(executionResponse));
+            const metadata = createMetadata({
+                url: 'https://miniapp.example.com',
+                icon: 'https://miniapp.example.com/icon.png',
+                title: 'Quotes',
+                description: 'Get a quote',
+                baseUrl: 'https://miniapp.example.com',
+                actions: [dynamicFlow],
+            });
+            const validatedFlow = metadata.actions[0] as ActionFlow;
+            const handlers = createFlowHandlers({
+                dynamic: createDynamicFlowHandler(new DynamicActionExecutor('client-key')),
+            });
+
+            const result = await new FlowExecutor(
+                validatedFlow,
+                { userAddress },
+                handlers,
+            ).executeCurrentAction({ amount: 5 });
+
+            expect(result.status).toBe('success');
+            const headers = fetchMock.mock.calls[0][1]?.headers as Record<string, string>;
+            expect(headers['X-Sherry-Target-URL']).toBe(
+                'https://miniapp.example.com/api/quote?amount=5',
+            );
+        });
+
+        it('should not need a baseUrl for absolute paths', async () => {
+            fetchMock.mockResponseOnce(JSON.stringify(executionResponse));
+            const absoluteFlow: ActionFlow = {
+                ...dynamicFlow,
+                actions: dynamicFlow.actions.map(action =>
+                    action.type === 'dynamic'
+                        ? { ...action, path: 'https://api.example.com/api/quote' }
+                        : action,
+                ),
+            };
+
+            const result = await new FlowExecutor(absoluteFlow, {
+                userAddress,
+            }).executeCurrentAction({ amount: 5 });
+
+            expect(result.status).toBe('success');
+            const headers = fetchMock.mock.calls[0][1]?.headers as Record<string, string>;
+            expect(headers['X-Sherry-Target-URL']).toBe(
+                'https://api.example.com/api/quote?amount=5',
+            );
+        });
+
+        it('should fail the step without a user address in the context', async () => {
+            const executor = new FlowExecutor(dynamicFlow, {
+                baseUrl: 'https://miniapp.example.com',
+            });
+
+            const result = await executor.executeCurrentAction({ amount: 5 });
+
+            expect(result.status).toBe('error');
+            expect(result.error).toMatch(/requires a userAddress/);
+            expect(fetchMock).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('snapshot and restore', () => {
+        it('should resume a flow from a JSON round-tripped snapshot', async () => {
+            const executor = new FlowExecutor(flow, { recipient }, createDryRunFlowHandlers());
+            await executor.executeCurrentAction({ email: 'a@b.com' });
+            await executor.executeCurrentAction({ userChoice: 'pay' });
+
+            const snapshot = JSON.parse(JSON.stringify(executor.snapshot()));
+            expect(snapshot.version).toBe(FLOW_SNAPSHOT_VERSION);
+            expect(snapshot.currentActionId).toBe('pay');
+
+            const restored = FlowExecutor.restore(flow, snapshot, createDryRunFlowHandlers());
+            expect(restored.getCurrentAction()?.id).toBe('pay');
+            expect(restored.getContext()).toEqual(executor.getContext());
+            expect(restored.getHistory()).toEqual(executor.getHistory());
+
+            await restored.executeCurrentAction();
+            await restored.executeCurrentAction();
+            expect(restored.isCompleted()).toBe(true);
+        });
+
+        it('should preserve bigint values in the context', async () => {
+            const executor = new FlowExecutor({ ...flow, initialActionId: 'pay' }, { recipient });
+            await executor.executeCurrentAction();
+
+            const snapshot = JSON.parse(JSON.stringify(executor.snapshot()));
+            const restored = FlowExecutor.restore({ ...flow, initialActionId: 'pay' }, snapshot);
+
+            expect(restored.getContext().lastResult.data.transaction.value).toBe(
+                500000000000000000n,
+            );
+        });
+
+        it('should reject a snapshot taken from a different flow definition', () => {
+            const snapshot = new FlowExecutor(flow).snapshot();
+            const changedFlow = { ...flow, label: 'Changed Flow' };
+
+            expect(() => FlowExecutor.restore(changedFlow, snapshot)).toThrow(FlowSnapshotError);
+            expect(() => FlowExecutor.restore(changedFlow, snapshot)).toThrow(/stale/);
+        });
+
+        it('should reject a snapshot with an unsupported version', () => {
+            const snapshot = { ...new FlowExecutor(flow).snapshot(), version: 99 };
+
+            expect(() => FlowExecutor.restore(flow, snapshot)).toThrow(
+                /Unsupported snapshot version/,
+            );
+        });
+    });
+
+    describe('events', () => {
+        it('should emit step and flow events in order', async () => {
+            const executor = new FlowExecutor(flow, { recipient }, createDryRunFlowHandlers());
+            const events: string[] = [];
+            executor.on('stepStarted', ({ actionId }) => events.push(`started:${actionId}`));
+            executor.on('stepCompleted', ({ actionId }) => events.push(`completed:${actionId}`));
+            executor.on('waitingForInput', ({ actionId }) => events.push(`waiting:${actionId}`));
+            executor.on('branchTaken', ({ fromActionId, toActionId }) =>
+                events.push(`branch:${fromActionId}->${toActionId}`),
+            );
+            executor.on('flowCompleted', ({ lastActionId }) => events.push(`done:${lastActionId}`));
+
+            await executor.executeCurrentAction();
+            await executor.executeCurrentAction();
+            await executor.executeCurrentAction({ userChoice: 'pay' });
+            await executor.executeCurrentAction();
+            await executor.executeCurrentAction();
+
+            expect(events).toEqual([
+                'started:signup',
+                'completed:signup',
+                'branch:signup->choose',
+                'started:choose',
+                'waiting:choose',
+                'started:choose',
+                'completed:choose',
+                'branch:choose->pay',
+                'started:pay',
+                'completed:pay',
+                'branch:pay->done',
+                'started:done',
+                'completed:done',
+                'done:done',
+            ]);
+        });
+
+        it('should report the choice and matched conditions in branchTaken', async () => {
+            const conditionalFlow: ActionFlow = {
+                ...flow,
+                actions: flow.actions.map(action =>
+                    action.id === 'signup'
+                        ? {
+                              ...action,
+                              nextActions: [
+                                  {
+                                      actionId: 'done',
+                                      conditions: [{ field: 'skip', operator: 'eq', value: true }],
+                                  },
+                                  { actionId: 'choose' },
+                              ],
+                          }
+                        : action,
+                ),
+            };
+            const executor = new FlowExecutor(conditionalFlow, {}, createDryRunFlowHandlers());
+            const branchTaken = jest.fn();
+            executor.on('branchTaken', branchTaken);
+
+            await executor.executeCurrentAction({ skip: true });
+
+            expect(branchTaken).toHaveBeenCalledWith({
+                fromActionId: 'signup',
+                toActionId: 'done',
+                conditions: [{ field: 'skip', operator: 'eq', value: true }],
+                choice: undefined,
+            });
+        });
+
+        it('should emit stepFailed and stop notifying removed listeners', async () => {
+            fetchMock.mockResponse('boom', { status: 500 });
+            const executor = new FlowExecutor(flow);
+            const stepFailed = jest.fn();
+            const unsubscribe = executor.on('stepFailed', stepFailed);
+
+            await executor.executeCurrentAction();
+            expect(stepFailed).toHaveBeenCalledWith(
+                expect.objectContaining({ actionId: 'signup', error: 'HTTP 500: boom' }),
+            );
+
+            unsubscribe();
+            await executor.executeCurrentAction();
+            expect(stepFailed).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not break the flow when a listener throws', async () => {
+            const executor = new FlowExecutor(flow, {}, createDryRunFlowHandlers());
+            const consoleSpy = jest.spyOn(console, 'error');
+            const failure = new Error('listener failure');
+            const listenerError = jest.fn();
+            executor.on('stepStarted', () => {
+                throw failure;
+            });
+            executor.on('listenerError', listenerError);
+            executor.on('listenerError', () => {
+                throw new Error('ignored');
+            });
+
+            const result = await executor.executeCurrentAction();
+
+            expect(result.status).toBe('success');
+            expect(listenerError).toHaveBeenCalledWith({ event: 'stepStarted', error: failure });
+            expect(consoleSpy).not.toHaveBeenCalled();
+            consoleSpy.mockRestore();
+        });
+    });
+
+    describe('back-navigation and retry', () => {
+        it('should go back to a decision and restore the context before it', async () => {
+            const executor = new FlowExecutor(flow, { recipient }, createDryRunFlowHandlers());
+            await executor.executeCurrentAction({ email: 'a@b.com' });
+            const beforeChoice = executor.getContext();
+            await executor.executeCurrentAction({ userChoice: 'approve' });
+
+            const action = executor.goBack();
+
+            expect(action.id).toBe('choose');
+            expect(executor.getContext()).toEqual(beforeChoice);
+            expect(executor.getContext().userChoice).toBeUndefined();
+            expect(executor.getHistory().map(result => result.actionId)).toEqual(['signup']);
+
+            const choice = await executor.executeCurrentAction({ userChoice: 'pay' });
+            expect(choice.nextActionId).toBe('pay');
+        });
+
+        it('should go back to the last executed step once the flow is completed', async () => {
+            const executor = new FlowExecutor(flow, { recipient }, createDryRunFlowHandlers());
+            await executor.executeCurrentAction();
+            await executor.executeCurrentAction({ userChoice: 'pay' });
+            await executor.executeCurrentAction();
+            await executor.executeCurrentAction();
+            expect(executor.isCompleted()).toBe(true);
+
+            expect(executor.goBack().id).toBe('pay');
+            expect(executor.isCompleted()).toBe(false);
+        });
+
+        it('should refuse to go back past an irreversible step', async () => {
+            const irreversibleFlow: ActionFlow = {
+                ...flow,
+                actions: flow.actions.map(action =>
+                    action.id === 'pay' ? { ...action, irreversible: true } : action,
+                ),
+            };
+            const executor = new FlowExecutor(
+                irreversibleFlow,
+                { recipient },
+                createDryRunFlowHandlers(),
+            );
+            await executor.executeCurrentAction();
+            await executor.executeCurrentAction({ userChoice: 'pay' });
+            expect(executor.canGoBack()).toBe(true);
+
+            await executor.executeCurrentAction();
+
+            expect(executor.canGoBack()).toBe(false);
+            expect(() => executor.goBack()).toThrow(FlowNavigationError);
+            expect(() => executor.goBack()).toThrow(/irreversible step 'pay'/);
+            expect(executor.getCurrentAction()?.id).toBe('done');
+        });
+
+        it('should refuse to go back from the first step', () => {
+            const executor = new FlowExecutor(flow);
+
+            expect(executor.canGoBack()).toBe(false);
+            expect(() => executor.goBack()).toThrow(/no previous step/);
+        });
+
+        it('should retry a failed step without duplicating history entries', async () => {
+            const http = jest
+                .fn<() => Promise<any>>()
+                .mockRejectedValueOnce(new Error('Service unavailable'))
+                .mockResolvedValueOnce({ userId: 7 });
+            const executor = new FlowExecutor(flow, {}, createFlowHandlers({ http }));
+
+            const failed = await executor.executeCurrentAction({ email: 'a@b.com' });
+            expect(failed.status).toBe('error');
+            expect(executor.getContext().lastError).toBe('Service unavailable');
+
+            const retried = await executor.retryCurrent();
+
+            expect(retried.status).toBe('success');
+            expect(http).toHaveBeenLastCalledWith(
+                expect.anything(),
+                { email: 'a@b.com' },
+                expect.anything(),
+            );
+            expect(executor.getHistory()).toEqual([retried]);
+            expect(executor.getContext().lastError).toBeUndefined();
+        });
+
+        it('should not retry a step that has not failed', async () => {
+            const executor = new FlowExecutor(flow, {}, createDryRunFlowHandlers());
+            await executor.executeCurrentAction();
+
+            const result = await executor.retryCurrent();
+
+            expect(result.status).toBe('error');
+            expect(executor.getHistory()).toHaveLength(1);
+        });
+
+        it('should keep back-navigation available after a restore', async () => {
+            const executor = new FlowExecutor(flow, { recipient }, createDryRunFlowHandlers());
+            await executor.executeCurrentAction();
+
+            const snapshot = JSON.parse(JSON.stringify(executor.snapshot()));
+            const restored = FlowExecutor.restore(flow, snapshot, createDryRunFlowHandlers());
+
+            expect(restored.goBack().id).toBe('signup');
+            expect(restored.getHistory()).toEqual([]);
+        });
+    });
+
+    describe('custom handlers', () => {
+        it('should use the injected handler for its action type', async () => {
+            const http = jest.fn(async () => ({ custom: true }));
+            const executor = new FlowExecutor(flow, {}, createFlowHandlers({ http }));
+
+            const result = await executor.executeCurrentAction({ email: 'a@b.com' });
+
+            expect(result.data).toEqual({ custom: true });
+            expect(http).toHaveBeenCalledTimes(1);
+            expect(fetchMock).not.toHaveBeenCalled();
+        });
+
+        it('should fail the step when no handler is registered', async () => {
+            const executor = new FlowExecutor(flow, {}, {});
+
+            const result = await executor.executeCurrentAction();
+
+            expect(result.status).toBe('error');
+            expect(result.error).toBe("No handler registered for action type 'http'");
+        });
+    });
+
+    describe('html steps', () => {
+        it('should return how to display the page and move to the next action', async () => {
+            const htmlFlow: ActionFlow = {
+                type: 'flow',
+                label: 'Game',
+                initialActionId: 'play',
+                actions: [
+                    {
+                        id: 'play',
+                        type: 'html',
+                        label: 'Play',
+                        url: 'https://game.example.com',
+                        width: 400,
+                        height: 600,
+                        chains: { source: 43113 },
+                        nextActions: [{ actionId: 'done' }],
+                    } as NestedHtmlAction,
+                    {
+                        id: 'done',
+                        type: 'completion',
+                        label: 'Done',
+                        message: 'Thanks for playing',
+                        status: 'success',
+                    } as CompletionAction,
+                ],
+            };
+            const executor = new FlowExecutor(htmlFlow, {}, {});
+
+            const result = await executor.executeCurrentAction();
+
+            expect(result.status).toBe('success');
+            expect(result.data).toEqual({
+                url: 'https://game.example.com',
+                width: 400,
+                height: 600,
+                fullscreen: false,
+            });
+            expect(result.nextActionId).toBe('done');
+        });
+    });
+});
@@ -0,0 +1,165 @@
+import { describe, expect, it } from '@jest/globals';
+import { HttpActionExecutor } from '../../src/executors/httpActionExecutor';
+import { createInMemoryTransport, TransportRequest } from '../../src/executors/transport';
+import { HttpAction } from '../../src/interface/actions/httpAction';
+import { ActionValidationError, HttpRequestError } from '../../src/errors/customErrors';
+import { SDK_TO_PROXY_HEADERS, VALID_OPERATIONS } from '../../src/headers/headers';
+
+describe('HttpActionExecutor', () => {
+    const action: HttpAction = {
+        type: 'http',
+        label: 'Join Waitlist',
+        path: 'https://api.example.com/waitlist',
+        method: 'POST',
+        headers: { 'X-Api-Version': '2' },
+        body: { source: 'sherry', plan: 'free' },
+        params: [
+            { name: 'email', label: 'Email', type: 'email', required: true },
+            {
+                name: 'plan',
+                label: 'Plan',
+                type: 'select',
+                options: [
+                    { label: 'Free', value: 'free' },
+                    { label: 'Pro', value: 'pro' },
+                ],
+            },
+            { name: 'seats', label: 'Seats', type: 'number', min: 1, max: 10 },
+        ],
+    };
+
+    const createExecutor = (response: { status?: number; body?: unknown } = {}) => {
+        const requests: TransportRequest[] = [];
+        const executor = new HttpActionExecutor('test-client-key', undefined, {
+            transport: createInMemoryTransport(request => {
+                requests.push(request);
+                return { status: response.status, body: response.body ?? { position: 42 } };
+            }),
+        });
+        return { executor, requests };
+    };
+
+    it('should merge inputs over the static body and send JSON through the proxy', async () => {
+        const { executor, requests } = createExecutor({ status: 201 });
+
+        const result = await executor.execute<{ position: number }>(action, {
+            email: 'user@example.com',
+            plan: 'pro',
+        });
+
+        expect(result.status).toBe(201);
+        expect(result.data.position).toBe(42);
+
+        const [request] = requests;
+        expect(request.url).toBe('https://proxy.sherry.social/proxy');
+        expect(request.method).toBe('POST');
+        expect(JSON.parse(request.body as string)).toEqual({
+            source: 'sherry',
+            plan: 'pro',
+            email: 'user@example.com',
+        });
+        expect(request.headers['X-Api-Version']).toBe('2');
+        expect(request.headers[SDK_TO_PROXY_HEADERS.TARGET_URL]).toBe(action.path);
+        expect(request.headers[SDK_TO_PROXY_HEADERS.OPERATION]).toBe(VALID_OPERATIONS.EXECUTE);
+        expect(request.headers[SDK_TO_PROXY_HEADERS.CLIENT_KEY]).toBe('test-client-key');
+    });
+
+    it('should send GET values as query string', async () => {
+        const { executor, requests } = createExecutor();
+
+        await executor.execute(
+            { ...action, method: 'GET', path: 'https://api.example.com/search?lang=en' },
+            { email: 'user@example.com', seats: 3 },
+        );
+
+        const [request] = requests;
+        expect(request.method).toBe('GET');
+        expect(request.body).toBeUndefined();
+        expect(request.headers[SDK_TO_PROXY_HEADERS.OPERATION]).toBe(VALID_OPERATIONS.FETCH);
+        expect(request.headers[SDK_TO_PROXY_HEADERS.TARGET_URL]).toBe(
+            'https://api.example.com/search?lang=en&source=sherry&plan=free&email=user%40example.com&seats=3',
+        );
+    });
+
+    it('should default to POST', async () => {
+        const { executor, requests } = createExecutor();
+
+        await executor.execute({ ...action, method: undefined }, { email: 'user@example.com' });
+
+        expect(requests[0].method).toBe('POST');
+    });
+
+    it('should send the default value of fixed parameters', async () => {
+        const { executor, requests } = createExecutor();
+
+        await executor.execute(
+            {
+                ...action,
+                params: [{ name: 'tier', label: 'Tier', type: 'text', fixed: true, value: 'gold' }],
+            },
+            { tier: 'platinum' },
+        );
+
+        expect(JSON.parse(requests[0].body as string).tier).toBe('gold');
+    });
+
+    it.each([
+        [{}, "Required parameter 'email' is missing"],
+        [{ email: 'not-an-email' }, "Invalid value for parameter 'email'"],
+        [{ email: 'user@example.com', plan: 'enterprise' }, "Invalid value for parameter 'plan'"],
+        [{ email: 'user@example.com', seats: 0 }, 'must be at least 1'],
+        [{ email: 'user@example.com', seats: 'many' }, 'must be a number'],
+    ])('should reject invalid inputs %j', async (inputs, message) => {
+        const { executor, requests } = createExecutor();
+
+        const error = await executor.execute(action, inputs).catch(e => e);
+
+        expect(error).toBeInstanceOf(ActionValidationError);
+        expect(error.message).toContain(message);
+        expect(requests).toHaveLength(0);
+    });
+
+    it('should reject actions with an invalid path', async () => {
+        const { executor } = createExecutor();
+
+        await expect(
+            executor.execute({ ...action, path: '/relative' }, { email: 'user@example.com' }),
+        ).rejects.toThrow('Invalid http action path');
+    });
+
+    it('should resolve responses without a body', async () => {
+        const { executor } = createExecutor({ status: 204, body: '' });
+
+        const result = await executor.execute(action, { email: 'user@example.com' });
+
+        expect(result.status).toBe(204);
+        expect(result.data).toBeUndefined();
+    });
+
+    it('should not let the action headers replace the proxy headers', async () => {
+        const { executor, requests } = createExecutor();
+
+        await executor.execute(
+            {
+                ...action,
+                headers: {
+                    [SDK_TO_PROXY_HEADERS.TARGET_URL]: 'https://evil.example.com',
+                    [SDK_TO_PROXY_HEADERS.CLIENT_KEY]: 'other-key',
+                },
+            },
+            { email: 'user@example.com' },
+        );
+
+        expect(requests[0].headers[SDK_TO_PROXY_HEADERS.TARGET_URL]).toBe(action.path);
+        expect(requests[0].headers[SDK_TO_PROXY_HEADERS.CLIENT_KEY]).toBe('test-client-key');
+    });
+
+    it('should surface HTTP errors', async () => {
+        const { executor } = createExecutor({ status: 422, body: 'Email already registered' });
+
+        const error = await executor.execute(action, { email: 'user@example.com' }).catch(e => e);
+
+        expect(error).toBeInstanceOf(HttpRequestError);
+        expect(error.status).toBe(422);
+    });
+});
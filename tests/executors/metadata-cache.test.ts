@@ -0,0 +1,224 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import fetchMock from 'jest-fetch-mock';
+import { MiniAppExecutor } from '../../src/executors/miniAppExecutor';
+import {
+    InMemoryLRUCache,
+    MetadataCacheEntry,
+    MetadataCacheStore,
+    parseCacheControl,
+} from '../../src/executors/metadataCache';
+import { RequestAbortedError } from '../../src/errors/customErrors';
+import { SDK_TO_PROXY_HEADERS } from '../../src/headers/headers';
+
+describe('Metadata cache', () => {
+    const url = 'https://miniapp.example.com/metadata';
+    const metadata = { name: 'Mini App', actions: [] };
+    let now: number;
+    let executor: MiniAppExecutor;
+
+    const requestHeaders = (index: number) =>
+        fetchMock.mock.calls[index][1]?.headers as Record<string, string>;
+
+    beforeEach(() => {
+        fetchMock.resetMocks();
+        now = 1_000_000;
+        executor = new MiniAppExecutor('test-client-key', undefined, {
+            metadataCache: { now: () => now },
+        });
+    });
+
+    it('should always fetch when no cache is configured', async () => {
+        const uncached = new MiniAppExecutor('test-client-key');
+        fetchMock.mockResponse(JSON.stringify(metadata), {
+            headers: { 'Cache-Control': 'max-age=60' },
+        });
+
+        await uncached.getMetadata(url);
+        await uncached.getMetadata(url);
+
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should serve fresh entries without contacting the proxy', async () => {
+        fetchMock.mockResponseOnce(JSON.stringify(metadata), {
+            headers: { 'Cache-Control': 'max-age=60' },
+        });
+
+        await executor.getMetadata(url);
+        now += 59_000;
+        const cached = await executor.getMetadata(url);
+
+        expect(cached).toEqual(metadata);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should revalidate expired entries with If-None-Match', async () => {
+        fetchMock
+            .mockResponseOnce(JSON.stringify(metadata), {
+                headers: { 'Cache-Control': 'max-age=60', ETag: '"v1"' },
+            })
+            .mockResponseOnce('', { status: 304, headers: { 'Cache-Control': 'max-age=60' } });
+
+        await executor.getMetadata(url);
+        now += 61_000;
+        const revalidated = await executor.getMetadata(url);
+
+        expect(revalidated).toEqual(metadata);
+        expect(requestHeaders(1)['If-None-Match']).toBe('"v1"');
+
+        // The 304 renewed the entry's freshness
+        now += 30_000;
+        await executor.getMetadata(url);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should serve stale entries while revalidating in the background', async () => {
+        const updated = { ...metadata, name: 'Updated' };
+        fetchMock
+            .mockResponseOnce(JSON.stringify(metadata), {
+                headers: { 'Cache-Control': 'max-age=60, stale-while-revalidate=120' },
+            })
+            .mockResponseOnce(JSON.stringify(updated), {
+                headers: { 'Cache-Control': 'max-age=60' },
+            });
+
+        await executor.getMetadata(url);
+        now += 90_000;
+
+        const stale = await executor.getMetadata(url);
+        expect(stale).toEqual(metadata);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(await executor.getMetadata(url)).toEqual(updated);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not store responses marked no-store', async () => {
+        fetchMock.mockResponse(JSON.stringify(metadata), {
+            headers: { 'Cache-Control': 'no-store' },
+        });
+
+        await executor.getMetadata(url);
+        await executor.getMetadata(url);
+
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refetch after invalidating a URL', async () => {
+        fetchMock.mockResponse(JSON.stringify(metadata), {
+            headers: { 'Cache-Control': 'max-age=60' },
+        });
+
+        await executor.getMetadata(url);
+        await executor.invalidateMetadata(url);
+        await executor.getMetadata(url);
+
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should share a single request between concurrent calls', async () => {
+        fetchMock.mockResponseOnce(JSON.stringify(metadata), {
+            headers: { 'Cache-Control': 'max-age=60' },
+        });
+
+        const results = await Promise.all([executor.getMetadata(url), executor.getMetadata(url)]);
+
+        expect(results).toEqual([metadata, metadata]);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not reject concurrent calls when another caller aborts', async () => {
+        fetchMock.mockResponseOnce(
+            () =>
+                new Promise(resolve =>
+                    setTimeout(() => resolve({ body: JSON.stringify(metadata) }), 20),
+                ),
+        );
+        const controller = new AbortController();
+
+        const aborted = executor.getMetadata(url, { signal: controller.signal });
+        const other = executor.getMetadata(url);
+        controller.abort();
+
+        await expect(aborted).rejects.toThrow(RequestAbortedError);
+        await expect(other).resolves.toEqual(metadata);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not share requests sent with different client keys', async () => {
+        fetchMock.mockResponse(JSON.stringify(metadata));
+
+        await Promise.all([
+            executor.getMetadata(url),
+            executor.getMetadata(url, { clientKey: 'other-key' }),
+        ]);
+
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        expect(requestHeaders(1)[SDK_TO_PROXY_HEADERS.CLIENT_KEY]).toBe('other-key');
+    });
+
+    it('should use a custom asynchronous store', async () => {
+        const entries = new Map<string, MetadataCacheEntry>();
+        const store: MetadataCacheStore = {
+            get: jest.fn(async (key: string) => entries.get(key)),
+            set: jest.fn(async (key: string, entry: MetadataCacheEntry) => {
+                entries.set(key, entry);
+            }),
+            delete: jest.fn(async (key: string) => {
+                entries.delete(key);
+            }),
+        };
+        const customExecutor = new MiniAppExecutor('test-client-key', undefined, {
+            metadataCache: { store },
+        });
+        fetchMock.mockResponseOnce(JSON.stringify(metadata), {
+            headers: { 'Cache-Control': 'max-age=60', ETag: '"v1"' },
+        });
+
+        await customExecutor.getMetadata(url);
+        await customExecutor.getMetadata(url);
+
+        expect(store.set).toHaveBeenCalledTimes(1);
+        expect(entries.get(url)?.etag).toBe('"v1"');
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    describe('InMemoryLRUCache', () => {
+        const entry = (value: any): MetadataCacheEntry => ({
+            value,
+            storedAt: 0,
+            maxAgeMs: 1000,
+            staleWhileRevalidateMs: 0,
+        });
+
+        it('should evict the least recently used entry', () => {
+            const cache = new InMemoryLRUCache(2);
+            cache.set('a', entry(1));
+            cache.set('b', entry(2));
+            cache.get('a');
+            cache.set('c', entry(3));
+
+            expect(cache.get('a')).toBeDefined();
+            expect(cache.get('b')).toBeUndefined();
+            expect(cache.get('c')).toBeDefined();
+            expect(cache.size).toBe(2);
+        });
+    });
+
+    describe('parseCacheControl', () => {
+        it('should parse the supported directives', () => {
+            expect(parseCacheControl('public, max-age=300, stale-while-revalidate=60')).toEqual({
+                maxAge: 300,
+                staleWhileRevalidate: 60,
+                noStore: false,
+                noCache: false,
+            });
+            expect(parseCacheControl('no-cache, no-store')).toEqual({
+                noStore: true,
+                noCache: true,
+            });
+            expect(parseCacheControl(null)).toEqual({ noStore: false, noCache: false });
+        });
+    });
+});
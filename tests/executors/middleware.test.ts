@@ -0,0 +1,132 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { MiniAppExecutor } from '../../src/executors/miniAppExecutor';
+import { DynamicActionExecutor } from '../../src/executors/dynamicExecutor';
+import { ExecutorMiddleware } from '../../src/executors/middleware';
+import {
+    createInMemoryTransport,
+    createTransportResponse,
+    TransportRequest,
+} from '../../src/executors/transport';
+import { SDK_TO_PROXY_HEADERS, VALID_OPERATIONS } from '../../src/headers/headers';
+
+describe('Executor middleware', () => {
+    const baseUrl = 'https://miniapp.example.com';
+
+    const createTransport = (body: unknown = { ok: true }) => {
+        const requests: TransportRequest[] = [];
+        const transport = createInMemoryTransport(request => {
+            requests.push(request);
+            return { body };
+        });
+        return { transport, requests };
+    };
+
+    it('should run middleware in registration order around the transport', async () => {
+        const { transport } = createTransport();
+        const calls: string[] = [];
+        const track =
+            (name: string): ExecutorMiddleware =>
+            async (request, next) => {
+                calls.push(`${name}:request`);
+                const response = await next(request);
+                calls.push(`${name}:response`);
+                return response;
+            };
+
+        const executor = new MiniAppExecutor(undefined, undefined, {
+            transport,
+            middleware: [track('first')],
+        }).use(track('second'));
+
+        await executor.request(baseUrl, '/health');
+
+        expect(calls).toEqual([
+            'first:request',
+            'second:request',
+            'second:response',
+            'first:response',
+        ]);
+    });
+
+    it('should let middleware modify the outgoing request', async () => {
+        const { transport, requests } = createTransport();
+        const executor = new MiniAppExecutor('test-client-key', undefined, { transport });
+        executor.use(async (request, next) => {
+            request.headers['Authorization'] = 'Bearer token';
+            return next(request);
+        });
+
+        await executor.getMetadata(`${baseUrl}/metadata`);
+
+        expect(requests[0].headers['Authorization']).toBe('Bearer token');
+        expect(requests[0].headers[SDK_TO_PROXY_HEADERS.CLIENT_KEY]).toBe('test-client-key');
+    });
+
+    it('should let middleware replace the response', async () => {
+        const { transport } = createTransport({ name: 'Original' });
+        const executor = new MiniAppExecutor(undefined, undefined, { transport });
+        executor.use(async (request, next) => {
+            const response = await next(request);
+            const body = JSON.parse(await response.text());
+            return createTransportResponse({ body: { ...body, name: 'Transformed' } });
+        });
+
+        const metadata = await executor.getMetadata(`${baseUrl}/metadata`);
+
+        expect(metadata).toEqual({ name: 'Transformed' });
+    });
+
+    it('should short-circuit without reaching the transport', async () => {
+        const { transport, requests } = createTransport();
+        const executor = new MiniAppExecutor(undefined, undefined, { transport });
+        executor.use(async () => createTransportResponse({ body: { cached: true } }));
+
+        const result = await executor.request(baseUrl, '/config');
+
+        expect(result).toEqual({ cached: true });
+        expect(requests).toHaveLength(0);
+    });
+
+    it('should apply to dynamic action execution', async () => {
+        const { transport } = createTransport({ serializedTransaction: '0x1234', chainId: 43113 });
+        const middleware = jest.fn<ExecutorMiddleware>((request, next) => next(request));
+        const executor = new DynamicActionExecutor(undefined, undefined, {
+            transport,
+            middleware: [middleware],
+        });
+
+        await executor.execute(
+            { type: 'dynamic', label: 'Quote', path: '/api/quote', chains: { source: 43113 } },
+            {},
+            {
+                userAddress: '0x1111111111111111111111111111111111111111',
+                sourceChain: 43113,
+                baseUrl,
+            },
+        );
+
+        expect(middleware).toHaveBeenCalledTimes(1);
+        const [request] = middleware.mock.calls[0];
+        expect(request.headers[SDK_TO_PROXY_HEADERS.OPERATION]).toBe(VALID_OPERATIONS.EXECUTE);
+    });
+
+    it('should run the chain once per retry attempt with fresh headers', async () => {
+        let attempt = 0;
+        const transport = createInMemoryTransport(() =>
+            ++attempt === 1 ? { status: 503, body: 'Unavailable' } : { body: { ok: true } },
+        );
+        const seenHeaders: Array<string | undefined> = [];
+        const executor = new MiniAppExecutor(undefined, undefined, { transport });
+        executor.use(async (request, next) => {
+            seenHeaders.push(request.headers['X-Attempt']);
+            request.headers['X-Attempt'] = 'set';
+            return next(request);
+        });
+
+        await executor.getMetadata(`${baseUrl}/metadata`, {
+            retry: { maxAttempts: 2, baseDelayMs: 0 },
+        });
+
+        expect(seenHeaders).toEqual([undefined, undefined]);
+    });
+});
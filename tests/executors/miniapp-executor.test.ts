@@ -0,0 +1,126 @@
+import { describe, expect, it, beforeEach } from '@jest/globals';
+import fetchMock from 'jest-fetch-mock';
+import { MiniAppExecutor } from '../../src/executors/miniAppExecutor';
+import { ActionValidationError } from '../../src/errors/customErrors';
+import { SDK_TO_PROXY_HEADERS, VALID_OPERATIONS } from '../../src/headers/headers';
+
+describe('MiniAppExecutor', () => {
+    let executor: MiniAppExecutor;
+    const clientKey = 'test-client-key';
+    const baseUrl = 'https://miniapp.example.com';
+
+    const requestHeaders = (index = 0) =>
+        fetchMock.mock.calls[index][1]?.headers as Record<string, string>;
+
+    beforeEach(() => {
+        executor = new MiniAppExecutor(clientKey);
+        fetchMock.resetMocks();
+    });
+
+    describe('request', () => {
+        it('should send a GET request through the proxy with fetch headers', async () => {
+            fetchMock.mockResponseOnce(JSON.stringify({ ok: true }));
+
+            const result = await executor.request<{ ok: boolean }>(baseUrl, '/health');
+
+            expect(result.ok).toBe(true);
+            expect(fetchMock.mock.calls[0][0]).toBe('https://proxy.sherry.social/proxy');
+            expect(fetchMock.mock.calls[0][1]?.method).toBe('GET');
+            expect(fetchMock.mock.calls[0][1]?.body).toBeUndefined();
+
+            const headers = requestHeaders();
+            expect(headers[SDK_TO_PROXY_HEADERS.TARGET_URL]).toBe(`${baseUrl}/health`);
+            expect(headers[SDK_TO_PROXY_HEADERS.OPERATION]).toBe(VALID_OPERATIONS.FETCH);
+            expect(headers[SDK_TO_PROXY_HEADERS.CLIENT_KEY]).toBe(clientKey);
+        });
+
+        it('should append query parameters to the target URL', async () => {
+            fetchMock.mockResponseOnce(JSON.stringify({ price: '12.5' }));
+
+            await executor.request(baseUrl, '/quote?chain=43114', {
+                query: { from: 'AVAX', amount: 1, tags: ['a', 'b'], skip: undefined },
+            });
+
+            expect(requestHeaders()[SDK_TO_PROXY_HEADERS.TARGET_URL]).toBe(
+                `${baseUrl}/quote?chain=43114&from=AVAX&amount=1&tags=a&tags=b`,
+            );
+        });
+
+        it.each(['POST', 'PUT', 'DELETE'] as const)(
+            'should send %s requests with a JSON body and execute operation',
+            async method => {
+                fetchMock.mockResponseOnce(JSON.stringify({ saved: true }));
+
+                await executor.request(baseUrl, '/config', {
+                    method,
+                    body: { theme: 'dark' },
+                });
+
+                const [, init] = fetchMock.mock.calls[0];
+                expect(init?.method).toBe(method);
+                expect(init?.body).toBe(JSON.stringify({ theme: 'dark' }));
+
+                const headers = requestHeaders();
+                expect(headers['Content-Type']).toBe('application/json');
+                expect(headers[SDK_TO_PROXY_HEADERS.OPERATION]).toBe(VALID_OPERATIONS.EXECUTE);
+            },
+        );
+
+        it('should resolve undefined for a response without a body', async () => {
+            fetchMock.mockResponseOnce('', { status: 204 });
+
+            const result = await executor.request(baseUrl, '/items/1', { method: 'DELETE' });
+
+            expect(result).toBeUndefined();
+        });
+
+        it('should send FormData without a JSON Content-Type', async () => {
+            // The jest node environment does not expose FormData
+            class TestFormData {}
+            const globalScope = globalThis as any;
+            const originalFormData = globalScope.FormData;
+            globalScope.FormData = TestFormData;
+
+            try {
+                fetchMock.mockResponseOnce(JSON.stringify({ uploaded: true }));
+                const formData = new TestFormData() as FormData;
+
+                await executor.request(baseUrl, '/upload', { method: 'POST', body: formData });
+
+                expect(fetchMock.mock.calls[0][1]?.body).toBe(formData);
+                expect(requestHeaders()['Content-Type']).toBeUndefined();
+            } finally {
+                globalScope.FormData = originalFormData;
+            }
+        });
+
+        it('should apply per-request client key, headers and proxy URL', async () => {
+            fetchMock.mockResponseOnce(JSON.stringify({}));
+
+            await executor.request(baseUrl, '/custom', {
+                clientKey: 'other-key',
+                customHeaders: { 'X-Custom': 'value' },
+                proxyUrl: 'https://my-proxy.example.com',
+            });
+
+            expect(fetchMock.mock.calls[0][0]).toBe('https://my-proxy.example.com/proxy');
+            expect(requestHeaders()[SDK_TO_PROXY_HEADERS.CLIENT_KEY]).toBe('other-key');
+            expect(requestHeaders()['X-Custom']).toBe('value');
+        });
+
+        it('should reject a GET request with a body', async () => {
+            await expect(
+                executor.request(baseUrl, '/health', { body: { unexpected: true } }),
+            ).rejects.toThrow(ActionValidationError);
+            expect(fetchMock).not.toHaveBeenCalled();
+        });
+
+        it('should propagate HTTP errors', async () => {
+            fetchMock.mockResponseOnce('Not found', { status: 404 });
+
+            await expect(executor.request(baseUrl, '/missing')).rejects.toThrow(
+                'HTTP 404: Not found',
+            );
+        });
+    });
+});
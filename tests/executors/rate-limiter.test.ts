@@ -0,0 +1,169 @@
+import { describe, expect, it } from '@jest/globals';
+import { MiniAppExecutor } from '../../src/executors/miniAppExecutor';
+import { ExecutorConfig } from '../../src/executors/baseExecutor';
+import { RateLimiter, parseRateLimitHeaders } from '../../src/executors/rateLimiter';
+import {
+    createInMemoryTransport,
+    createTransportResponse,
+    InMemoryResponse,
+} from '../../src/executors/transport';
+import {
+    HttpRequestError,
+    RateLimitError,
+    RequestAbortedError,
+} from '../../src/errors/customErrors';
+
+describe('parseRateLimitHeaders', () => {
+    const now = Date.UTC(2025, 0, 1);
+    const headers = (values: Record<string, string>) =>
+        createTransportResponse({ headers: values }).headers;
+
+    it('should parse the limit, remaining requests and a relative reset', () => {
+        expect(
+            parseRateLimitHeaders(
+                headers({
+                    'X-RateLimit-Limit': '100',
+                    'X-RateLimit-Remaining': '7',
+                    'X-RateLimit-Reset': '30',
+                }),
+                now,
+            ),
+        ).toEqual({ limit: 100, remaining: 7, resetAt: new Date(now + 30_000) });
+    });
+
+    it('should read resets given as Unix timestamps', () => {
+        const reset = now / 1000 + 60;
+
+        expect(
+            parseRateLimitHeaders(headers({ 'X-RateLimit-Reset': String(reset) }), now).resetAt,
+        ).toEqual(new Date(now + 60_000));
+    });
+
+    it('should fall back to the unprefixed headers and ignore invalid values', () => {
+        expect(
+            parseRateLimitHeaders(
+                headers({ 'RateLimit-Remaining': '0', 'X-RateLimit-Limit': 'many' }),
+                now,
+            ),
+        ).toEqual({ limit: undefined, remaining: 0, resetAt: undefined });
+    });
+});
+
+describe('Executor rate limiting', () => {
+    const url = 'https://miniapp.example.com/metadata';
+
+    const createExecutor = (
+        config: ExecutorConfig = {},
+        respond: () => InMemoryResponse = () => ({ body: { name: 'App' } }),
+    ) => {
+        const sentAt: number[] = [];
+        const executor = new MiniAppExecutor('test-client-key', undefined, {
+            ...config,
+            transport: createInMemoryTransport(() => {
+                sentAt.push(Date.now());
+                return respond();
+            }),
+        });
+        return { executor, sentAt };
+    };
+
+    it('should throw a RateLimitError with the reset time on HTTP 429', async () => {
+        const { executor } = createExecutor({}, () => ({
+            status: 429,
+            headers: {
+                'Retry-After': '5',
+                'X-RateLimit-Limit': '60',
+                'X-RateLimit-Remaining': '0',
+            },
+            body: 'Too Many Requests',
+        }));
+
+        const before = Date.now();
+        const error = await executor.getMetadata(url).catch(e => e);
+
+        expect(error).toBeInstanceOf(RateLimitError);
+        expect(error).toBeInstanceOf(HttpRequestError);
+        expect(error.status).toBe(429);
+        expect(error.message).toBe('HTTP 429: Too Many Requests');
+        expect(error.retryAfterMs).toBe(5000);
+        expect(error.limit).toBe(60);
+        expect(error.remaining).toBe(0);
+        expect(error.resetAt.getTime()).toBeGreaterThanOrEqual(before + 5000);
+    });
+
+    it('should refuse requests over the client-side limit', async () => {
+        const { executor, sentAt } = createExecutor({
+            rateLimit: { limit: 2, intervalMs: 60_000 },
+        });
+
+        await executor.getMetadata(url);
+        await executor.getMetadata(url);
+        const error = await executor.getMetadata(url).catch(e => e);
+
+        expect(error).toBeInstanceOf(RateLimitError);
+        expect(error.limit).toBe(2);
+        expect(error.retryAfterMs).toBeGreaterThan(29_000);
+        expect(error.resetAt).toBeInstanceOf(Date);
+        expect(sentAt).toHaveLength(2);
+    });
+
+    it('should wait for the bucket to refill in queue mode', async () => {
+        const { executor, sentAt } = createExecutor({
+            rateLimit: { limit: 1, intervalMs: 40, strategy: 'queue' },
+        });
+
+        await Promise.all([1, 2, 3].map(() => executor.getMetadata(url)));
+
+        expect(sentAt).toHaveLength(3);
+        expect(sentAt[2] - sentAt[0]).toBeGreaterThanOrEqual(70);
+    });
+
+    it('should fail queued requests that would wait longer than maxWaitMs', async () => {
+        const { executor } = createExecutor({
+            rateLimit: { limit: 1, intervalMs: 60_000, strategy: 'queue', maxWaitMs: 100 },
+        });
+
+        await executor.getMetadata(url);
+
+        await expect(executor.getMetadata(url)).rejects.toThrow(RateLimitError);
+    });
+
+    it('should stop queueing when the request is aborted', async () => {
+        const { executor, sentAt } = createExecutor({
+            rateLimit: { limit: 1, intervalMs: 60_000, strategy: 'queue' },
+        });
+        await executor.getMetadata(url);
+
+        const controller = new AbortController();
+        const pending = executor.getMetadata(url, { signal: controller.signal });
+        controller.abort();
+
+        await expect(pending).rejects.toThrow(RequestAbortedError);
+        expect(sentAt).toHaveLength(1);
+    });
+
+    it('should hold requests until the server limit resets', async () => {
+        const { executor, sentAt } = createExecutor({ rateLimit: { limit: 100 } }, () => ({
+            headers: { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': '10' },
+            body: { name: 'App' },
+        }));
+
+        await executor.getMetadata(url);
+        const error = await executor.getMetadata(url).catch(e => e);
+
+        expect(error).toBeInstanceOf(RateLimitError);
+        expect(error.retryAfterMs).toBeGreaterThan(9000);
+        expect(sentAt).toHaveLength(1);
+    });
+
+    it('should share a limiter between executors', async () => {
+        const rateLimit = new RateLimiter({ limit: 1, intervalMs: 60_000 });
+        const first = createExecutor({ rateLimit });
+        const second = createExecutor({ rateLimit });
+
+        await first.executor.getMetadata(url);
+
+        await expect(second.executor.getMetadata(url)).rejects.toThrow(RateLimitError);
+        expect(second.sentAt).toHaveLength(0);
+    });
+});
@@ -0,0 +1,167 @@
+import { describe, expect, it } from '@jest/globals';
+import { encodeFunctionData, erc20Abi, parseEther, parseGwei, serializeTransaction } from 'viem';
+import { decodeExecutionResponse } from '../../src/executors/responseDecoder';
+import { ExecutionResponse } from '../../src/interface/response/executionResponse';
+import { ActionValidationError } from '../../src/errors/customErrors';
+
+describe('decodeExecutionResponse', () => {
+    const token = '0x3333333333333333333333333333333333333333';
+    const recipient = '0x1111111111111111111111111111111111111111';
+
+    const data = encodeFunctionData({
+        abi: erc20Abi,
+        functionName: 'transfer',
+        args: [recipient, 1_000_000n],
+    });
+
+    const response = (
+        serializedTransaction: string,
+        overrides: Partial<ExecutionResponse> = {},
+    ): ExecutionResponse => ({
+        serializedTransaction,
+        chainId: 43114,
+        ...overrides,
+    });
+
+    it('should decode an EIP-1559 transaction', () => {
+        const serialized = serializeTransaction({
+            chainId: 43114,
+            to: token,
+            data,
+            gas: 60_000n,
+            nonce: 7,
+            maxFeePerGas: parseGwei('30'),
+            maxPriorityFeePerGas: parseGwei('2'),
+        });
+
+        const decoded = decodeExecutionResponse(response(serialized));
+
+        expect(decoded).toEqual(
+            expect.objectContaining({
+                type: 'eip1559',
+                to: token,
+                value: 0n,
+                data,
+                gas: 60_000n,
+                chainId: 43114,
+                nonce: 7,
+                maxFeePerGas: parseGwei('30'),
+                maxPriorityFeePerGas: parseGwei('2'),
+                mismatches: [],
+            }),
+        );
+        expect(decoded.functionCall).toBeUndefined();
+    });
+
+    it('should decode legacy and EIP-2930 transactions', () => {
+        const legacy = serializeTransaction({
+            chainId: 43114,
+            to: recipient,
+            value: parseEther('1'),
+            gasPrice: parseGwei('25'),
+        });
+        const eip2930 = serializeTransaction({
+            chainId: 43114,
+            to: recipient,
+            gasPrice: parseGwei('25'),
+            accessList: [],
+        });
+
+        expect(decodeExecutionResponse(response(legacy))).toEqual(
+            expect.objectContaining({
+                type: 'legacy',
+                value: parseEther('1'),
+                gasPrice: parseGwei('25'),
+                chainId: 43114,
+            }),
+        );
+        expect(decodeExecutionResponse(response(eip2930)).type).toBe('eip2930');
+    });
+
+    it('should decode the function call with the response ABI', () => {
+        const serialized = serializeTransaction({
+            type: 'eip1559',
+            chainId: 43114,
+            to: token,
+            data,
+        });
+
+        const decoded = decodeExecutionResponse(
+            response(serialized, {
+                abi: erc20Abi as unknown as any[],
+                params: { functionName: 'transfer', args: { recipient, amount: '1000000' } },
+            }),
+        );
+
+        expect(decoded.functionCall).toEqual({
+            functionName: 'transfer',
+            args: [recipient, 1_000_000n],
+            namedArgs: { recipient, amount: 1_000_000n },
+        });
+        expect(decoded.mismatches).toEqual([]);
+    });
+
+    it('should flag a chainId that differs from the transaction', () => {
+        const serialized = serializeTransaction({
+            type: 'eip1559',
+            chainId: 1,
+            to: recipient,
+            value: 1n,
+        });
+
+        const decoded = decodeExecutionResponse(response(serialized));
+
+        expect(decoded.mismatches).toEqual([
+            expect.objectContaining({ field: 'chainId', expected: 43114, actual: 1 }),
+        ]);
+    });
+
+    it('should flag a functionName that does not match the calldata', () => {
+        const serialized = serializeTransaction({
+            type: 'eip1559',
+            chainId: 43114,
+            to: token,
+            data,
+        });
+
+        const decoded = decodeExecutionResponse(
+            response(serialized, {
+                abi: erc20Abi as unknown as any[],
+                params: { functionName: 'approve', args: {} },
+            }),
+        );
+
+        expect(decoded.mismatches).toEqual([
+            expect.objectContaining({
+                field: 'functionName',
+                expected: 'approve',
+                actual: 'transfer',
+            }),
+        ]);
+    });
+
+    it('should flag calldata that is not in the ABI', () => {
+        const serialized = serializeTransaction({
+            type: 'eip1559',
+            chainId: 43114,
+            to: token,
+            data: '0xdeadbeef',
+        });
+
+        const decoded = decodeExecutionResponse(
+            response(serialized, { abi: erc20Abi as unknown as any[] }),
+        );
+
+        expect(decoded.functionCall).toBeUndefined();
+        expect(decoded.mismatches).toEqual([
+            expect.objectContaining({ field: 'abi', actual: '0xdeadbeef' }),
+        ]);
+    });
+
+    it('should reject invalid serialized transactions', () => {
+        expect(() => decodeExecutionResponse(response('not-hex'))).toThrow(ActionValidationError);
+        expect(() => decodeExecutionResponse(response('0x1234'))).toThrow(
+            'Invalid serialized transaction',
+        );
+    });
+});
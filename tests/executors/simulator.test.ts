@@ -0,0 +1,205 @@
+import { describe, expect, it, beforeEach } from '@jest/globals';
+import fetchMock from 'jest-fetch-mock';
+import {
+    Abi,
+    createPublicClient,
+    custom,
+    encodeErrorResult,
+    encodeFunctionData,
+    erc20Abi,
+    serializeTransaction,
+} from 'viem';
+import { simulate } from '../../src/executors/simulator';
+import { TransactionRequest } from '../../src/executors/transactionBuilder';
+import { ActionValidationError } from '../../src/errors/customErrors';
+
+describe('simulate', () => {
+    const token = '0x3333333333333333333333333333333333333333';
+    const account = '0x1111111111111111111111111111111111111111';
+
+    const errorsAbi = [
+        {
+            type: 'error',
+            name: 'InsufficientBalance',
+            inputs: [
+                { name: 'available', type: 'uint256' },
+                { name: 'required', type: 'uint256' },
+            ],
+        },
+    ] as const satisfies Abi;
+
+    const transaction: TransactionRequest = {
+        to: token,
+        data: encodeFunctionData({
+            abi: erc20Abi,
+            functionName: 'transfer',
+            args: [account, 100n],
+        }),
+        value: 0n,
+        chainId: 43114,
+    };
+
+    beforeEach(() => {
+        fetchMock.resetMocks();
+    });
+
+    const revertWith = (data: `0x${string}`) => {
+        const error: any = new Error('execution reverted');
+        error.code = 3;
+        error.data = data;
+        return error;
+    };
+
+    const createClient = (handler: (method: string, params: any) => unknown) =>
+        createPublicClient({
+            transport: custom(
+                { request: async ({ method, params }) => handler(method, params) },
+                { retryCount: 0 },
+            ),
+        });
+
+    it('should run eth_call and estimateGas against the RPC URL', async () => {
+        const rpcUrl = 'http://127.0.0.1:8545';
+        const methods: string[] = [];
+        fetchMock.mockResponse(async request => {
+            const { id, method } = await request.json();
+            methods.push(method);
+            const result =
+                method === 'eth_estimateGas'
+                    ? '0xc350'
+                    : '0x0000000000000000000000000000000000000000000000000000000000000001';
+            return JSON.stringify({ jsonrpc: '2.0', id, result });
+        });
+
+        const result = await simulate(transaction, { rpcUrl, account });
+
+        expect(result).toEqual({
+            success: true,
+            gasEstimate: 50_000n,
+            returnData: '0x0000000000000000000000000000000000000000000000000000000000000001',
+        });
+        expect(methods).toEqual(['eth_call', 'eth_estimateGas']);
+        expect(fetchMock.mock.calls.every(([url]) => url === rpcUrl)).toBe(true);
+    });
+
+    it('should throw when the RPC cannot be reached', async () => {
+        fetchMock.mockResponse('Bad Gateway', { status: 502 });
+
+        await expect(
+            simulate(transaction, { rpcUrl: 'http://127.0.0.1:8545', account }),
+        ).rejects.toThrow('HTTP request failed');
+    });
+
+    it('should decode Error(string) reverts', async () => {
+        const client = createClient(method => {
+            if (method === 'eth_call') {
+                throw revertWith(
+                    encodeErrorResult({
+                        abi: [
+                            {
+                                type: 'error',
+                                name: 'Error',
+                                inputs: [{ name: '', type: 'string' }],
+                            },
+                        ],
+                        errorName: 'Error',
+                        args: ['ERC20: transfer amount exceeds balance'],
+                    }),
+                );
+            }
+            return '0x';
+        });
+
+        const result = await simulate(transaction, { client: client as any, account });
+
+        expect(result.success).toBe(false);
+        expect(result.revert).toEqual(
+            expect.objectContaining({
+                reason: 'ERC20: transfer amount exceeds balance',
+                errorName: 'Error',
+            }),
+        );
+    });
+
+    it('should decode custom errors with the ABI of an ExecutionResponse', async () => {
+        const client = createClient(method => {
+            if (method === 'eth_call') {
+                throw revertWith(
+                    encodeErrorResult({
+                        abi: errorsAbi,
+                        errorName: 'InsufficientBalance',
+                        args: [10n, 100n],
+                    }),
+                );
+            }
+            return '0x';
+        });
+
+        const result = await simulate(
+            {
+                serializedTransaction: serializeTransaction({
+                    type: 'eip1559',
+                    chainId: 43114,
+                    to: transaction.to,
+                    data: transaction.data,
+                }),
+                chainId: 43114,
+                abi: [...erc20Abi, ...errorsAbi],
+            },
+            { client: client as any },
+        );
+
+        expect(result.revert).toEqual(
+            expect.objectContaining({
+                reason: 'InsufficientBalance(10, 100)',
+                errorName: 'InsufficientBalance',
+                args: [10n, 100n],
+            }),
+        );
+    });
+
+    it('should report reverts raised by gas estimation', async () => {
+        const client = createClient(method => {
+            if (method === 'eth_estimateGas') {
+                throw revertWith(
+                    encodeErrorResult({
+                        abi: [
+                            {
+                                type: 'error',
+                                name: 'Panic',
+                                inputs: [{ name: '', type: 'uint256' }],
+                            },
+                        ],
+                        errorName: 'Panic',
+                        args: [17n],
+                    }),
+                );
+            }
+            return '0x';
+        });
+
+        const result = await simulate(transaction, { client: client as any });
+
+        expect(result.success).toBe(false);
+        expect(result.revert?.reason).toBe('Panic(17)');
+    });
+
+    it('should report unknown revert data by selector', async () => {
+        const client = createClient(() => {
+            throw revertWith('0xdeadbeef');
+        });
+
+        const result = await simulate(transaction, { client: client as any });
+
+        expect(result.revert).toEqual({
+            reason: 'Unknown revert with selector 0xdeadbeef',
+            data: '0xdeadbeef',
+        });
+    });
+
+    it('should require an RPC for unknown chains', async () => {
+        await expect(simulate({ ...transaction, chainId: 999999 })).rejects.toThrow(
+            ActionValidationError,
+        );
+    });
+});
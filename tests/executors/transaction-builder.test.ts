@@ -0,0 +1,424 @@
+import { describe, expect, it } from '@jest/globals';
+import { Abi, decodeFunctionData, erc20Abi, parseEther } from 'viem';
+import {
+    buildBlockchainTransaction,
+    buildTransferTransaction,
+    coerceInputs,
+} from '../../src/executors/transactionBuilder';
+import { TransferAction } from '../../src/interface/actions/transferAction';
+import { BlockchainActionMetadata } from '../../src/interface/actions/blockchainAction';
+import { BlockchainActionValidator } from '../../src/validators/blockchainActionValidator';
+import { ActionValidationError } from '../../src/errors/customErrors';
+
+describe('buildTransferTransaction', () => {
+    const recipient = '0x1111111111111111111111111111111111111111';
+    const otherRecipient = '0x2222222222222222222222222222222222222222';
+    const token = '0x3333333333333333333333333333333333333333';
+
+    const nativeAction: TransferAction = {
+        type: 'transfer',
+        label: 'Tip',
+        to: recipient,
+        amount: 0.5,
+        chains: { source: 43114 },
+    };
+
+    it('should build a native transfer with the chain decimals', () => {
+        expect(buildTransferTransaction(nativeAction)).toEqual({
+            to: recipient,
+            value: parseEther('0.5'),
+            chainId: 43114,
+        });
+    });
+
+    it('should encode an ERC-20 transfer with the token decimals', () => {
+        const transaction = buildTransferTransaction(
+            { ...nativeAction, token, amount: 12.5 },
+            {},
+            { tokenDecimals: 6 },
+        );
+
+        expect(transaction.to).toBe(token);
+        expect(transaction.value).toBe(0n);
+        expect(decodeFunctionData({ abi: erc20Abi, data: transaction.data! })).toEqual({
+            functionName: 'transfer',
+            args: [recipient, 12_500_000n],
+        });
+    });
+
+    it('should convert amounts without losing precision', () => {
+        const send = (amount: number | string) =>
+            buildTransferTransaction(
+                { type: 'transfer', label: 'Send', chains: { source: 43114 } },
+                { to: recipient, amount },
+            ).value;
+
+        expect(send('0.0000001')).toBe(100_000_000_000n);
+        expect(send(0.0000001)).toBe(100_000_000_000n);
+        expect(send('1.123456789012345678')).toBe(1_123_456_789_012_345_678n);
+        expect(() => send('1.1234567890123456789')).toThrow(
+            new ActionValidationError(
+                "Invalid amount for 'Send': 1.1234567890123456789 has more than 18 decimals",
+            ),
+        );
+    });
+
+    it('should reject amounts with more decimals than the token', () => {
+        expect(() =>
+            buildTransferTransaction(
+                { ...nativeAction, token, amount: 0.0000001 },
+                {},
+                { tokenDecimals: 6 },
+            ),
+        ).toThrow(
+            new ActionValidationError(
+                "Invalid amount for 'Tip': 0.0000001 has more than 6 decimals",
+            ),
+        );
+    });
+
+    it('should require the token decimals for ERC-20 transfers', () => {
+        expect(() => buildTransferTransaction({ ...nativeAction, token })).toThrow(
+            "'tokenDecimals' must be provided",
+        );
+    });
+
+    it('should take the recipient and amount from the user inputs', () => {
+        const transaction = buildTransferTransaction(
+            { type: 'transfer', label: 'Send', chains: { source: 43113 } },
+            { to: otherRecipient, amount: '2' },
+        );
+
+        expect(transaction).toEqual({ to: otherRecipient, value: parseEther('2'), chainId: 43113 });
+    });
+
+    it('should prefer the fixed values of the action over user inputs', () => {
+        const transaction = buildTransferTransaction(nativeAction, {
+            to: otherRecipient,
+            amount: 100,
+        });
+
+        expect(transaction.to).toBe(recipient);
+        expect(transaction.value).toBe(parseEther('0.5'));
+    });
+
+    it('should fall back to the configured default values', () => {
+        const transaction = buildTransferTransaction({
+            type: 'transfer',
+            label: 'Donate',
+            recipient: { defaultValue: otherRecipient },
+            amountConfig: { defaultValue: 1 },
+            chains: { source: 43114 },
+        });
+
+        expect(transaction.to).toBe(otherRecipient);
+        expect(transaction.value).toBe(parseEther('1'));
+    });
+
+    describe('option sets', () => {
+        const action: TransferAction = {
+            type: 'transfer',
+            label: 'Donate',
+            recipient: {
+                type: 'select',
+                options: [
+                    { label: 'Alice', value: recipient },
+                    { label: 'Bob', value: otherRecipient },
+                ],
+            },
+            amountConfig: {
+                type: 'radio',
+                options: [
+                    { label: '1 AVAX', value: 1 },
+                    { label: '5 AVAX', value: 5 },
+                ],
+            },
+            chains: { source: 43114 },
+        };
+
+        it('should accept inputs from the options', () => {
+            const transaction = buildTransferTransaction(action, {
+                to: otherRecipient.toUpperCase().replace('0X', '0x'),
+                amount: '5',
+            });
+
+            expect(transaction.value).toBe(parseEther('5'));
+        });
+
+        it('should reject a recipient outside the options', () => {
+            expect(() =>
+                buildTransferTransaction(action, {
+                    to: '0x4444444444444444444444444444444444444444',
+                    amount: 1,
+                }),
+            ).toThrow('is not one of the options');
+        });
+
+        it('should compare amounts with the options as decimals', () => {
+            expect(buildTransferTransaction(action, { to: recipient, amount: '5.0' }).value).toBe(
+                parseEther('5'),
+            );
+        });
+
+        it('should reject an amount outside the options', () => {
+            expect(() => buildTransferTransaction(action, { to: recipient, amount: 3 })).toThrow(
+                'Amount 3 is not one of the options',
+            );
+        });
+    });
+
+    it.each([
+        [{ amount: 1 }, 'has no recipient'],
+        [{ to: 'not-an-address', amount: 1 }, 'Invalid recipient address'],
+        [{ to: recipient }, 'has no amount'],
+        [{ to: recipient, amount: -1 }, 'Invalid amount'],
+        [{ to: recipient, amount: 'abc' }, 'Invalid amount'],
+        [{ to: recipient, amount: '1e-7' }, 'Invalid amount'],
+        [{ to: recipient, amount: '0.000' }, 'Invalid amount'],
+    ])('should reject invalid inputs %j', (inputs, message) => {
+        expect(() =>
+            buildTransferTransaction(
+                { type: 'transfer', label: 'Send', chains: { source: 43114 } },
+                inputs,
+            ),
+        ).toThrow(ActionValidationError);
+        expect(() =>
+            buildTransferTransaction(
+                { type: 'transfer', label: 'Send', chains: { source: 43114 } },
+                inputs,
+            ),
+        ).toThrow(message);
+    });
+});
+
+describe('buildBlockchainTransaction', () => {
+    const contract = '0x3333333333333333333333333333333333333333';
+    const userAddress = '0x1111111111111111111111111111111111111111';
+
+    const abi = [
+        {
+            type: 'function',
+            name: 'mint',
+            stateMutability: 'payable',
+            inputs: [
+                { name: 'to', type: 'address' },
+                { name: 'quantity', type: 'uint8' },
+                { name: 'soulbound', type: 'bool' },
+                { name: 'tag', type: 'bytes4' },
+                { name: 'ids', type: 'uint256[]' },
+            ],
+            outputs: [],
+        },
+        {
+            type: 'function',
+            name: 'setLimit',
+            stateMutability: 'nonpayable',
+            inputs: [{ name: 'limit', type: 'int16' }],
+            outputs: [],
+        },
+    ] as const satisfies Abi;
+
+    const mintMetadata: BlockchainActionMetadata = {
+        type: 'blockchain',
+        label: 'Mint',
+        address: contract,
+        abi,
+        functionName: 'mint',
+        amount: 0.1,
+        chains: { source: 43114 },
+        params: [
+            { name: 'to', label: 'Recipient', type: 'address', value: 'sender' },
+            { name: 'quantity', label: 'Quantity', type: 'number', value: 1 },
+            { name: 'soulbound', label: 'Soulbound', type: 'bool', fixed: true, value: false },
+            { name: 'tag', label: 'Tag', type: 'bytes4', value: '0x12345678' },
+            { name: 'ids', label: 'Ids', type: 'uint256[]' },
+        ],
+    };
+
+    const mintAction = BlockchainActionValidator.validateBlockchainAction(mintMetadata);
+
+    const decode = (data: `0x${string}`) => decodeFunctionData({ abi, data });
+
+    it('should merge fixed values, defaults and inputs in ABI order', () => {
+        const transaction = buildBlockchainTransaction(
+            mintAction,
+            { quantity: '3', soulbound: 'true', ids: '[1, "2"]' },
+            { userAddress },
+        );
+
+        expect(transaction.to).toBe(contract);
+        expect(transaction.chainId).toBe(43114);
+        expect(decode(transaction.data!)).toEqual({
+            functionName: 'mint',
+            args: [userAddress, 3, false, '0x12345678', [1n, 2n]],
+        });
+    });
+
+    it('should send the top-level amount of payable functions in wei', () => {
+        const transaction = buildBlockchainTransaction(mintAction, { ids: [] }, { userAddress });
+
+        expect(transaction.value).toBe(parseEther('0.1'));
+    });
+
+    it('should send no value for non-payable functions', () => {
+        const action = BlockchainActionValidator.validateBlockchainAction({
+            type: 'blockchain',
+            label: 'Set limit',
+            address: contract,
+            abi,
+            functionName: 'setLimit',
+            chains: { source: 43114 },
+        });
+
+        const transaction = buildBlockchainTransaction(action, { limit: '-5' });
+
+        expect(transaction.value).toBe(0n);
+        expect(decode(transaction.data!).args).toEqual([-5]);
+    });
+
+    it('should require the user address for sender values', () => {
+        expect(() => buildBlockchainTransaction(mintAction, { ids: [] })).toThrow(
+            "Parameter 'to' uses 'sender' but no userAddress was provided",
+        );
+    });
+
+    it.each([
+        [{}, "Missing value for parameter 'ids'"],
+        [{ ids: [], quantity: '256' }, "parameter 'quantity' is not a valid uint8"],
+        [{ ids: [], quantity: '1.5' }, "parameter 'quantity' is not a valid uint8"],
+        [{ ids: [], tag: '0x1234' }, "parameter 'tag' is not a valid bytes4"],
+        [{ ids: ['x'] }, "parameter 'ids[0]' is not a valid uint256"],
+        [{ ids: '[1, 2' }, "parameter 'ids' is not a valid uint256[]"],
+        [{ ids: [], to: '0x1234' }, "parameter 'to' is not a valid address"],
+    ])('should reject invalid inputs %j', (inputs, message) => {
+        expect(() => buildBlockchainTransaction(mintAction, inputs, { userAddress })).toThrow(
+            message,
+        );
+    });
+});
+
+describe('coerceInputs', () => {
+    const abi = [
+        {
+            type: 'function',
+            name: 'schedule',
+            stateMutability: 'nonpayable',
+            inputs: [
+                { name: 'at', type: 'uint64' },
+                { name: 'salt', type: 'bytes4' },
+                { name: 'recipients', type: 'address[]' },
+                { name: 'delta', type: 'int8' },
+                { name: 'enabled', type: 'bool' },
+            ],
+            outputs: [],
+        },
+    ] as const satisfies Abi;
+
+    const action = BlockchainActionValidator.validateBlockchainAction({
+        type: 'blockchain',
+        label: 'Schedule',
+        address: '0x3333333333333333333333333333333333333333',
+        abi,
+        functionName: 'schedule',
+        chains: { source: 43114 },
+        params: [
+            { name: 'at', label: 'At', type: 'datetime' },
+            { name: 'salt', label: 'Salt', type: 'bytes4' },
+            { name: 'recipients', label: 'Recipients', type: 'address[]' },
+            { name: 'delta', label: 'Delta', type: 'number' },
+            { name: 'enabled', label: 'Enabled', type: 'bool' },
+        ],
+    } as BlockchainActionMetadata);
+
+    const first = '0x1111111111111111111111111111111111111111';
+    const second = '0x2222222222222222222222222222222222222222';
+
+    it('should convert form strings to ABI-typed values', () => {
+        expect(
+            coerceInputs(action, {
+                at: '2025-01-01T00:00:00Z',
+                salt: 'DEADBEEF',
+                recipients: `${first}, ${second}`,
+                delta: '-128',
+                enabled: 'false',
+                unknown: 'ignored',
+            }),
+        ).toEqual({
+            at: 1735689600n,
+            salt: '0xdeadbeef',
+            recipients: [first, second],
+            delta: -128n,
+            enabled: false,
+        });
+    });
+
+    it('should accept unix seconds and JSON arrays', () => {
+        expect(
+            coerceInputs(action, {
+                at: '1735689600',
+                recipients: `["${first}", "${second}"]`,
+                salt: '',
+            }),
+        ).toEqual({ at: 1735689600n, recipients: [first, second] });
+    });
+
+    it('should reject null tuples', () => {
+        const tupleAction = BlockchainActionValidator.validateBlockchainAction({
+            type: 'blockchain',
+            label: 'Pay',
+            address: '0x3333333333333333333333333333333333333333',
+            abi: [
+                {
+                    type: 'function',
+                    name: 'pay',
+                    stateMutability: 'nonpayable',
+                    inputs: [
+                        {
+                            name: 'payments',
+                            type: 'tuple[]',
+                            components: [
+                                { name: 'to', type: 'address' },
+                                { name: 'amount', type: 'uint256' },
+                            ],
+                        },
+                    ],
+                    outputs: [],
+                },
+            ],
+            functionName: 'pay',
+            chains: { source: 43114 },
+        } as BlockchainActionMetadata);
+
+        expect(() => coerceInputs(tupleAction, { payments: '[null]' })).toThrow(
+            new ActionValidationError(
+                "Value null of parameter 'payments[0]' is not a valid tuple: expected an object or an array",
+            ),
+        );
+    });
+
+    it.each([
+        [{ delta: '128' }, 'delta', 'above the maximum of 127'],
+        [{ delta: '-129' }, 'delta', 'below the minimum of -128'],
+        [{ delta: 1.5 }, 'delta', 'must be an integer'],
+        [{ at: 'someday' }, 'at', 'not a valid date'],
+        [{ salt: '0x1234' }, 'salt', 'expected 4 bytes, got 2'],
+        [{ salt: '0x123' }, 'salt', 'odd number of digits'],
+        [{ salt: 'xyz' }, 'salt', 'expected a hex string'],
+        [{ recipients: `${first}, 0x12` }, 'recipients[1]', 'expected a 20-byte hex address'],
+        [{ recipients: '[1,' }, 'recipients', 'not a valid JSON array'],
+        [{ enabled: 'yes' }, 'enabled', 'expected true or false'],
+    ])('should reject %j with a precise error', (inputs, path, reason) => {
+        const error = (() => {
+            try {
+                coerceInputs(action, inputs);
+            } catch (e) {
+                return e as ActionValidationError;
+            }
+        })();
+
+        expect(error).toBeInstanceOf(ActionValidationError);
+        expect(error?.path).toBe(path);
+        expect(error?.message).toContain(`parameter '${path}'`);
+        expect(error?.message).toContain(reason);
+    });
+});
@@ -0,0 +1,176 @@
+import { describe, expect, it, jest, beforeEach, afterAll, beforeAll } from '@jest/globals';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import fetchMock from 'jest-fetch-mock';
+import { MiniAppExecutor } from '../../src/executors/miniAppExecutor';
+import {
+    createFetchTransport,
+    createInMemoryTransport,
+    TransportRequest,
+} from '../../src/executors/transport';
+import { createNodeHttpTransport } from '../../src/executors/nodeHttpTransport';
+import { HttpRequestError, RequestTimeoutError } from '../../src/errors/customErrors';
+import { SDK_TO_PROXY_HEADERS } from '../../src/headers/headers';
+
+describe('Executor transports', () => {
+    const baseUrl = 'https://miniapp.example.com';
+
+    beforeEach(() => {
+        fetchMock.resetMocks();
+    });
+
+    describe('createInMemoryTransport', () => {
+        it('should answer executor requests without touching fetch', async () => {
+            const requests: TransportRequest[] = [];
+            const executor = new MiniAppExecutor('test-client-key', undefined, {
+                transport: createInMemoryTransport(request => {
+                    requests.push(request);
+                    return { body: { name: 'Test App' } };
+                }),
+            });
+
+            const metadata = await executor.getMetadata(`${baseUrl}/metadata`);
+
+            expect(metadata).toEqual({ name: 'Test App' });
+            expect(fetchMock).not.toHaveBeenCalled();
+            expect(requests[0].url).toBe(
+                `https://proxy.sherry.social/proxy?url=${encodeURIComponent(`${baseUrl}/metadata`)}`,
+            );
+            expect(requests[0].headers[SDK_TO_PROXY_HEADERS.CLIENT_KEY]).toBe('test-client-key');
+        });
+
+        it('should report HTTP errors and response headers', async () => {
+            const executor = new MiniAppExecutor(undefined, undefined, {
+                transport: createInMemoryTransport(() => ({
+                    status: 503,
+                    headers: { 'Retry-After': '4' },
+                    body: 'Service Unavailable',
+                })),
+            });
+
+            const error = await executor.request(baseUrl, '/health').catch(e => e);
+
+            expect(error).toBeInstanceOf(HttpRequestError);
+            expect(error.message).toBe('HTTP 503: Service Unavailable');
+            expect(error.retryAfterMs).toBe(4000);
+        });
+    });
+
+    describe('createFetchTransport', () => {
+        it('should use the provided fetch implementation', async () => {
+            const customFetch = jest.fn(async () => new Response(JSON.stringify({ ok: true })));
+            const executor = new MiniAppExecutor(undefined, undefined, {
+                transport: createFetchTransport(customFetch as unknown as typeof fetch),
+            });
+
+            await executor.request(baseUrl, '/health');
+
+            expect(customFetch).toHaveBeenCalledTimes(1);
+            expect(fetchMock).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('createNodeHttpTransport', () => {
+        let server: http.Server;
+        let serverUrl: string;
+
+        beforeAll(async () => {
+            server = http.createServer((req, res) => {
+                if (req.url === '/broken') {
+                    // Send part of the body, then drop the connection
+                    res.writeHead(200, { 'Content-Length': '100' });
+                    res.write('{"partial"', () => req.socket.destroy());
+                    return;
+                }
+
+                if (String(req.headers['x-sherry-target-url']).endsWith('/slow')) {
+                    setTimeout(() => res.end('{}'), 500);
+                    return;
+                }
+
+                let body = '';
+                req.on('data', chunk => (body += chunk));
+                req.on('end', () => {
+                    res.setHeader('Content-Type', 'application/json');
+                    res.end(
+                        JSON.stringify({
+                            method: req.method,
+                            target: req.headers['x-sherry-target-url'],
+                            body: body ? JSON.parse(body) : null,
+                        }),
+                    );
+                });
+            });
+            await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+            serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        });
+
+        afterAll(async () => {
+            await new Promise(resolve => server.close(resolve));
+        });
+
+        it('should send requests through Node http', async () => {
+            const executor = new MiniAppExecutor(undefined, serverUrl, {
+                transport: createNodeHttpTransport({ agent: new http.Agent() }),
+            });
+
+            const result = await executor.request(baseUrl, '/config', {
+                method: 'POST',
+                body: { theme: 'dark' },
+            });
+
+            expect(result).toEqual({
+                method: 'POST',
+                target: `${baseUrl}/config`,
+                body: { theme: 'dark' },
+            });
+            expect(fetchMock).not.toHaveBeenCalled();
+        });
+
+        it('should abort requests that exceed the timeout', async () => {
+            const executor = new MiniAppExecutor(undefined, serverUrl, {
+                transport: createNodeHttpTransport(),
+            });
+
+            await expect(
+                executor.request(baseUrl, '/slow', { timeout: 20 }),
+            ).rejects.toBeInstanceOf(RequestTimeoutError);
+        });
+
+        it('should remove the abort listener when the response fails', async () => {
+            const transport = createNodeHttpTransport();
+            const controller = new AbortController();
+            const removeListener = jest.spyOn(controller.signal, 'removeEventListener');
+
+            await expect(
+                transport.request({
+                    url: `${serverUrl}/broken`,
+                    method: 'GET',
+                    headers: {},
+                    signal: controller.signal,
+                }),
+            ).rejects.toThrow();
+            expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function));
+        });
+
+        it('should report connection failures as network errors', async () => {
+            const transport = createNodeHttpTransport();
+
+            await expect(
+                transport.request({ url: 'http://127.0.0.1:1/', method: 'GET', headers: {} }),
+            ).rejects.toBeInstanceOf(TypeError);
+        });
+    });
+
+    it('should not require process.env to create an executor', () => {
+        const globalScope = globalThis as any;
+        const originalProcess = globalScope.process;
+        globalScope.process = undefined;
+
+        try {
+            expect(() => new MiniAppExecutor()).not.toThrow();
+        } finally {
+            globalScope.process = originalProcess;
+        }
+    });
+});
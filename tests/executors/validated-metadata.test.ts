@@ -0,0 +1,132 @@
+import { describe, expect, it } from '@jest/globals';
+import { MiniAppExecutor } from '../../src/executors/miniAppExecutor';
+import { createInMemoryTransport } from '../../src/executors/transport';
+import { HttpRequestError } from '../../src/errors/customErrors';
+import { DynamicAction } from '../../src/interface/actions/dynamicAction';
+import { ActionFlow, NestedDynamicAction } from '../../src/interface/actions/flowAction';
+
+describe('BaseExecutor.getValidatedMetadata', () => {
+    const metadataUrl = 'https://miniapp.example.com/metadata';
+
+    const validMetadata = {
+        url: 'https://miniapp.example.com',
+        icon: 'https://miniapp.example.com/icon.png',
+        title: 'Test App',
+        description: 'A test mini app',
+        baseUrl: 'https://api.example.com',
+        actions: [
+            {
+                type: 'dynamic',
+                label: 'Quote',
+                path: '/api/quote',
+                chains: { source: 43113 },
+            },
+            {
+                type: 'flow',
+                label: 'Onboarding',
+                initialActionId: 'quote',
+                actions: [
+                    {
+                        id: 'quote',
+                        type: 'dynamic',
+                        label: 'Quote',
+                        path: '/api/flow-quote',
+                        chains: { source: 43113 },
+                        nextActions: [{ actionId: 'signup' }],
+                    },
+                    {
+                        id: 'signup',
+                        type: 'dynamic',
+                        label: 'Sign up',
+                        path: '/signup',
+                        baseUrl: 'https://accounts.example.com',
+                        chains: { source: 43113 },
+                        nextActions: [{ actionId: 'done' }],
+                    },
+                    {
+                        id: 'done',
+                        type: 'completion',
+                        label: 'Done',
+                        message: 'All set',
+                        status: 'success',
+                    },
+                ],
+            },
+        ],
+    };
+
+    const createExecutor = (body: unknown, status = 200) =>
+        new MiniAppExecutor(undefined, undefined, {
+            transport: createInMemoryTransport(() => ({ status, body })),
+        });
+
+    it('should return validated metadata with absolute dynamic paths', async () => {
+        const result = await createExecutor(validMetadata).getValidatedMetadata(metadataUrl);
+
+        expect(result.isValid).toBe(true);
+        if (!result.isValid) return;
+
+        expect(result.errors).toEqual([]);
+        expect(result.metadata.title).toBe('Test App');
+
+        const [dynamic, flow] = result.metadata.actions as [DynamicAction, ActionFlow];
+        const [flowQuote, signup] = flow.actions as NestedDynamicAction[];
+        expect(dynamic.path).toBe('https://api.example.com/api/quote');
+        expect(flowQuote.path).toBe('https://api.example.com/api/flow-quote');
+        expect(signup.path).toBe('https://accounts.example.com/signup');
+    });
+
+    it('should keep absolute paths untouched', async () => {
+        const metadata = {
+            ...validMetadata,
+            actions: [{ ...validMetadata.actions[0], path: 'https://other.example.com/quote' }],
+        };
+
+        const result = await createExecutor(metadata).getValidatedMetadata(metadataUrl);
+
+        if (!result.isValid) {
+            throw new Error('Expected valid metadata');
+        }
+
+        const [dynamic] = result.metadata.actions as DynamicAction[];
+        expect(dynamic.path).toBe('https://other.example.com/quote');
+    });
+
+    it('should return validation errors instead of throwing', async () => {
+        const withoutTitle = { ...validMetadata, title: undefined };
+
+        const result = await createExecutor(withoutTitle).getValidatedMetadata(metadataUrl);
+
+        expect(result.isValid).toBe(false);
+        if (result.isValid) return;
+
+        expect(result.metadata).toBeUndefined();
+        expect(result.raw).toEqual(withoutTitle);
+        expect(result.errors).toEqual([
+            {
+                name: 'SherryValidationError',
+                message: "Metadata missing required 'title' field",
+                code: 'VALIDATION_FAILED',
+                path: 'title',
+            },
+        ]);
+    });
+
+    it('should report relative dynamic paths without a baseUrl', async () => {
+        const withoutBaseUrl = { ...validMetadata, baseUrl: undefined };
+
+        const result = await createExecutor({
+            ...withoutBaseUrl,
+            actions: [withoutBaseUrl.actions[0]],
+        }).getValidatedMetadata(metadataUrl);
+
+        expect(result.isValid).toBe(false);
+        expect(result.errors[0].name).toBe('DynamicActionValidationError');
+    });
+
+    it('should still throw when the request fails', async () => {
+        await expect(
+            createExecutor('Not Found', 404).getValidatedMetadata(metadataUrl),
+        ).rejects.toBeInstanceOf(HttpRequestError);
+    });
+});
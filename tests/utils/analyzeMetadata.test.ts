@@ -0,0 +1,161 @@
+import { describe, expect, it } from '@jest/globals';
+import { analyzeMetadata, createMetadata } from '../../src/utils/createMetadata';
+import { SherryValidationError } from '../../src/errors/customErrors';
+
+describe('analyzeMetadata', () => {
+    const metadata = {
+        url: 'https://example.com',
+        icon: 'https://example.com/icon.png',
+        title: 'Test',
+        description: 'Test mini app',
+        actions: [
+            {
+                type: 'http',
+                label: 'Submit',
+                path: 'https://api.example.com/submit',
+                params: [{ name: 'email', label: 'Email', type: 'email', required: true }],
+            },
+        ],
+    };
+
+    it('should return the validated metadata without issues', () => {
+        const report = analyzeMetadata(metadata);
+
+        expect(report.isValid).toBe(true);
+        expect(report.issues).toEqual([]);
+        expect(report.metadata).toEqual(createMetadata(metadata));
+    });
+
+    it('should report every error instead of stopping at the first one', () => {
+        const report = analyzeMetadata({
+            ...metadata,
+            title: '',
+            actions: [
+                {
+                    type: 'http',
+                    label: 'Submit',
+                    path: 'https://api.example.com/submit',
+                    params: [
+                        { name: '', label: 'Email', type: 'email', required: true },
+                        { name: 'age', label: 'Age', type: 'unknown', required: true },
+                    ],
+                },
+                { type: 'swap', label: 'Swap' },
+                {
+                    type: 'flow',
+                    label: 'Flow',
+                    initialActionId: 'start',
+                    actions: [
+                        {
+                            id: 'start',
+                            type: 'decision',
+                            label: 'Start',
+                            title: 'Choose',
+                            options: [{ label: 'A', value: 'a', nextActionId: 'missing' }],
+                        },
+                    ],
+                },
+            ],
+        });
+
+        expect(report.isValid).toBe(false);
+        expect(report.metadata).toBeUndefined();
+        expect(report.issues.map(({ severity, code, path }) => ({ severity, code, path }))).toEqual(
+            [
+                { severity: 'error', code: 'VALIDATION_FAILED', path: 'title' },
+                { severity: 'error', code: 'INVALID_METADATA', path: 'actions[0].params[0].name' },
+                { severity: 'error', code: 'INVALID_METADATA', path: 'actions[0].params[1].type' },
+                { severity: 'error', code: 'VALIDATION_FAILED', path: 'actions[1].type' },
+                {
+                    severity: 'error',
+                    code: 'INVALID_METADATA',
+                    path: 'actions[2].actions[0].options[0].nextActionId',
+                },
+            ],
+        );
+        expect(report.errors).toHaveLength(5);
+    });
+
+    it('should report every problem of a single action', () => {
+        const report = analyzeMetadata({
+            ...metadata,
+            actions: [
+                {
+                    type: 'dynamic',
+                    label: 'Quote',
+                    path: '/quote',
+                    chains: { source: 43114 },
+                    params: [{ name: 'amount', label: 'Amount', type: 'unknown', required: true }],
+                },
+                {
+                    type: 'transfer',
+                    label: 'Tip',
+                    chains: { source: 43114 },
+                    to: 'not-an-address',
+                    amountConfig: { type: 'slider' },
+                },
+                {
+                    type: 'flow',
+                    label: 'Flow',
+                    initialActionId: 'start',
+                    actions: [null],
+                },
+            ],
+        });
+
+        expect(report.issues.map(({ code, path }) => ({ code, path }))).toEqual([
+            { code: 'INVALID_DYNAMIC_ACTION', path: 'actions[0].path' },
+            { code: 'INVALID_DYNAMIC_ACTION', path: 'actions[0].params[0].type' },
+            { code: 'INVALID_METADATA', path: 'actions[1].to' },
+            { code: 'INVALID_METADATA', path: 'actions[1].amountConfig.type' },
+            { code: 'INVALID_METADATA', path: 'actions[2].actions[0]' },
+        ]);
+    });
+
+    it('should report warnings and notes without invalidating the metadata', () => {
+        const report = analyzeMetadata({
+            ...metadata,
+            icon: 'http://example.com/icon.png',
+            baseUrl: 'https://api.example.com',
+        });
+
+        expect(report.isValid).toBe(true);
+        expect(report.issues).toEqual([
+            {
+                severity: 'warning',
+                code: 'INSECURE_URL',
+                path: 'icon',
+                message: 'icon uses HTTP instead of HTTPS',
+            },
+            {
+                severity: 'info',
+                code: 'UNUSED_BASE_URL',
+                path: 'baseUrl',
+                message: 'baseUrl is set but no dynamic action has a relative path',
+            },
+        ]);
+    });
+
+    it('should report a single error for values that are not objects', () => {
+        const report = analyzeMetadata('not metadata');
+
+        expect(report.issues).toEqual([
+            {
+                severity: 'error',
+                code: 'VALIDATION_FAILED',
+                path: undefined,
+                message: 'Metadata must be a valid object',
+            },
+        ]);
+    });
+
+    it('should make createMetadata throw the first error of the report', () => {
+        const invalid = { ...metadata, title: '', description: '' };
+
+        const report = analyzeMetadata(invalid);
+        expect(report.errors).toHaveLength(2);
+
+        expect(() => createMetadata(invalid)).toThrow(SherryValidationError);
+        expect(() => createMetadata(invalid)).toThrow(report.errors[0].message);
+    });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from '@jest/globals';
+import { createMetadata } from '../../src/utils/createMetadata';
+import { Metadata } from '../../src/interface';
+import { FlowValidator } from '../../src/validators/flowValidator';
+import { ActionFlow } from '../../src/interface/actions/flowAction';
+import {
+    HttpRequestError,
+    InvalidMetadataError,
+    RateLimitError,
+    SHERRY_ERROR_CODES,
+    SherryError,
+    SherryValidationError,
+} from '../../src/errors/customErrors';
+
+describe('SherryError', () => {
+    const metadata: Metadata = {
+        url: 'https://example.com',
+        icon: 'https://example.com/icon.png',
+        title: 'Test',
+        description: 'Test mini app',
+        actions: [
+            {
+                type: 'http',
+                label: 'Submit',
+                path: 'https://api.example.com/submit',
+                params: [{ name: 'email', label: 'Email', type: 'email', required: true }],
+            },
+            {
+                type: 'http',
+                label: 'Vote',
+                path: 'https://api.example.com/vote',
+                params: [
+                    { name: 'name', label: 'Name', type: 'text', required: true },
+                    {
+                        name: 'choice',
+                        label: 'Choice',
+                        type: 'select',
+                        required: true,
+                        options: [{ label: '', value: 'a' }],
+                    },
+                ],
+            },
+        ],
+    };
+
+    const errorOf = (fn: () => unknown) => {
+        try {
+            fn();
+        } catch (error) {
+            return error as SherryError;
+        }
+        throw new Error('Expected an error');
+    };
+
+    it('should report the JSON path of the offending value', () => {
+        const error = errorOf(() => createMetadata(metadata));
+
+        expect(error).toBeInstanceOf(SherryValidationError);
+        expect(error.code).toBe(SHERRY_ERROR_CODES.INVALID_METADATA);
+        expect(error.path).toBe('actions[1].params[1].options[0].label');
+        expect(error.cause).toBeInstanceOf(InvalidMetadataError);
+    });
+
+    it('should report top-level fields', () => {
+        const error = errorOf(() => createMetadata({ ...metadata, icon: '' }));
+
+        expect(error).toBeInstanceOf(SherryValidationError);
+        expect(error.code).toBe(SHERRY_ERROR_CODES.VALIDATION_FAILED);
+        expect(error.path).toBe('icon');
+    });
+
+    it('should report paths inside flows', () => {
+        const flow: ActionFlow = {
+            type: 'flow',
+            label: 'Flow',
+            initialActionId: 'start',
+            actions: [
+                {
+                    id: 'start',
+                    type: 'decision',
+                    label: 'Start',
+                    title: 'Choose',
+                    options: [{ label: 'A', value: 'a', nextActionId: 'missing' }],
+                },
+            ],
+        };
+
+        const error = errorOf(() => FlowValidator.validateFlow(flow));
+
+        expect(error).toBeInstanceOf(InvalidMetadataError);
+        expect(error.path).toBe('actions[0].options[0].nextActionId');
+    });
+
+    it('should keep the HTTP status and serialize to JSON', () => {
+        const error = new RateLimitError('HTTP 429: Too Many Requests', { retryAfterMs: 1000 });
+
+        expect(error).toBeInstanceOf(HttpRequestError);
+        expect(error.code).toBe(SHERRY_ERROR_CODES.RATE_LIMITED);
+        expect(JSON.parse(JSON.stringify(error))).toEqual({
+            name: 'RateLimitError',
+            code: 'RATE_LIMITED',
+            message: 'HTTP 429: Too Many Requests',
+            status: 429,
+        });
+    });
+});
@@ -4,6 +4,7 @@ import { FlowValidator } from '../../src/validators/flowValidator';
 import {
     ActionFlow,
     NestedHttpAction,
+    NestedDynamicAction,
     DecisionAction,
     CompletionAction,
 } from '../../src/interface/actions/flowAction';
@@ -215,6 +216,66 @@ describe('FlowValidator', () => {
         });
     });
 
+    describe('Dynamic Actions', () => {
+        const dynamicFlow = (path: string, baseUrl?: string): ActionFlow => ({
+            type: 'flow',
+            label: 'Dynamic Flow',
+            initialActionId: 'quote',
+            actions: [
+                {
+                    id: 'quote',
+                    type: 'dynamic',
+                    label: 'Get Quote',
+                    path,
+                    baseUrl,
+                    chains: { source: 43113 },
+                    params: [{ name: 'amount', label: 'Amount', type: 'number', required: true }],
+                    nextActions: [{ actionId: 'done' }],
+                } as NestedDynamicAction,
+                {
+                    id: 'done',
+                    type: 'completion',
+                    label: 'Done',
+                    message: 'Quote received',
+                    status: 'success',
+                } as CompletionAction,
+            ],
+        });
+
+        it('should validate a dynamic action with an absolute path', () => {
+            const result = FlowValidator.validateFlow(dynamicFlow('https://api.example.com/quote'));
+            expect(result.actions[0].type).toBe('dynamic');
+        });
+
+        it('should validate a relative path using the action baseUrl', () => {
+            expect(() =>
+                FlowValidator.validateFlow(dynamicFlow('/quote', 'https://api.example.com')),
+            ).not.toThrow();
+        });
+
+        it('should validate a relative path using the metadata baseUrl', () => {
+            expect(() =>
+                FlowValidator.validateFlow(dynamicFlow('/quote'), 'https://api.example.com'),
+            ).not.toThrow();
+        });
+
+        it('should throw error for a relative path without baseUrl', () => {
+            expect(() => FlowValidator.validateFlow(dynamicFlow('/quote'))).toThrow(
+                /Dynamic action 'quote' validation failed: .*no baseUrl/,
+            );
+        });
+
+        it('should throw error for invalid dynamic parameters', () => {
+            const flow = dynamicFlow('https://api.example.com/quote');
+            (flow.actions[0] as NestedDynamicAction).params = [
+                { name: 'amount', label: '', type: 'number' },
+            ];
+
+            expect(() => FlowValidator.validateFlow(flow)).toThrow(InvalidMetadataError);
+            expect(() => FlowValidator.validateFlow(flow)).toThrow(/Invalid parameter/);
+        });
+    });
+
     describe('Example Flows', () => {
         it('should validate onboarding flow example', () => {
             const result = FlowValidator.validateFlow(nestedActionExamples.onboardingFlow);
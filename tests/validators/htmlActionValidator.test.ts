@@ -0,0 +1,171 @@
+import { describe, expect, it } from '@jest/globals';
+import { HTMLActionValidator } from '../../src/validators/htmlActionValidator';
+import { FlowValidator } from '../../src/validators/flowValidator';
+import { createMetadata } from '../../src/utils/createMetadata';
+import { HTMLAction } from '../../src/interface/actions/htmlAction';
+import { ActionFlow, NestedHtmlAction } from '../../src/interface/actions/flowAction';
+import { InvalidMetadataError, SherryError } from '../../src/errors/customErrors';
+
+describe('HTMLActionValidator', () => {
+    const validHtmlAction: HTMLAction = {
+        type: 'html',
+        label: 'Open Game',
+        url: 'https://game.example.com',
+        width: 400,
+        height: 600,
+        chains: { source: 43114 },
+    };
+
+    const errorOf = (fn: () => unknown) => {
+        try {
+            fn();
+        } catch (error) {
+            return error as SherryError;
+        }
+        throw new Error('Expected an error');
+    };
+
+    describe('isHTMLAction', () => {
+        it('identifies HTML actions', () => {
+            expect(HTMLActionValidator.isHTMLAction(validHtmlAction)).toBe(true);
+        });
+
+        it('rejects other actions and invalid objects', () => {
+            expect(HTMLActionValidator.isHTMLAction({ ...validHtmlAction, type: 'http' })).toBe(
+                false,
+            );
+            expect(HTMLActionValidator.isHTMLAction(null)).toBe(false);
+        });
+
+        it('leaves missing fields to validateHTMLAction', () => {
+            expect(HTMLActionValidator.isHTMLAction({ type: 'html' })).toBe(true);
+        });
+    });
+
+    describe('validateHTMLAction', () => {
+        it('returns a valid action unchanged', () => {
+            expect(HTMLActionValidator.validateHTMLAction(validHtmlAction)).toEqual(
+                validHtmlAction,
+            );
+            expect(
+                HTMLActionValidator.validateHTMLAction({
+                    ...validHtmlAction,
+                    width: undefined,
+                    height: undefined,
+                    fullscreen: true,
+                }),
+            ).toBeDefined();
+        });
+
+        it.each([
+            [{ label: '' }, 'label', /valid label/],
+            [{ chains: undefined }, 'chains', /Chains configuration is required/],
+            [{ chains: { source: 999999 } }, 'chains.source', /Invalid source chain/],
+            [
+                { chains: { source: 43114, destination: 'celo' } },
+                'chains.destination',
+                /Invalid destination chain/,
+            ],
+            [{ url: '' }, 'url', /must have a url/],
+            [{ url: 'game.example.com' }, 'url', /Invalid HTML action url/],
+            [{ url: 'http://game.example.com' }, 'url', /must use HTTPS/],
+            [{ url: 'javascript:alert(1)' }, 'url', /must use HTTPS/],
+            [{ width: 0 }, 'width', /between 1 and 4096, got 0/],
+            [{ width: 400.5 }, 'width', /must be an integer/],
+            [{ height: 5000 }, 'height', /between 1 and 4096, got 5000/],
+            [{ height: '600' }, 'height', /must be an integer/],
+            [{ fullscreen: 'yes' }, 'fullscreen', /must be a boolean/],
+        ])('rejects %j', (override, path, message) => {
+            const error = errorOf(() =>
+                HTMLActionValidator.validateHTMLAction({
+                    ...validHtmlAction,
+                    ...override,
+                } as HTMLAction),
+            );
+
+            expect(error).toBeInstanceOf(InvalidMetadataError);
+            expect(error.path).toBe(path);
+            expect(error.message).toMatch(message);
+        });
+    });
+
+    describe('in metadata', () => {
+        const metadata = {
+            url: 'https://example.com',
+            icon: 'https://example.com/icon.png',
+            title: 'Game',
+            description: 'Play a game',
+            actions: [validHtmlAction],
+        };
+
+        it('accepts HTML actions', () => {
+            expect(createMetadata(metadata).actions).toEqual([validHtmlAction]);
+        });
+
+        it('reports the path of an invalid HTML action', () => {
+            const error = errorOf(() =>
+                createMetadata({
+                    ...metadata,
+                    actions: [{ ...validHtmlAction, url: 'http://game.example.com' }],
+                }),
+            );
+
+            expect(error.path).toBe('actions[0].url');
+            expect(error.message).toMatch(/must use HTTPS/);
+        });
+
+        it('reports a missing url instead of an unknown action type', () => {
+            const { url: _url, ...withoutUrl } = validHtmlAction;
+
+            const error = errorOf(() => createMetadata({ ...metadata, actions: [withoutUrl] }));
+
+            expect(error.path).toBe('actions[0].url');
+            expect(error.message).toMatch(/must have a url/);
+        });
+    });
+
+    describe('in flows', () => {
+        const flow = (override: Partial<NestedHtmlAction> = {}): ActionFlow => ({
+            type: 'flow',
+            label: 'Game Flow',
+            initialActionId: 'play',
+            actions: [
+                {
+                    id: 'play',
+                    type: 'html',
+                    label: 'Play',
+                    url: 'https://game.example.com',
+                    fullscreen: true,
+                    chains: { source: 43114 },
+                    nextActions: [{ actionId: 'done' }],
+                    ...override,
+                },
+                {
+                    id: 'done',
+                    type: 'completion',
+                    label: 'Done',
+                    message: 'Thanks for playing',
+                    status: 'success',
+                },
+            ],
+        });
+
+        it('validates HTML steps', () => {
+            expect(FlowValidator.validateFlow(flow()).actions[0].type).toBe('html');
+        });
+
+        it('reports invalid HTML steps with their path', () => {
+            const error = errorOf(() => FlowValidator.validateFlow(flow({ height: -1 })));
+
+            expect(error).toBeInstanceOf(InvalidMetadataError);
+            expect(error.path).toBe('actions[0].height');
+            expect(error.message).toMatch(/HTML action 'play' validation failed/);
+        });
+
+        it('checks the next actions of HTML steps', () => {
+            expect(() =>
+                FlowValidator.validateFlow(flow({ nextActions: [{ actionId: 'missing' }] })),
+            ).toThrow(InvalidMetadataError);
+        });
+    });
+});
@@ -0,0 +1,143 @@
+import { describe, expect, it } from '@jest/globals';
+import { File } from 'node:buffer';
+import { assertValidInputs, validateInputs } from '../../src/validators/inputValidator';
+import { Parameter } from '../../src/interface/inputs';
+import { InputValidationError } from '../../src/errors/customErrors';
+
+// The jest node environment does not expose File as a global
+(globalThis as any).File ??= File;
+
+describe('validateInputs', () => {
+    const params: Parameter[] = [
+        {
+            name: 'username',
+            label: 'Username',
+            type: 'text',
+            required: true,
+            minLength: 3,
+            maxLength: 10,
+            pattern: '^[a-z]+$',
+        },
+        { name: 'email', label: 'Email', type: 'email' },
+        { name: 'website', label: 'Website', type: 'url' },
+        { name: 'age', label: 'Age', type: 'number', min: 18, max: 99 },
+        { name: 'tokenId', label: 'Token', type: 'uint256' },
+        { name: 'to', label: 'Recipient', type: 'address' },
+        { name: 'agree', label: 'Agree', type: 'boolean' },
+        { name: 'birthday', label: 'Birthday', type: 'datetime' },
+        {
+            name: 'plan',
+            label: 'Plan',
+            type: 'select',
+            options: [
+                { label: 'Free', value: 'free' },
+                { label: 'Pro', value: 'pro' },
+            ],
+        },
+        {
+            name: 'avatar',
+            label: 'Avatar',
+            type: 'image',
+            accept: 'image/png',
+            maxSize: 1024,
+        },
+    ];
+
+    const validInputs = {
+        username: 'alice',
+        email: 'alice@example.com',
+        website: 'https://alice.dev',
+        age: '30',
+        tokenId: 12n,
+        to: '0x742d35cc6634c0532925a3b8d4ccd306f6f4b26c',
+        agree: 'true',
+        birthday: '2000-01-01',
+        plan: 'pro',
+        avatar: new File(['x'], 'avatar.png', { type: 'image/png' }),
+    };
+
+    it('should accept inputs that match their parameters', () => {
+        expect(validateInputs(params, validInputs)).toEqual({ isValid: true, errors: {} });
+    });
+
+    it('should report an error for each invalid field', () => {
+        const result = validateInputs(params, {
+            username: 'Al',
+            email: 'not-an-email',
+            website: 'alice.dev',
+            age: 12,
+            tokenId: '-1',
+            to: '0x123',
+            agree: 'yes',
+            birthday: 'someday',
+            plan: 'enterprise',
+            avatar: new File(['x'.repeat(2048)], 'avatar.png', { type: 'image/png' }),
+        });
+
+        expect(result.isValid).toBe(false);
+        expect(result.errors).toEqual({
+            username: 'must be at least 3 characters',
+            email: 'must be a valid email address',
+            website: 'must be a valid URL',
+            age: 'must be at least 18',
+            tokenId: 'must not be negative',
+            to: 'must be a valid address',
+            agree: 'must be a boolean',
+            birthday: 'must be a valid date',
+            plan: 'must be one of the allowed options',
+            avatar: 'File size must be less than 0.00MB',
+        });
+    });
+
+    it.each([
+        ['username', 'alice_1', 'does not match the expected format'],
+        ['username', 'abcdefghijk', 'must be at most 10 characters'],
+        ['age', 100, 'must be at most 99'],
+        ['tokenId', '1.5', 'must be an integer'],
+        ['avatar', new File(['x'], 'avatar.gif', { type: 'image/gif' }), /File type/],
+        ['avatar', 'avatar.png', 'must be a file'],
+    ])('should reject %s = %p', (name, value, error) => {
+        const { errors } = validateInputs(params, { ...validInputs, [name]: value });
+
+        expect(errors[name]).toEqual(
+            error instanceof RegExp ? expect.stringMatching(error) : error,
+        );
+    });
+
+    it('should report a malformed pattern instead of throwing', () => {
+        const result = validateInputs(
+            [{ name: 'code', label: 'Code', type: 'text', pattern: '([a-z' }],
+            { code: 'abc' },
+        );
+
+        expect(result).toEqual({
+            isValid: false,
+            errors: { code: 'cannot be checked: the expected format is invalid' },
+        });
+    });
+
+    it('should use default and fixed values', () => {
+        const defaults: Parameter[] = [
+            { name: 'amount', label: 'Amount', type: 'number', required: true, value: 1 },
+            { name: 'fee', label: 'Fee', type: 'number', fixed: true, value: 'free', min: 0 },
+        ];
+
+        expect(validateInputs(defaults, { fee: 5 }).errors).toEqual({ fee: 'must be a number' });
+    });
+
+    it('should require required fields only', () => {
+        expect(validateInputs(params, {}).errors).toEqual({ username: 'is required' });
+    });
+
+    it('should accept the sender placeholder for addresses', () => {
+        expect(validateInputs(params, { ...validInputs, to: 'sender' }).isValid).toBe(true);
+    });
+
+    it('should throw an InputValidationError with the field errors', () => {
+        expect(() => assertValidInputs(params, { username: 'alice', age: 5 })).toThrow(
+            new InputValidationError("Invalid value for parameter 'age': must be at least 18", {
+                age: 'must be at least 18',
+            }),
+        );
+    });
+});